@@ -1,16 +1,42 @@
 
-import React, { useState, useCallback, useEffect, useRef, useContext, createContext } from 'react';
-import { CameraPreset, LightingPreset, MockupPreset, ManipulationPreset, PeopleRetouchPreset, RetouchPreset, ExportSettings, ImageFile, GenerationParams, AppMode, CreativeMode, HistoryItem, UpscaleTarget, PromptSuggestion, RetouchOptions, RetouchSubMode, LightDirection, WbAndGrade, IllustrationStylePreset } from './types';
-import { CAMERA_PRESETS, LIGHTING_PRESETS, MOCKUP_PRESETS, MANIPULATION_PRESETS, PEOPLE_RETOUCH_PRESETS, RETOUCH_PRESETS, ENVIRONMENT_PRESETS, LIGHT_DIRECTIONS, WB_AND_GRADES, ILLUSTRATION_STYLE_PRESETS } from './constants';
-import { generateImage, analyzeForCompositeSuggestions, performSmartRetouch, generateEnvironment, upscaleImage, generateDesignKitPrompt, generateIllustration, generateIllustrationPrompts, generateRetouchPrompts, vectorizeImage } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef, useContext, createContext, useSyncExternalStore } from 'react';
+import { CameraPreset, LightingPreset, MockupPreset, ManipulationPreset, PeopleRetouchPreset, RetouchPreset, ExportSettings, ImageFile, GenerationParams, AppMode, CreativeMode, HistoryItem, UpscaleTarget, PromptSuggestion, RetouchOptions, RetouchSubMode, LightDirection, WbAndGrade, IllustrationStylePreset, Preset, PresetCategory, PresetSuggestion, ReferenceImage, RecipeSettings, DesignKitSettings } from './types';
+import { CAMERA_PRESETS, LIGHTING_PRESETS, MOCKUP_PRESETS, MANIPULATION_PRESETS, PEOPLE_RETOUCH_PRESETS, RETOUCH_PRESETS, ENVIRONMENT_PRESETS, LIGHT_DIRECTIONS, WB_AND_GRADES, ILLUSTRATION_STYLE_PRESETS, DEFAULT_EXPORT_SETTINGS, DEFAULT_RETOUCH_OPTIONS } from './constants';
+import { getProvider, generateImage, analyzeForCompositeSuggestions, performSmartRetouch, generateEnvironment, upscaleImage, inpaintImage, generateDesignKitPrompt, generateIllustration, generateIllustrationPrompts, generateRetouchPrompts, vectorizeImage } from './services/aiService';
 import ControlPanel from './components/ControlPanel';
 import ImageUploader from './components/ImageUploader';
 import Loader from './components/Loader';
 import BeforeAfterSlider from './components/BeforeAfterSlider';
-import { DDStudioIcon, SparklesIcon, WandIcon, WifiOffIcon, FacebookIcon, BehanceIcon, WhatsAppIcon, InstagramIcon, HistoryIcon, ArrowsExpandIcon, DownloadIcon, ArrowsContractIcon, CloseIcon, FilmIcon, FaceSmileIcon, CheckIcon, UpscaleIcon, EnvironmentIcon, CogIcon, RefreshIcon, ClipboardCopyIcon, PaintBrushIcon, PhotoIcon, SvgIcon } from './components/Icons';
+import { DDStudioIcon, SparklesIcon, WandIcon, WifiOffIcon, FacebookIcon, BehanceIcon, WhatsAppIcon, InstagramIcon, HistoryIcon, ArrowsExpandIcon, DownloadIcon, ArrowsContractIcon, CloseIcon, FilmIcon, FaceSmileIcon, CheckIcon, UpscaleIcon, EnvironmentIcon, CogIcon, RefreshIcon, ClipboardCopyIcon, PaintBrushIcon, PhotoIcon, SvgIcon, EyeIcon, LayersIcon, SunIcon, ArrowsHorizontalIcon } from './components/Icons';
 import MagicCompositeToggle from './components/MagicCompositeToggle';
 import AccordionItem from './components/AccordionItem';
+import PromptTemplateSettings from './components/PromptTemplateSettings';
+import BatchPanel from './components/BatchPanel';
+import SweepPanel from './components/SweepPanel';
+import ABComparePanel from './components/ABComparePanel';
+import BrandKitManager from './components/BrandKitManager';
+import CustomPresetManager from './components/CustomPresetManager';
+import RecipePanel, { IncomingRecipe } from './components/RecipePanel';
+import ColorComplianceReport from './components/ColorComplianceReport';
+import AdComposer from './components/AdComposer';
+import CampaignPackPanel from './components/CampaignPackPanel';
+import MaskEditor from './components/MaskEditor';
+import MoodBoardUploader from './components/MoodBoardUploader';
+import RefinementChat from './components/RefinementChat';
+import { AdLayout } from './services/adLayout';
+import { getActiveBrandKitRef, getBrandKitState, subscribeToBrandKits } from './services/brandKitStore';
+import { SweepSelection } from './services/sweep';
+import PromptInspector from './components/PromptInspector';
+import UsageMeter from './components/UsageMeter';
+import { CompiledRequest, compileDesignKitRequest, compileEnvironmentRequest, compileIllustrationRequest, compileSmartRetouchRequest } from './services/promptBuilder';
 import { translations } from './i18n';
+import { AIError, BudgetExceededError, CancelledError, SafetyBlockError, isCancellation } from './services/aiErrors';
+import { PRESET_CATALOG, findPreset, getPresets } from './services/presetCatalog';
+import { getCustomPresets, subscribeToCustomPresets } from './services/customPresetStore';
+import { decodeRecipeFragment, resolvePresetIds, toGenerationParams } from './services/recipes';
+import { PresetConflictFix, detectPresetConflicts, withoutConflicts } from './services/presetRules';
+import { aspectRatioToCss, enforceAspectRatio } from './services/aspectRatio';
+import { UsageTotals, createUsageCollector, formatCostUsd, formatTokenCount } from './services/usage';
 
 // --- I18n Setup ---
 type Language = 'en' | 'ar';
@@ -69,6 +95,35 @@ export const useLanguage = () => {
     return context;
 };
 
+// "HARM_CATEGORY_DANGEROUS_CONTENT" -> "dangerous content"
+const formatHarmCategory = (category: string) => category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+/** Turns a provider failure into a specific, actionable message for its error class. */
+export const describeAIError = (error: unknown, t: LanguageContextType['t'], fallback: string): string => {
+    if (!(error instanceof AIError)) return error instanceof Error ? error.message : fallback;
+    const finishReason = error.finishReason ? ` ${t('errorFinishReason').replace('{reason}', error.finishReason)}` : '';
+    switch (error.kind) {
+        case 'safety': {
+            const category = error instanceof SafetyBlockError && error.category ? formatHarmCategory(error.category) : t('errorSafetyUnknownCategory');
+            return t('errorSafety').replace('{category}', category);
+        }
+        case 'quota':
+            return t('errorQuota');
+        case 'network':
+            return t('errorNetwork');
+        case 'no-image':
+            return t('errorNoImage') + finishReason;
+        case 'invalid-json':
+            return t('errorInvalidJson') + finishReason;
+        case 'budget':
+            return t('errorBudget').replace('{limit}', formatCostUsd((error as BudgetExceededError).limitUsd));
+        case 'unknown':
+            return error.message || fallback;
+        default:
+            return fallback;
+    }
+};
+
 interface HistoryPanelProps {
     history: HistoryItem[];
     onSelect: (item: HistoryItem) => void;
@@ -88,12 +143,14 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onSelect }) => {
                 </div>
             ) : (
                 <div className="grid grid-cols-3 gap-2">
-                    {history.map((item) => (
+                    {history.map((item) => {
+                        const mockupName = item.mockupId && item.mockupId !== 'none' ? findPreset('mockup', item.mockupId)?.name : undefined;
+                        return (
                         <button
                             key={item.id}
                             onClick={() => onSelect(item)}
                             className="aspect-square bg-white/10 rounded-lg overflow-hidden group relative focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-all duration-300 hover:shadow-lg hover:shadow-cyan-500/20"
-                            title={t('historyViewTooltip')}
+                            title={item.brandKit ? `${t('historyViewTooltip')}\n${t('brandKitLabel')}: ${item.brandKit.name}` : t('historyViewTooltip')}
                         >
                             <img
                                 src={`data:${item.generated.mimeType};base64,${item.generated.base64}`}
@@ -103,14 +160,96 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onSelect }) => {
                             <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
                                 <p className="text-white text-xs font-bold">{t('view')}</p>
                             </div>
+                            {mockupName && (
+                                <span className="absolute top-1 start-1 max-w-[90%] truncate text-[10px] font-semibold text-cyan-100 bg-black/60 px-1 rounded">
+                                    {t(mockupName, mockupName)}
+                                </span>
+                            )}
+                            {item.refinementTurn && (
+                                <span className="absolute top-1 end-1 text-[10px] font-semibold text-cyan-100 bg-black/60 px-1 rounded" title={t('refineHistoryBadge')}>
+                                    ↳ v{item.refinementTurn}
+                                </span>
+                            )}
+                            {item.usage && (
+                                <span
+                                    className="absolute bottom-1 start-1 text-[10px] font-semibold text-gray-100 bg-black/60 px-1 rounded"
+                                    title={`${formatTokenCount(item.usage.inputTokens)} ${t('usageInputTokens')} · ${formatTokenCount(item.usage.outputTokens)} ${t('usageOutputTokens')}`}
+                                >
+                                    {formatCostUsd(item.usage.costUsd)}
+                                </span>
+                            )}
                         </button>
-                    ))}
+                        );
+                    })}
                 </div>
             )}
         </div>
     );
 };
 
+interface CandidateGridProps {
+    candidates: { base64: string; mimeType: string }[];
+    selected: { base64: string; mimeType: string } | null;
+    onSelect: (candidate: { base64: string; mimeType: string }) => void;
+}
+
+const CandidateGrid: React.FC<CandidateGridProps> = ({ candidates, selected, onSelect }) => {
+    const { t } = useLanguage();
+    return (
+        <div className="w-full px-2 pt-3">
+            <p className="text-xs font-semibold uppercase tracking-wider text-gray-300 mb-2">{t('candidatesTitle')}</p>
+            <div className="grid grid-cols-4 gap-2">
+                {candidates.map((candidate, index) => (
+                    <button
+                        key={index}
+                        onClick={() => onSelect(candidate)}
+                        className={`aspect-square bg-white/10 rounded-lg overflow-hidden relative focus:outline-none transition-all duration-300 ${candidate === selected ? 'ring-2 ring-cyan-400' : 'opacity-70 hover:opacity-100'}`}
+                        title={t('candidatePromoteTooltip')}
+                    >
+                        <img
+                            src={`data:${candidate.mimeType};base64,${candidate.base64}`}
+                            alt={t('candidateAlt').replace('{index}', String(index + 1))}
+                            className="w-full h-full object-cover"
+                        />
+                        {candidate === selected && <CheckIcon className="absolute top-1 end-1 w-4 h-4 text-cyan-300" />}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+interface SceneTabsProps {
+    scenes: HistoryItem[];
+    activeId: string | null;
+    onSelect: (item: HistoryItem) => void;
+}
+
+// One tab per mockup scene produced by the last Design Kit run.
+const SceneTabs: React.FC<SceneTabsProps> = ({ scenes, activeId, onSelect }) => {
+    const { t } = useLanguage();
+    return (
+        <div className="w-full px-2 pt-3">
+            <p className="text-xs font-semibold uppercase tracking-wider text-gray-300 mb-2">{t('scenesTitle')}</p>
+            <div className="flex flex-wrap gap-2">
+                {scenes.map(scene => {
+                    const name = findPreset('mockup', scene.mockupId ?? 'none')?.name ?? '';
+                    return (
+                        <button
+                            key={scene.id}
+                            onClick={() => onSelect(scene)}
+                            className={`flex items-center gap-2 rounded-lg p-1 pe-3 text-xs font-semibold transition-colors ${scene.id === activeId ? 'bg-cyan-500/20 text-white ring-2 ring-cyan-400' : 'bg-white/5 text-gray-300 hover:bg-white/10'}`}
+                        >
+                            <img src={`data:${scene.generated.mimeType};base64,${scene.generated.base64}`} alt={t(name, name)} className="w-8 h-8 object-cover rounded-md" />
+                            {t(name, name)}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
 interface PromptSuggestionsModalProps {
     isOpen: boolean;
     suggestions: PromptSuggestion[];
@@ -270,10 +409,27 @@ const AppContent: React.FC = () => {
     const [appMode, setAppMode] = useState<AppMode>('design-kit');
     const [isOnline, setIsOnline] = useState(navigator.onLine);
     const [isFullscreen, setIsFullscreen] = useState(!!getFullscreenElement());
+    const [isTemplateSettingsOpen, setIsTemplateSettingsOpen] = useState(false);
+    const [isBatchOpen, setIsBatchOpen] = useState(false);
+    const [isSweepOpen, setIsSweepOpen] = useState(false);
+    const [isABOpen, setIsABOpen] = useState(false);
+    const [isBrandKitOpen, setIsBrandKitOpen] = useState(false);
+    const [isAdComposerOpen, setIsAdComposerOpen] = useState(false);
+    const [isCampaignPackOpen, setIsCampaignPackOpen] = useState(false);
+    const [isPresetManagerOpen, setIsPresetManagerOpen] = useState(false);
+    const [isRecipePanelOpen, setIsRecipePanelOpen] = useState(false);
+    // A recipe opened from a shared link, offered for saving in the recipe panel.
+    const [incomingRecipe, setIncomingRecipe] = useState<IncomingRecipe | null>(null);
+    // The last layout edited, reapplied when the composer is opened on another result.
+    const [adLayout, setAdLayout] = useState<AdLayout | null>(null);
+    const brandKits = useSyncExternalStore(subscribeToBrandKits, getBrandKitState);
+    const activeBrandKit = brandKits.kits.find(kit => kit.id === brandKits.activeId);
+    const customPresets = useSyncExternalStore(subscribeToCustomPresets, getCustomPresets);
+    const [promptInspector, setPromptInspector] = useState<{ target: 'design-kit' | 'illustrate' | 'smart-retouch' | 'environment'; request: CompiledRequest } | null>(null);
 
     // --- Design Kit State ---
     const [productImage, setProductImage] = useState<ImageFile | null>(null);
-    const [referenceImage, setReferenceImage] = useState<ImageFile | null>(null);
+    const [references, setReferences] = useState<ReferenceImage[]>([]);
     const [generatedImage, setGeneratedImage] = useState<{ base64: string; mimeType: string } | null>(null);
     const [selectedCameras, setSelectedCameras] = useState<CameraPreset[]>([CAMERA_PRESETS[0]]);
     const [selectedLightings, setSelectedLightings] = useState<LightingPreset[]>([LIGHTING_PRESETS[0]]);
@@ -281,12 +437,18 @@ const AppContent: React.FC = () => {
     const [selectedManipulations, setSelectedManipulations] = useState<ManipulationPreset[]>([MANIPULATION_PRESETS[0]]);
     const [selectedPeopleRetouches, setSelectedPeopleRetouches] = useState<PeopleRetouchPreset[]>([PEOPLE_RETOUCH_PRESETS[0]]);
     const [selectedRetouches, setSelectedRetouches] = useState<RetouchPreset[]>([RETOUCH_PRESETS[0]]);
-    const [dkExportSettings, setDkExportSettings] = useState<ExportSettings>({ aspectRatio: '4:5', transparent: false });
+    const [dkExportSettings, setDkExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+    const [variationCount, setVariationCount] = useState(1);
+    // All candidates of the latest run, and the history entry they belong to.
+    const [candidates, setCandidates] = useState<{ base64: string; mimeType: string }[]>([]);
+    const [candidateHistoryId, setCandidateHistoryId] = useState<string | null>(null);
+    // History entries from the last multi-scene Design Kit run, in scene order.
+    const [sceneHistoryIds, setSceneHistoryIds] = useState<string[]>([]);
     const [customPrompt, setCustomPrompt] = useState<string>('');
     const [useMagicComposite, setUseMagicComposite] = useState<boolean>(true);
     const [isLoading, setIsLoading] = useState(false);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const [suggestedPresetIds, setSuggestedPresetIds] = useState<Record<string, string[]>>({});
+    const [suggestedPresets, setSuggestedPresets] = useState<Partial<Record<PresetCategory, PresetSuggestion[]>>>({});
     const [error, setError] = useState<string | null>(null);
     const [isGeneratingDKPrompt, setIsGeneratingDKPrompt] = useState(false);
     const [suggestedDKPrompts, setSuggestedDKPrompts] = useState<PromptSuggestion[] | null>(null);
@@ -299,7 +461,7 @@ const AppContent: React.FC = () => {
     
     // Illustrate Mode State
     const [illustrationImage, setIllustrationImage] = useState<ImageFile | null>(null);
-    const [illustrationReferenceImage, setIllustrationReferenceImage] = useState<ImageFile | null>(null);
+    const [illustrationReferences, setIllustrationReferences] = useState<ReferenceImage[]>([]);
     const [illustrationCustomPrompt, setIllustrationCustomPrompt] = useState<string>('');
     const [illustrationResultImage, setIllustrationResultImage] = useState<{ base64: string; mimeType: string } | null>(null);
     const [isGeneratingIllustration, setIsGeneratingIllustration] = useState(false);
@@ -319,23 +481,7 @@ const AppContent: React.FC = () => {
     const [personImage, setPersonImage] = useState<ImageFile | null>(null);
     const [retouchResultImage, setRetouchResultImage] = useState<{ base64: string; mimeType: string } | null>(null);
     const [retouchSubMode, setRetouchSubMode] = useState<RetouchSubMode>('smart');
-    const [retouchOptions, setRetouchOptions] = useState<RetouchOptions>({
-        smoothness: 50,
-        lightBalance: 50,
-        correctSkinTones: true,
-        sharpen: true,
-        removeBlemishes: true,
-        backgroundBlur: 0,
-        hdrEffect: 0,
-        vintageFade: 0,
-        glossySkin: false,
-        environmentHarmony: true,
-        lightDirection: 'Auto',
-        keyFillRatio: 50,
-        shadowSoftness: 50,
-        wbAndGrade: 'Auto',
-        artistCommand: '',
-    });
+    const [retouchOptions, setRetouchOptions] = useState<RetouchOptions>(DEFAULT_RETOUCH_OPTIONS);
     const [selectedEnvironment, setSelectedEnvironment] = useState<string>(ENVIRONMENT_PRESETS[0]);
     const [generatedRetouchPrompts, setGeneratedRetouchPrompts] = useState<string[] | null>(null);
     const [isGeneratingRetouchPrompts, setIsGeneratingRetouchPrompts] = useState(false);
@@ -346,9 +492,15 @@ const AppContent: React.FC = () => {
     const [generationHistory, setGenerationHistory] = useState<HistoryItem[]>([]);
     const [isUpscaling, setIsUpscaling] = useState<false | UpscaleTarget>(false);
     const [upscaleError, setUpscaleError] = useState<string | null>(null);
+    const [isMaskEditing, setIsMaskEditing] = useState(false);
+    const [inpaintError, setInpaintError] = useState<string | null>(null);
     const [isUpscaleMenuOpen, setIsUpscaleMenuOpen] = useState(false);
     const upscaleMenuRef = useRef<HTMLDivElement>(null);
 
+    // --- Cancellation ---
+    // Only one foreground generation runs at a time; its controller backs the Cancel button.
+    const abortControllerRef = useRef<AbortController | null>(null);
+
     // --- Global State Handlers ---
     useEffect(() => {
         const handleOnline = () => setIsOnline(true);
@@ -391,31 +543,97 @@ const AppContent: React.FC = () => {
         }
     }, []);
 
+    const startCancellableOperation = useCallback(() => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        return controller;
+    }, []);
+
+    const finishCancellableOperation = useCallback((controller: AbortController) => {
+        if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    }, []);
+
+    const handleCancelGeneration = useCallback(() => {
+        abortControllerRef.current?.abort();
+    }, []);
+
     // --- Effects and Handlers for Design Kit ---
+    const restoredForProductRef = useRef<ImageFile | null | undefined>(undefined);
+    const referenceSignature = references.map(reference => `${reference.id}:${reference.role}`).join('|');
     useEffect(() => {
+        const controller = new AbortController();
+        // Presets restored from a recipe or a history entry win over the suggestions for that same product;
+        // restored before any upload, they carry over to the first product.
+        const restored = restoredForProductRef.current;
+        const keepSelection = restored !== undefined && (restored === productImage || restored === null);
+        if (keepSelection && productImage) restoredForProductRef.current = productImage;
         const runAnalysis = async () => {
-            if (appMode === 'design-kit' && productImage && referenceImage && useMagicComposite) {
+            // The reference is optional: without one, the product alone drives the suggestions.
+            if (appMode === 'design-kit' && productImage && useMagicComposite) {
                 setIsAnalyzing(true);
-                setSuggestedPresetIds({}); 
+                setSuggestedPresets({}); 
                 try {
-                    const suggestions = await analyzeForCompositeSuggestions(productImage, referenceImage);
-                    if (suggestions.camera?.length) setSelectedCameras(CAMERA_PRESETS.filter(p => suggestions.camera.includes(p.id)));
-                    if (suggestions.lighting?.length) setSelectedLightings(LIGHTING_PRESETS.filter(p => suggestions.lighting.includes(p.id)));
-                    if (suggestions.manipulation?.length) setSelectedManipulations(MANIPULATION_PRESETS.filter(p => suggestions.manipulation.includes(p.id)));
-                    if (suggestions.retouch?.length) setSelectedRetouches(RETOUCH_PRESETS.filter(p => suggestions.retouch.includes(p.id)));
-                    if (suggestions.peopleRetouch?.length) setSelectedPeopleRetouches(PEOPLE_RETOUCH_PRESETS.filter(p => suggestions.peopleRetouch.includes(p.id)));
-                    setSuggestedPresetIds(suggestions);
+                    const suggestions = await analyzeForCompositeSuggestions(productImage, references, { signal: controller.signal });
+                    if (!keepSelection) {
+                        // Picks stay in the order the analysis ranked them, so the rules drop the weaker side of a clash.
+                        const picked = (category: PresetCategory) =>
+                            suggestions[category].flatMap(s => getPresets(category).filter(p => p.id === s.id));
+                        const allowed = withoutConflicts({
+                            camera: picked('camera'),
+                            lighting: picked('lighting'),
+                            mockup: picked('mockup'),
+                            manipulation: picked('manipulation'),
+                            retouch: picked('retouch'),
+                            peopleRetouch: picked('peopleRetouch'),
+                        }, dkExportSettings);
+                        const suggested = <T extends Preset>(category: PresetCategory) => {
+                            const presets = getPresets(category).filter(p => allowed[category].includes(p)) as T[];
+                            return presets.length ? presets : [PRESET_CATALOG[category][0] as T];
+                        };
+                        if (suggestions.camera.length) setSelectedCameras(suggested('camera'));
+                        if (suggestions.lighting.length) setSelectedLightings(suggested('lighting'));
+                        if (suggestions.mockup.length) setSelectedMockups(suggested('mockup'));
+                        if (suggestions.manipulation.length) setSelectedManipulations(suggested('manipulation'));
+                        if (suggestions.retouch.length) setSelectedRetouches(suggested('retouch'));
+                        if (suggestions.peopleRetouch.length) setSelectedPeopleRetouches(suggested('peopleRetouch'));
+                    }
+                    setSuggestedPresets(suggestions);
                 } catch (e) {
+                     if (isCancellation(e)) return;
                      console.error("Failed to analyze for composite suggestions:", e);
-                     setError("AI analysis failed. Please check the console for details.");
+                     setError(describeAIError(e, t, "AI analysis failed. Please check the console for details."));
                 } finally {
-                    setIsAnalyzing(false);
+                    // Once superseded, the newer run owns the analyzing flag.
+                    if (!controller.signal.aborted) setIsAnalyzing(false);
                 }
             }
         };
         runAnalysis();
-    }, [productImage, referenceImage, useMagicComposite, appMode]);
+        return () => {
+            controller.abort();
+            setIsAnalyzing(false);
+        };
+        // Re-analyze when the mood board's images or roles change, not on every step of a weight slider.
+    }, [productImage, referenceSignature, useMagicComposite, appMode]);
+
 
+    // Edited user presets replace the copies held in the selection; deleted ones are deselected.
+    useEffect(() => {
+        const refresh = <T extends Preset>(category: PresetCategory) => (prev: T[]): T[] => {
+            const next = prev.flatMap(preset => {
+                const current = findPreset(category, preset.id);
+                return current ? [current as T] : [];
+            });
+            return next.length ? next : [PRESET_CATALOG[category][0] as T];
+        };
+        setSelectedCameras(refresh('camera'));
+        setSelectedLightings(refresh('lighting'));
+        setSelectedMockups(refresh('mockup'));
+        setSelectedManipulations(refresh('manipulation'));
+        setSelectedRetouches(refresh('retouch'));
+        setSelectedPeopleRetouches(refresh('peopleRetouch'));
+    }, [customPresets]);
 
     const createToggleHandler = useCallback(<T extends { id: string }>(setter: React.Dispatch<React.SetStateAction<T[]>>, presets: readonly T[]) => (preset: T) => {
         setter(prev => {
@@ -438,48 +656,179 @@ const AppContent: React.FC = () => {
     const handleManipulationToggle = createToggleHandler(setSelectedManipulations, MANIPULATION_PRESETS);
     const handlePeopleRetouchToggle = createToggleHandler(setSelectedPeopleRetouches, PEOPLE_RETOUCH_PRESETS);
     const handleRetouchToggle = createToggleHandler(setSelectedRetouches, RETOUCH_PRESETS);
-    const handleMockupSelect = useCallback((preset: MockupPreset) => {
-        setSelectedMockups(current => current[0]?.id === preset.id ? [MOCKUP_PRESETS[0]] : [preset]);
-    }, []);
+    const handleMockupSelect = createToggleHandler(setSelectedMockups, MOCKUP_PRESETS);
+
+    const handleApplySweepSelection = (selection: SweepSelection) => {
+        if (selection.camera) setSelectedCameras([selection.camera]);
+        if (selection.lighting) setSelectedLightings([selection.lighting]);
+        if (selection.mockup) setSelectedMockups([selection.mockup]);
+        if (selection.manipulation) setSelectedManipulations([selection.manipulation]);
+        if (selection.retouch) setSelectedRetouches([selection.retouch]);
+        if (selection.peopleRetouch) setSelectedPeopleRetouches([selection.peopleRetouch]);
+    };
     
     const handleMagicCompositeToggle = (enabled: boolean) => {
         setUseMagicComposite(enabled);
         if (!enabled) {
             setSelectedCameras([CAMERA_PRESETS[0]]);
             setSelectedLightings([LIGHTING_PRESETS[0]]);
+            setSelectedMockups([MOCKUP_PRESETS[0]]);
             setSelectedManipulations([MANIPULATION_PRESETS[0]]);
             setSelectedRetouches([RETOUCH_PRESETS[0]]);
             setSelectedPeopleRetouches([PEOPLE_RETOUCH_PRESETS[0]]);
-            setSuggestedPresetIds({});
+            setSuggestedPresets({});
+        }
+    };
+
+    const designKitParams = useMemo<GenerationParams>(() => ({
+        cameraPresets: selectedCameras,
+        lightingPresets: selectedLightings,
+        mockupPreset: selectedMockups[0],
+        manipulationPresets: selectedManipulations,
+        peopleRetouchPresets: selectedPeopleRetouches,
+        retouchPresets: selectedRetouches,
+        exportSettings: dkExportSettings,
+        customPrompt,
+    }), [selectedCameras, selectedLightings, selectedMockups, selectedManipulations, selectedPeopleRetouches, selectedRetouches, dkExportSettings, customPrompt]);
+
+    const currentDesignKit = useMemo<DesignKitSettings>(() => ({
+        presetIds: {
+            camera: selectedCameras.map(p => p.id),
+            lighting: selectedLightings.map(p => p.id),
+            mockup: selectedMockups.map(p => p.id),
+            manipulation: selectedManipulations.map(p => p.id),
+            retouch: selectedRetouches.map(p => p.id),
+            peopleRetouch: selectedPeopleRetouches.map(p => p.id),
+        },
+        exportSettings: dkExportSettings,
+        customPrompt,
+        useMagicComposite,
+        variationCount,
+    }), [selectedCameras, selectedLightings, selectedMockups, selectedManipulations, selectedRetouches, selectedPeopleRetouches, dkExportSettings, customPrompt, useMagicComposite, variationCount]);
+
+    const designKitSettings = useMemo<RecipeSettings>(() => ({ mode: 'design-kit', designKit: currentDesignKit }), [currentDesignKit]);
+
+    const presetConflicts = useMemo(() => detectPresetConflicts({
+        camera: selectedCameras,
+        lighting: selectedLightings,
+        mockup: selectedMockups,
+        manipulation: selectedManipulations,
+        retouch: selectedRetouches,
+        peopleRetouch: selectedPeopleRetouches,
+    }, dkExportSettings), [selectedCameras, selectedLightings, selectedMockups, selectedManipulations, selectedRetouches, selectedPeopleRetouches, dkExportSettings]);
+
+    const handleResolveConflict = (fix: PresetConflictFix) => {
+        if (fix.type === 'opaqueExport') {
+            setDkExportSettings(prev => ({ ...prev, transparent: false }));
+            return;
         }
+        const setters: Record<PresetCategory, React.Dispatch<React.SetStateAction<Preset[]>>> = {
+            camera: setSelectedCameras,
+            lighting: setSelectedLightings,
+            mockup: setSelectedMockups,
+            manipulation: setSelectedManipulations,
+            retouch: setSelectedRetouches,
+            peopleRetouch: setSelectedPeopleRetouches,
+        };
+        const removed = new Set(fix.presets.map(p => p.id));
+        setters[fix.category](prev => {
+            const kept = prev.filter(p => !removed.has(p.id));
+            return kept.length ? kept : [PRESET_CATALOG[fix.category][0]];
+        });
     };
 
-    const handleDesignKitGeneration = useCallback(async () => {
+    const handleDesignKitGeneration = useCallback(async (promptOverride?: string) => {
         if (!isOnline || !productImage) {
             setError(isOnline ? "Please upload a product image first." : "You are offline. Please check your internet connection.");
             return;
         }
+        const previousImage = generatedImage;
+        const previousCandidates = candidates;
+        const controller = startCancellableOperation();
         setIsLoading(true);
         setError(null);
         setUpscaleError(null);
+        setIsMaskEditing(false);
         setGeneratedImage(null);
-        const params: GenerationParams = { cameraPresets: selectedCameras, lightingPresets: selectedLightings, mockupPreset: selectedMockups[0], manipulationPresets: selectedManipulations, peopleRetouchPresets: selectedPeopleRetouches, retouchPresets: selectedRetouches, exportSettings: dkExportSettings, customPrompt };
+        setCandidates([]);
+        setSceneHistoryIds([]);
+        setGenerationStatusText('');
+        // An edited prompt was written for the first scene's text, so it only generates that scene.
+        const scenes = promptOverride !== undefined ? selectedMockups.slice(0, 1) : selectedMockups;
+        const sceneItems: HistoryItem[] = [];
+        let firstFailure: unknown = null;
         try {
-            const result = await generateImage(productImage, referenceImage, useMagicComposite, params);
-            if (result) {
-                setGeneratedImage(result);
-                const newHistoryItem: HistoryItem = { id: new Date().toISOString(), source: productImage, generated: result, prompt: customPrompt, mode: 'design-kit' };
+            // Scenes run one after another so a large selection does not fire every request at once.
+            for (const [index, mockup] of scenes.entries()) {
+                if (scenes.length > 1) {
+                    setGenerationStatusText(t('sceneProgress').replace('{current}', String(index + 1)).replace('{total}', String(scenes.length)).replace('{name}', t(mockup.name, mockup.name)));
+                }
+                const params = { ...designKitParams, mockupPreset: mockup };
+                const sentPrompt = promptOverride ?? compileDesignKitRequest(productImage, references, useMagicComposite, params).text;
+                const brandKit = getActiveBrandKitRef();
+                const usage = createUsageCollector();
+                // Every candidate is brought to the exact export frame before it is shown.
+                const outcomes = await Promise.allSettled(Array.from({ length: variationCount }, async (_, variation) => {
+                    const image = await generateImage(productImage, references, useMagicComposite, params, { signal: controller.signal, variation, promptOverride, onUsage: usage.onUsage });
+                    return image && enforceAspectRatio(image, params.exportSettings, { signal: controller.signal, onUsage: usage.onUsage });
+                }));
+                if (controller.signal.aborted) throw new CancelledError();
+                const results = outcomes.flatMap(outcome => outcome.status === 'fulfilled' && outcome.value ? [outcome.value] : []);
+                // Partial success still yields a usable grid; a scene only fails when every candidate failed.
+                const failure = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+                if (results.length === 0) {
+                    if (failure) console.error(`Design Kit scene "${mockup.name}" failed:`, failure.reason);
+                    firstFailure ??= failure?.reason ?? null;
+                    continue;
+                }
+                const [primary, ...alternates] = results;
+                const newHistoryItem: HistoryItem = { id: `${new Date().toISOString()}-${index}`, source: productImage, generated: primary, alternates, prompt: customPrompt, sentPrompt, usage: usage.totals, mode: 'design-kit', mockupId: mockup.id, brandKit, settings: designKitSettings };
+                sceneItems.push(newHistoryItem);
                 setGenerationHistory(prev => [newHistoryItem, ...prev].slice(0, 12));
-            } else {
+                if (sceneItems.length === 1) {
+                    setGeneratedImage(primary);
+                    setCandidates(results);
+                    setCandidateHistoryId(newHistoryItem.id);
+                }
+            }
+            if (sceneItems.length === 0) {
+                if (firstFailure) throw firstFailure;
                 setError("The AI could not generate an image. Please try again.");
             }
         } catch (e) {
-            console.error(e);
-            setError(e instanceof Error ? e.message : "An unknown error occurred.");
+            if (isCancellation(e)) {
+                // Scenes that already finished stay in history; the preview only falls back when none did.
+                if (sceneItems.length === 0) {
+                    setGeneratedImage(previousImage);
+                    setCandidates(previousCandidates);
+                }
+            } else {
+                console.error(e);
+                setError(describeAIError(e, t, "An unknown error occurred."));
+            }
         } finally {
+            setSceneHistoryIds(sceneItems.length > 1 ? sceneItems.map(item => item.id) : []);
+            setGenerationStatusText('');
+            finishCancellableOperation(controller);
             setIsLoading(false);
         }
-    }, [productImage, referenceImage, useMagicComposite, selectedCameras, selectedLightings, selectedMockups, selectedManipulations, selectedPeopleRetouches, selectedRetouches, dkExportSettings, customPrompt, isOnline]);
+    }, [productImage, references, useMagicComposite, designKitParams, selectedMockups, customPrompt, isOnline, generatedImage, candidates, variationCount, startCancellableOperation, finishCancellableOperation, t]);
+
+    const handleSelectScene = useCallback((item: HistoryItem) => {
+        setGeneratedImage(item.generated);
+        setCandidates([item.generated, ...(item.alternates ?? [])]);
+        setCandidateHistoryId(item.id);
+        setUpscaleError(null);
+    }, []);
+
+    const handlePromoteCandidate = useCallback((candidate: { base64: string; mimeType: string }) => {
+        setGeneratedImage(candidate);
+        setUpscaleError(null);
+        setGenerationHistory(prev => prev.map(item => item.id === candidateHistoryId
+            ? { ...item, generated: candidate, alternates: candidates.filter(c => c !== candidate) }
+            : item
+        ));
+    }, [candidates, candidateHistoryId]);
     
      const handleGenerateDKPrompt = useCallback(async () => {
         if (!productImage) {
@@ -489,7 +838,7 @@ const AppContent: React.FC = () => {
         setIsGeneratingDKPrompt(true);
         setError(null);
         try {
-            const suggestions = await generateDesignKitPrompt(productImage, referenceImage);
+            const suggestions = await generateDesignKitPrompt(productImage, references);
             if (suggestions && suggestions.length > 0) {
                 setSuggestedDKPrompts(suggestions);
                 setIsDKPromptModalOpen(true);
@@ -498,11 +847,11 @@ const AppContent: React.FC = () => {
             }
         } catch (e) {
             console.error(e);
-            setError(e instanceof Error ? e.message : "An unknown error occurred during prompt generation.");
+            setError(describeAIError(e, t, "An unknown error occurred during prompt generation."));
         } finally {
             setIsGeneratingDKPrompt(false);
         }
-    }, [productImage, referenceImage]);
+    }, [productImage, references, t]);
     
     // --- Creative Studio Handlers ---
 
@@ -516,7 +865,7 @@ const AppContent: React.FC = () => {
         setCreativeError(null);
         setSuggestedCreativePrompts(null);
         try {
-            let suggestions = await generateIllustrationPrompts(baseImage, illustrationReferenceImage);
+            let suggestions = await generateIllustrationPrompts(baseImage, illustrationReferences);
             if (suggestions && suggestions.length > 0) {
                 setSuggestedCreativePrompts(suggestions);
                 setIsCreativePromptModalOpen(true);
@@ -525,50 +874,72 @@ const AppContent: React.FC = () => {
             }
         } catch (e) {
             console.error(e);
-            setCreativeError(e instanceof Error ? e.message : "An unknown error occurred during prompt generation.");
+            setCreativeError(describeAIError(e, t, "An unknown error occurred during prompt generation."));
         } finally {
             setIsGeneratingPrompt(false);
         }
-    }, [illustrationImage, illustrationReferenceImage, creativeMode]);
+    }, [illustrationImage, illustrationReferences, creativeMode, t]);
+
+    const activeIllustrationStyle = useIllustrationStylePreset ? selectedIllustrationStyle : ILLUSTRATION_STYLE_PRESETS.find(p => p.id === 'none')!;
+
+    const illustrationSettings = useMemo<RecipeSettings>(() => ({
+        mode: 'illustrate',
+        illustration: { styleId: selectedIllustrationStyle.id, useStylePreset: useIllustrationStylePreset, detailFidelity: illustrationDetailFidelity, customPrompt: illustrationCustomPrompt },
+    }), [selectedIllustrationStyle, useIllustrationStylePreset, illustrationDetailFidelity, illustrationCustomPrompt]);
+
+    const retouchSettings = useMemo<RecipeSettings>(() => ({
+        mode: 'retouch',
+        retouch: { subMode: retouchSubMode, options: retouchOptions, environment: selectedEnvironment },
+    }), [retouchSubMode, retouchOptions, selectedEnvironment]);
 
-    const handleGenerateIllustration = useCallback(async () => {
+    const handleGenerateIllustration = useCallback(async (promptOverride?: string) => {
         if (!isOnline || !illustrationImage) {
             setCreativeError(!isOnline ? "You are offline." : "Please upload an image to illustrate.");
             return;
         }
+        const previousImage = illustrationResultImage;
+        const controller = startCancellableOperation();
         setIsGeneratingIllustration(true);
         setCreativeError(null);
         setIllustrationResultImage(null);
         setGenerationStatusText("Sketching your vision...");
 
         try {
-            const styleToUse = useIllustrationStylePreset ? selectedIllustrationStyle : ILLUSTRATION_STYLE_PRESETS.find(p => p.id === 'none')!;
-            const result = await generateIllustration(illustrationImage, styleToUse, illustrationDetailFidelity, illustrationCustomPrompt, illustrationReferenceImage);
+            const sentPrompt = promptOverride ?? compileIllustrationRequest(illustrationImage, activeIllustrationStyle, illustrationDetailFidelity, illustrationCustomPrompt, illustrationReferences).text;
+            const brandKit = getActiveBrandKitRef();
+            const usage = createUsageCollector();
+            const result = await generateIllustration(illustrationImage, activeIllustrationStyle, illustrationDetailFidelity, illustrationCustomPrompt, illustrationReferences, { signal: controller.signal, promptOverride, onUsage: usage.onUsage });
             if(result) {
                 setIllustrationResultImage(result);
-                const newHistoryItem: HistoryItem = { id: new Date().toISOString(), source: illustrationImage, generated: result, prompt: illustrationCustomPrompt, mode: 'creative-studio', creativeSubMode: 'illustrate' };
+                const newHistoryItem: HistoryItem = { id: new Date().toISOString(), source: illustrationImage, generated: result, prompt: illustrationCustomPrompt, sentPrompt, usage: usage.totals, mode: 'creative-studio', creativeSubMode: 'illustrate', brandKit, settings: illustrationSettings };
                 setGenerationHistory(prev => [newHistoryItem, ...prev].slice(0, 12));
             } else {
                 setCreativeError("The AI could not generate an illustration. Please try a different style or image.");
             }
         } catch (e) {
-            console.error(e);
-            setCreativeError(e instanceof Error ? e.message : "An unknown error occurred during illustration.");
+            if (isCancellation(e)) {
+                setIllustrationResultImage(previousImage);
+            } else {
+                console.error(e);
+                setCreativeError(describeAIError(e, t, "An unknown error occurred during illustration."));
+            }
         } finally {
+            finishCancellableOperation(controller);
             setIsGeneratingIllustration(false);
             setGenerationStatusText("");
         }
-    }, [isOnline, illustrationImage, selectedIllustrationStyle, illustrationDetailFidelity, illustrationCustomPrompt, illustrationReferenceImage, useIllustrationStylePreset]);
+    }, [isOnline, illustrationImage, activeIllustrationStyle, illustrationDetailFidelity, illustrationCustomPrompt, illustrationReferences, illustrationResultImage, startCancellableOperation, finishCancellableOperation, t]);
     
     const handleDownloadVector = async () => {
         if (!illustrationResultImage) return;
         setIsIllustrationDownloadMenuOpen(false);
+        const controller = startCancellableOperation();
         setIsVectorizing(true);
         setCreativeError(null);
         setGenerationStatusText('Vectorizing image...');
   
         try {
-            const svgCode = await vectorizeImage(illustrationResultImage);
+            const svgCode = await vectorizeImage(illustrationResultImage, { signal: controller.signal });
             if (svgCode) {
                 const blob = new Blob([svgCode], { type: 'image/svg+xml' });
                 const url = URL.createObjectURL(blob);
@@ -583,67 +954,89 @@ const AppContent: React.FC = () => {
                 setCreativeError("The AI could not convert the image to SVG.");
             }
         } catch (e) {
-            console.error(e);
-            setCreativeError(e instanceof Error ? e.message : "An unknown error occurred during vectorization.");
+            if (!isCancellation(e)) {
+                console.error(e);
+                setCreativeError(describeAIError(e, t, "An unknown error occurred during vectorization."));
+            }
         } finally {
+            finishCancellableOperation(controller);
             setIsVectorizing(false);
             setGenerationStatusText('');
         }
     };
 
-    const handleSmartRetouch = useCallback(async () => {
+    const handleSmartRetouch = useCallback(async (promptOverride?: string) => {
         if (!isOnline || !personImage) {
             setCreativeError(!isOnline ? "You are offline." : "Please upload a portrait to retouch.");
             return;
         }
+        const previousImage = retouchResultImage;
+        const controller = startCancellableOperation();
         setIsGeneratingCreative(true);
         setGenerationStatusText('Performing high-end face retouch...');
         setCreativeError(null);
         setRetouchResultImage(null);
         try {
-            const result = await performSmartRetouch(personImage, retouchOptions);
+            const sentPrompt = promptOverride ?? compileSmartRetouchRequest(personImage, retouchOptions).text;
+            const usage = createUsageCollector();
+            const result = await performSmartRetouch(personImage, retouchOptions, { signal: controller.signal, promptOverride, onUsage: usage.onUsage });
             if (result) {
                 setRetouchResultImage(result);
-                const newHistoryItem: HistoryItem = { id: new Date().toISOString(), source: personImage, generated: result, prompt: "Smart Studio Retouch", mode: 'creative-studio', creativeSubMode: 'retouch' };
+                const newHistoryItem: HistoryItem = { id: new Date().toISOString(), source: personImage, generated: result, prompt: "Smart Studio Retouch", sentPrompt, usage: usage.totals, mode: 'creative-studio', creativeSubMode: 'retouch', settings: retouchSettings };
                 setGenerationHistory(prev => [newHistoryItem, ...prev].slice(0, 12));
             } else {
                 setCreativeError("The AI could not retouch the image.");
             }
         } catch (e) {
-            console.error(e);
-            setCreativeError(e instanceof Error ? e.message : "An unknown error occurred during retouching.");
+            if (isCancellation(e)) {
+                setRetouchResultImage(previousImage);
+            } else {
+                console.error(e);
+                setCreativeError(describeAIError(e, t, "An unknown error occurred during retouching."));
+            }
         } finally {
+            finishCancellableOperation(controller);
             setIsGeneratingCreative(false);
             setGenerationStatusText('');
         }
-    }, [personImage, isOnline, retouchOptions]);
+    }, [personImage, isOnline, retouchOptions, retouchResultImage, startCancellableOperation, finishCancellableOperation, t]);
 
-    const handleEnvironmentGeneration = useCallback(async () => {
+    const handleEnvironmentGeneration = useCallback(async (promptOverride?: string) => {
         if (!isOnline || !personImage) {
             setCreativeError(!isOnline ? "You are offline." : "Please upload a portrait.");
             return;
         }
+        const previousImage = retouchResultImage;
+        const controller = startCancellableOperation();
         setIsGeneratingCreative(true);
         setGenerationStatusText('Harmonizing light, color, and shadows...');
         setCreativeError(null);
         setRetouchResultImage(null);
         try {
-            const result = await generateEnvironment(personImage, selectedEnvironment, retouchOptions);
+            const sentPrompt = promptOverride ?? compileEnvironmentRequest(personImage, selectedEnvironment, retouchOptions).text;
+            const brandKit = getActiveBrandKitRef();
+            const usage = createUsageCollector();
+            const result = await generateEnvironment(personImage, selectedEnvironment, retouchOptions, { signal: controller.signal, promptOverride, onUsage: usage.onUsage });
             if (result) {
                 setRetouchResultImage(result);
-                const newHistoryItem: HistoryItem = { id: new Date().toISOString(), source: personImage, generated: result, prompt: `Environment: ${selectedEnvironment}`, mode: 'creative-studio', creativeSubMode: 'retouch' };
+                const newHistoryItem: HistoryItem = { id: new Date().toISOString(), source: personImage, generated: result, prompt: `Environment: ${selectedEnvironment}`, sentPrompt, usage: usage.totals, mode: 'creative-studio', creativeSubMode: 'retouch', brandKit, settings: retouchSettings };
                 setGenerationHistory(prev => [newHistoryItem, ...prev].slice(0, 12));
             } else {
                 setCreativeError("The AI could not generate the environment.");
             }
         } catch (e) {
-            console.error(e);
-            setCreativeError(e instanceof Error ? e.message : "An unknown error occurred during environment generation.");
+            if (isCancellation(e)) {
+                setRetouchResultImage(previousImage);
+            } else {
+                console.error(e);
+                setCreativeError(describeAIError(e, t, "An unknown error occurred during environment generation."));
+            }
         } finally {
+            finishCancellableOperation(controller);
             setIsGeneratingCreative(false);
             setGenerationStatusText('');
         }
-    }, [personImage, selectedEnvironment, isOnline, retouchOptions]);
+    }, [personImage, selectedEnvironment, isOnline, retouchOptions, retouchResultImage, startCancellableOperation, finishCancellableOperation, t]);
 
     const handleGenerateRetouchPrompts = useCallback(async () => {
         setIsGeneratingRetouchPrompts(true);
@@ -653,15 +1046,101 @@ const AppContent: React.FC = () => {
             setGeneratedRetouchPrompts(prompts);
         } catch (e) {
             console.error(e);
-            setCreativeError(e instanceof Error ? e.message : "An unknown error occurred during prompt generation.");
+            setCreativeError(describeAIError(e, t, "An unknown error occurred during prompt generation."));
         } finally {
             setIsGeneratingRetouchPrompts(false);
         }
-    }, [selectedEnvironment, promptStyleVariety, syncPromptWithEnv]);
+    }, [selectedEnvironment, promptStyleVariety, syncPromptWithEnv, t]);
+
+
+    // --- Prompt Inspector ---
+    const handleViewPrompt = (target: 'design-kit' | 'illustrate' | 'smart-retouch' | 'environment') => {
+        let request: CompiledRequest | null = null;
+        if (target === 'design-kit' && productImage) {
+            request = compileDesignKitRequest(productImage, references, useMagicComposite, designKitParams);
+        } else if (target === 'illustrate' && illustrationImage) {
+            request = compileIllustrationRequest(illustrationImage, activeIllustrationStyle, illustrationDetailFidelity, illustrationCustomPrompt, illustrationReferences);
+        } else if (target === 'smart-retouch' && personImage) {
+            request = compileSmartRetouchRequest(personImage, retouchOptions);
+        } else if (target === 'environment' && personImage) {
+            request = compileEnvironmentRequest(personImage, selectedEnvironment, retouchOptions);
+        }
+        if (request) setPromptInspector({ target, request });
+    };
+
+    const handleSendInspectedPrompt = (text: string) => {
+        if (!promptInspector) return;
+        // Only an actual edit is sent as an override, so an untouched prompt keeps following the template.
+        const promptOverride = text === promptInspector.request.text ? undefined : text;
+        setPromptInspector(null);
+        if (promptInspector.target === 'design-kit') handleDesignKitGeneration(promptOverride);
+        else if (promptInspector.target === 'illustrate') handleGenerateIllustration(promptOverride);
+        else if (promptInspector.target === 'smart-retouch') handleSmartRetouch(promptOverride);
+        else handleEnvironmentGeneration(promptOverride);
+    };
+
+    /** Restores the controls of the recipe's mode and switches to it. Returns the preset ids that no longer exist. */
+    const applyRecipeSettings = (settings: RecipeSettings): string[] => {
+        const missing: string[] = [];
+        if (settings.mode === 'design-kit') {
+            const { presetIds, exportSettings, customPrompt: prompt, useMagicComposite: magic, variationCount: count } = settings.designKit;
+            const resolve = <T extends Preset>(category: PresetCategory): T[] => {
+                const resolved = resolvePresetIds(category, presetIds[category]);
+                missing.push(...resolved.missing);
+                return resolved.presets as T[];
+            };
+            restoredForProductRef.current = productImage;
+            setAppMode('design-kit');
+            setSelectedCameras(resolve('camera'));
+            setSelectedLightings(resolve('lighting'));
+            setSelectedMockups(resolve('mockup'));
+            setSelectedManipulations(resolve('manipulation'));
+            setSelectedRetouches(resolve('retouch'));
+            setSelectedPeopleRetouches(resolve('peopleRetouch'));
+            setDkExportSettings(exportSettings);
+            setCustomPrompt(prompt);
+            setUseMagicComposite(magic);
+            setVariationCount(count);
+        } else if (settings.mode === 'illustrate') {
+            const { styleId, useStylePreset, detailFidelity, customPrompt: prompt } = settings.illustration;
+            const style = ILLUSTRATION_STYLE_PRESETS.find(p => p.id === styleId);
+            if (!style) missing.push(styleId);
+            setAppMode('creative-studio');
+            setCreativeMode('illustrate');
+            setSelectedIllustrationStyle(style ?? ILLUSTRATION_STYLE_PRESETS[0]);
+            setUseIllustrationStylePreset(useStylePreset);
+            setIllustrationDetailFidelity(detailFidelity);
+            setIllustrationCustomPrompt(prompt);
+        } else {
+            setAppMode('creative-studio');
+            setCreativeMode('retouch');
+            setRetouchSubMode(settings.retouch.subMode);
+            setRetouchOptions(settings.retouch.options);
+            setSelectedEnvironment(settings.retouch.environment);
+        }
+        return missing;
+    };
 
+    // A shared link restores its recipe once on load; the fragment is then removed so a reload does not apply it again.
+    useEffect(() => {
+        const hash = window.location.hash;
+        decodeRecipeFragment(hash).then(recipe => {
+            if (!recipe) return;
+            window.history.replaceState(null, '', window.location.pathname + window.location.search);
+            setIncomingRecipe({ recipe, missing: applyRecipeSettings(recipe.settings) });
+            setIsRecipePanelOpen(true);
+        }).catch(error => {
+            console.error('Could not read the recipe link:', error);
+            setError(t('recipeLinkInvalid'));
+        });
+    }, []);
 
     const handleHistorySelect = (item: HistoryItem) => {
         setAppMode(item.mode);
+        if (item.settings) {
+            applyRecipeSettings(item.settings);
+            if (item.mode === 'design-kit') restoredForProductRef.current = item.source;
+        }
         setError(null);
         setCreativeError(null);
         setUpscaleError(null);
@@ -670,11 +1149,17 @@ const AppContent: React.FC = () => {
         setGeneratedImage(null);
         setRetouchResultImage(null);
         setIllustrationResultImage(null);
+        setCandidates([]);
+        setSceneHistoryIds([]);
         
         if (item.mode === 'design-kit') {
             setProductImage(item.source);
             setGeneratedImage(item.generated);
             setCustomPrompt(item.prompt);
+            if (item.alternates?.length) {
+                setCandidates([item.generated, ...item.alternates]);
+                setCandidateHistoryId(item.id);
+            }
         } else if (item.mode === 'creative-studio') {
             setCreativeMode(item.creativeSubMode || 'illustrate');
             if (item.creativeSubMode === 'illustrate') {
@@ -688,6 +1173,20 @@ const AppContent: React.FC = () => {
         }
     };
 
+    // Every refinement version is recorded as a child of the result the chat started from.
+    const currentHistoryItem = generatedImage ? generationHistory.find(item => item.generated === generatedImage) : undefined;
+    const refinementRootId = currentHistoryItem?.parentId ?? currentHistoryItem?.id ?? null;
+
+    // A regenerated campaign format has to describe the hero's own scene, which may differ from the current controls.
+    const heroSettingsItem = currentHistoryItem?.settings ? currentHistoryItem : generationHistory.find(item => item.id === currentHistoryItem?.parentId);
+    const heroSettings = heroSettingsItem?.settings?.mode === 'design-kit' ? heroSettingsItem.settings.designKit : undefined;
+    const heroParams = heroSettings ? toGenerationParams(heroSettings, heroSettingsItem?.mockupId) : designKitParams;
+    const heroProduct = heroSettings ? heroSettingsItem?.source : productImage;
+
+    // An upscale or mask edit is the same scene, so its entry keeps the product and settings the hero was generated from.
+    const heroLineage = (): Pick<HistoryItem, 'source' | 'settings' | 'mockupId'> | undefined =>
+        heroSettingsItem?.settings ? { source: heroSettingsItem.source, settings: heroSettingsItem.settings, mockupId: heroSettingsItem.mockupId } : undefined;
+
     const handleUpscale = async (target: UpscaleTarget) => {
         setIsUpscaleMenuOpen(false);
         const imageToUpscale = appMode === 'design-kit' ? generatedImage : (creativeMode === 'retouch' ? retouchResultImage : illustrationResultImage);
@@ -695,6 +1194,7 @@ const AppContent: React.FC = () => {
         
         if (!imageToUpscale || !sourceImage) return;
 
+        const controller = startCancellableOperation();
         setIsUpscaling(target);
         setUpscaleError(null);
         setError(null);
@@ -702,31 +1202,90 @@ const AppContent: React.FC = () => {
         setGenerationStatusText('Upscaling with detail preservation...');
 
         try {
-            const upscaledResult = await upscaleImage(imageToUpscale, target);
+            const usage = createUsageCollector();
+            const upscaledResult = await upscaleImage(imageToUpscale, target, { signal: controller.signal, onUsage: usage.onUsage });
             if (upscaledResult) {
                 const promptForHistory = appMode === 'design-kit' ? customPrompt : `Upscaled to ${target.toUpperCase()}`;
                 if (appMode === 'design-kit') {
                     setGeneratedImage(upscaledResult);
+                    // The upscale gets its own history entry, so it no longer belongs to the candidate grid.
+                    setCandidates([]);
                 } else if (creativeMode === 'retouch') {
                     setRetouchResultImage(upscaledResult);
                 } else {
                     setIllustrationResultImage(upscaledResult);
                 }
-                const newHistoryItem: HistoryItem = { id: new Date().toISOString() + `-upscaled-${target}`, source: sourceImage, generated: upscaledResult, prompt: promptForHistory, mode: appMode, creativeSubMode: appMode === 'creative-studio' ? creativeMode : undefined };
+                const newHistoryItem: HistoryItem = { id: new Date().toISOString() + `-upscaled-${target}`, source: sourceImage, generated: upscaledResult, prompt: promptForHistory, usage: usage.totals, mode: appMode, creativeSubMode: appMode === 'creative-studio' ? creativeMode : undefined, ...(appMode === 'design-kit' ? heroLineage() : undefined) };
                 setGenerationHistory(prev => [newHistoryItem, ...prev].slice(0, 12));
             } else {
                 setUpscaleError("The AI could not upscale the image.");
             }
         } catch (e) {
-            console.error(e);
-            setUpscaleError(e instanceof Error ? e.message : "An unknown error occurred during upscaling.");
+            if (!isCancellation(e)) {
+                console.error(e);
+                setUpscaleError(describeAIError(e, t, "An unknown error occurred during upscaling."));
+            }
         } finally {
+            finishCancellableOperation(controller);
             setIsUpscaling(false);
             setGenerationStatusText('');
         }
     };
 
 
+    const handleInpaint = async (mask: { base64: string; mimeType: string }, instruction: string) => {
+        if (!generatedImage || !productImage) return;
+        const controller = startCancellableOperation();
+        setIsLoading(true);
+        setInpaintError(null);
+        setGenerationStatusText(t('maskApplying'));
+        try {
+            const usage = createUsageCollector();
+            const result = await inpaintImage(generatedImage, mask, instruction, { signal: controller.signal, onUsage: usage.onUsage });
+            if (!result) {
+                setInpaintError(t('errorNoImage'));
+                return;
+            }
+            setGeneratedImage(result);
+            // Like an upscale, the edit is its own history entry rather than another candidate.
+            setCandidates([]);
+            setIsMaskEditing(false);
+            const newHistoryItem: HistoryItem = { id: new Date().toISOString() + '-inpaint', source: productImage, generated: result, prompt: instruction, usage: usage.totals, mode: 'design-kit', ...heroLineage() };
+            setGenerationHistory(prev => [newHistoryItem, ...prev].slice(0, 12));
+        } catch (e) {
+            if (!isCancellation(e)) {
+                console.error(e);
+                setInpaintError(describeAIError(e, t, t('errorNoImage')));
+            }
+        } finally {
+            finishCancellableOperation(controller);
+            setIsLoading(false);
+            setGenerationStatusText('');
+        }
+    };
+
+    const handleUseABResult = (settings: DesignKitSettings, image: { base64: string; mimeType: string }, source: ImageFile) => {
+        const recipe: RecipeSettings = { mode: 'design-kit', designKit: settings };
+        applyRecipeSettings(recipe);
+        // Like restoring a history entry: the result is shown with the product it was compared on, keeping the loaded presets.
+        restoredForProductRef.current = source;
+        setProductImage(source);
+        setGeneratedImage(image);
+        setCandidates([]);
+        setUpscaleError(null);
+        const newHistoryItem: HistoryItem = { id: new Date().toISOString() + '-ab', source, generated: image, prompt: settings.customPrompt, mode: 'design-kit', settings: recipe };
+        setGenerationHistory(prev => [newHistoryItem, ...prev].slice(0, 12));
+    };
+
+    const handleRefinementVersion = (image: { base64: string; mimeType: string }, instruction: string, session: { rootId: string | null; turn: number; usage: UsageTotals }) => {
+        if (!productImage) return;
+        setGeneratedImage(image);
+        setCandidates([]);
+        setUpscaleError(null);
+        const newHistoryItem: HistoryItem = { id: new Date().toISOString() + `-refine-${session.turn}`, source: productImage, generated: image, prompt: instruction, usage: session.usage, mode: 'design-kit', parentId: session.rootId ?? undefined, refinementTurn: session.turn };
+        setGenerationHistory(prev => [newHistoryItem, ...prev].slice(0, 12));
+    };
+
     const ModeSwitcher = () => (
         <div className="flex items-center bg-black/20 rounded-lg p-1 border border-[var(--border-color)]">
             <button
@@ -757,9 +1316,28 @@ const AppContent: React.FC = () => {
                 <div className="flex items-center gap-3">
                     <DDStudioIcon className="w-8 h-8" />
                     <h1 className="text-xl font-bold text-white">{t('headerTitle')}</h1>
+                    {getProvider().id === 'mock' && (
+                        <span className="text-xs font-bold text-yellow-200 bg-yellow-500/10 px-2 py-0.5 rounded-full border border-yellow-500/30" title={t('mockProviderTooltip')}>{t('mockProviderBadge')}</span>
+                    )}
                 </div>
                 <div className="hidden lg:block"><ModeSwitcher /></div>
                 <div className="flex items-center gap-4">
+                     <UsageMeter />
+                     <button
+                        onClick={() => setIsBrandKitOpen(true)}
+                        className={`flex items-center gap-1.5 text-xs font-semibold px-2.5 py-1 rounded-md border transition-colors ${activeBrandKit ? 'text-cyan-100 bg-cyan-500/10 border-cyan-500/40' : 'text-gray-300 bg-black/20 border-white/20 hover:text-white'}`}
+                        title={t('brandKitTitle')}
+                     >
+                        {activeBrandKit?.colors.slice(0, 4).map(color => <span key={color} className="w-3 h-3 rounded-full border border-white/30" style={{ backgroundColor: color }} />)}
+                        <span className="max-w-[8rem] truncate">{activeBrandKit ? activeBrandKit.name : t('brandKitChipNone')}</span>
+                     </button>
+                     <button
+                        onClick={() => setIsRecipePanelOpen(true)}
+                        className="flex items-center gap-1.5 text-xs font-semibold px-2.5 py-1 rounded-md border text-gray-300 bg-black/20 border-white/20 hover:text-white transition-colors"
+                        title={t('recipesTitle')}
+                     >
+                        <ClipboardCopyIcon className="w-4 h-4" /> {t('recipesOpen')}
+                     </button>
                      <button onClick={() => setLang(lang === 'en' ? 'ar' : 'en')} className="text-sm font-semibold text-cyan-300 hover:text-white transition-colors bg-black/20 px-3 py-1 rounded-md border border-cyan-500/50">
                         {lang === 'en' ? 'العربية' : 'English'}
                     </button>
@@ -777,6 +1355,9 @@ const AppContent: React.FC = () => {
                     </div>
                     <div className="h-10 w-px bg-white/20 hidden sm:block"></div>
                     <div className="flex items-center gap-4 text-gray-200">
+                        <button onClick={() => setIsTemplateSettingsOpen(true)} className="hover:text-white transition-colors" aria-label={t('promptTemplatesTitle')} title={t('promptTemplatesTitle')}>
+                            <CogIcon className="w-6 h-6" />
+                        </button>
                         <button onClick={toggleFullscreen} className="hover:text-white transition-colors" aria-label={isFullscreen ? t('exitFullscreen') : t('enterFullscreen')} title={isFullscreen ? t('exitFullscreenEsc') : t('enterFullscreen')}>
                             {isFullscreen ? <ArrowsContractIcon className="w-6 h-6" /> : <ArrowsExpandIcon className="w-6 h-6" />}
                         </button>
@@ -793,7 +1374,18 @@ const AppContent: React.FC = () => {
                 <main className="flex-1 grid grid-cols-1 lg:grid-cols-12 lg:grid-rows-1 gap-8 p-8 max-w-screen-2xl mx-auto w-full overflow-hidden">
                     <div className="lg:col-span-3 bg-[var(--panel-bg)] backdrop-blur-xl border border-[var(--border-color)] rounded-2xl p-6 flex flex-col space-y-6 overflow-y-auto shadow-xl shadow-black/20">
                         <ImageUploader title={t('productImageTitle')} description={t('productImageDescription')} onImageChange={setProductImage} />
-                        <ImageUploader title={t('referenceImageTitle')} description={t('referenceImageDescription')} onImageChange={setReferenceImage} />
+                        <div className="grid grid-cols-3 gap-2">
+                            <button onClick={() => setIsBatchOpen(true)} className="flex items-center justify-center gap-2 py-2 text-sm font-semibold text-cyan-300 border border-dashed border-cyan-500/50 rounded-lg hover:bg-cyan-500/10 transition-colors">
+                                <LayersIcon className="w-4 h-4" /> {t('batchOpen')}
+                            </button>
+                            <button onClick={() => setIsSweepOpen(true)} className="flex items-center justify-center gap-2 py-2 text-sm font-semibold text-cyan-300 border border-dashed border-cyan-500/50 rounded-lg hover:bg-cyan-500/10 transition-colors">
+                                <SunIcon className="w-4 h-4" /> {t('sweepOpen')}
+                            </button>
+                            <button onClick={() => setIsABOpen(true)} className="flex items-center justify-center gap-2 py-2 text-sm font-semibold text-cyan-300 border border-dashed border-cyan-500/50 rounded-lg hover:bg-cyan-500/10 transition-colors">
+                                <ArrowsHorizontalIcon className="w-4 h-4" /> {t('abOpen')}
+                            </button>
+                        </div>
+                        <MoodBoardUploader title={t('referenceImageTitle')} description={t('referenceImageDescription')} references={references} onChange={setReferences} />
                         <MagicCompositeToggle isEnabled={useMagicComposite} onToggle={handleMagicCompositeToggle} />
                         <div>
                             <h3 className="font-semibold text-gray-100 text-lg">{t('creativePromptTitle')}</h3>
@@ -808,10 +1400,10 @@ const AppContent: React.FC = () => {
                     </div>
                     <div className="lg:col-span-6 flex flex-col">
                         <div className="flex-grow bg-[var(--panel-bg)] backdrop-blur-xl border border-[var(--border-color)] rounded-2xl p-2 flex flex-col items-center justify-center relative min-h-[50vh] lg:min-h-0 shadow-xl shadow-black/20">
-                            <div className={`w-full h-auto max-h-full relative transition-all duration-300 ease-in-out ${dkExportSettings.aspectRatio === '16:9' ? 'aspect-[16/9]' : 'aspect-[4/5]'}`}>
+                            <div className="w-full h-auto max-h-full relative transition-all duration-300 ease-in-out" style={{ aspectRatio: aspectRatioToCss(dkExportSettings.aspectRatio) }}>
                                 <div className="absolute inset-0 border border-dashed border-white/20 rounded-lg pointer-events-none" />
                                 <div className="relative w-full h-full p-1">
-                                    {(isLoading || !!isUpscaling) && <Loader />}
+                                    {(isLoading || !!isUpscaling) && <Loader onCancel={handleCancelGeneration}>{generationStatusText && <p className="mt-4 text-lg font-semibold text-cyan-300">{generationStatusText}</p>}</Loader>}
                                     {!(isLoading || !!isUpscaling) && !generatedImage && (
                                         <div className="w-full h-full text-center p-8 flex flex-col items-center justify-center animate-pulse-slow">
                                             <DDStudioIcon className="w-20 h-20 opacity-10 mb-6" />
@@ -819,7 +1411,13 @@ const AppContent: React.FC = () => {
                                             <p className="text-sm text-gray-300">{t('creationPlaceholderSubtitle')}</p>
                                         </div>
                                     )}
-                                    {generatedImage && productImage && !(isLoading || !!isUpscaling) && <BeforeAfterSlider beforeSrc={`data:${productImage.mimeType};base64,${productImage.base64}`} afterSrc={`data:${generatedImage.mimeType};base64,${generatedImage.base64}`} />}
+                                    {generatedImage && isMaskEditing && !isUpscaling && <MaskEditor image={generatedImage} isBusy={isLoading} error={inpaintError} onApply={handleInpaint} onClose={() => setIsMaskEditing(false)} />}
+                                    {generatedImage && productImage && !(isLoading || !!isUpscaling) && !isMaskEditing && (
+                                        <button onClick={() => { setInpaintError(null); setIsMaskEditing(true); }} className="absolute top-3 end-3 z-10 flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-black/60 backdrop-blur-sm border border-white/20 text-gray-100 hover:text-white hover:border-cyan-400 transition-colors">
+                                            <PaintBrushIcon className="w-4 h-4" /> {t('maskEditOpen')}
+                                        </button>
+                                    )}
+                                    {generatedImage && productImage && !(isLoading || !!isUpscaling) && !isMaskEditing && <BeforeAfterSlider beforeSrc={`data:${productImage.mimeType};base64,${productImage.base64}`} afterSrc={`data:${generatedImage.mimeType};base64,${generatedImage.base64}`} />}
                                     {(error || upscaleError) && !(isLoading || !!isUpscaling) && (
                                         <div className="absolute inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 rounded-xl">
                                             <div className="text-center text-red-400"><p className="text-lg font-bold">{t('operationFailed')}</p><p className="text-sm mt-2 max-w-sm">{error || upscaleError}</p></div>
@@ -827,11 +1425,15 @@ const AppContent: React.FC = () => {
                                     )}
                                 </div>
                             </div>
+                            {sceneHistoryIds.length > 1 && !(isLoading || !!isUpscaling) && <SceneTabs scenes={sceneHistoryIds.flatMap(id => generationHistory.filter(item => item.id === id))} activeId={candidateHistoryId} onSelect={handleSelectScene} />}
+                            {candidates.length > 1 && !(isLoading || !!isUpscaling) && <CandidateGrid candidates={candidates} selected={generatedImage} onSelect={handlePromoteCandidate} />}
+                            {generatedImage && !(isLoading || !!isUpscaling) && <ColorComplianceReport image={generatedImage} sourceImage={productImage} />}
+                            {generatedImage && productImage && <RefinementChat image={generatedImage} rootId={refinementRootId} disabled={isLoading || !!isUpscaling || isMaskEditing || !isOnline} onVersion={handleRefinementVersion} onSelectVersion={setGeneratedImage} />}
                         </div>
                     </div>
                     <div className="lg:col-span-3 bg-[var(--panel-bg)] backdrop-blur-xl border border-[var(--border-color)] rounded-2xl flex flex-col overflow-hidden shadow-xl shadow-black/20">
                         <div className="p-4 border-b border-[var(--border-color)] flex-shrink-0"><h2 className="text-lg font-bold tracking-[0.3em] text-center uppercase text-white">{t('designKit')}</h2></div>
-                        <ControlPanel selectedCameras={selectedCameras} onCameraSelect={handleCameraToggle} selectedLightings={selectedLightings} onLightingSelect={handleLightingToggle} selectedMockups={selectedMockups} onMockupSelect={handleMockupSelect} selectedManipulations={selectedManipulations} onManipulationSelect={handleManipulationToggle} selectedPeopleRetouches={selectedPeopleRetouches} onPeopleRetouchSelect={handlePeopleRetouchToggle} selectedRetouches={selectedRetouches} onRetouchSelect={handleRetouchToggle} exportSettings={dkExportSettings} setExportSettings={setDkExportSettings} referenceImage={referenceImage} isAnalyzing={isAnalyzing} suggestedPresetIds={suggestedPresetIds} onGenerate={handleDesignKitGeneration} canGenerate={!!productImage && !isLoading && isOnline} isLoading={isLoading} generatedImage={generatedImage} isUpscaling={isUpscaling} onUpscale={handleUpscale} isOnline={isOnline} upscaleMenuRef={upscaleMenuRef} isUpscaleMenuOpen={isUpscaleMenuOpen} setIsUpscaleMenuOpen={setIsUpscaleMenuOpen} />
+                        <ControlPanel selectedCameras={selectedCameras} onCameraSelect={handleCameraToggle} selectedLightings={selectedLightings} onLightingSelect={handleLightingToggle} selectedMockups={selectedMockups} onMockupSelect={handleMockupSelect} selectedManipulations={selectedManipulations} onManipulationSelect={handleManipulationToggle} selectedPeopleRetouches={selectedPeopleRetouches} onPeopleRetouchSelect={handlePeopleRetouchToggle} selectedRetouches={selectedRetouches} onRetouchSelect={handleRetouchToggle} exportSettings={dkExportSettings} setExportSettings={setDkExportSettings} references={references} variationCount={variationCount} onVariationCountChange={setVariationCount} isAnalyzing={isAnalyzing} suggestedPresets={suggestedPresets} onGenerate={handleDesignKitGeneration} onViewPrompt={() => handleViewPrompt('design-kit')} canGenerate={!!productImage && !isLoading && isOnline} isLoading={isLoading} generatedImage={generatedImage} isUpscaling={isUpscaling} onUpscale={handleUpscale} isOnline={isOnline} upscaleMenuRef={upscaleMenuRef} isUpscaleMenuOpen={isUpscaleMenuOpen} setIsUpscaleMenuOpen={setIsUpscaleMenuOpen} onOpenAdComposer={() => setIsAdComposerOpen(true)} onOpenCampaignPack={() => setIsCampaignPackOpen(true)} conflicts={presetConflicts} onResolveConflict={handleResolveConflict} onOpenPresetManager={() => setIsPresetManagerOpen(true)} />
                     </div>
                 </main>
             )}
@@ -847,7 +1449,7 @@ const AppContent: React.FC = () => {
                         {creativeMode === 'illustrate' && (
                             <>
                                 <ImageUploader title={t('baseImageTitle')} description={t('baseImageDescription')} onImageChange={setIllustrationImage} />
-                                <ImageUploader title={t('styleReferenceTitle')} description={t('styleReferenceDescription')} onImageChange={setIllustrationReferenceImage} />
+                                <MoodBoardUploader title={t('styleReferenceTitle')} description={t('styleReferenceDescription')} references={illustrationReferences} onChange={setIllustrationReferences} />
                                 <div>
                                     <h3 className="font-semibold text-gray-100 text-lg">{t('illustrationStyleTitle')}</h3>
                                     <div className="p-3 bg-black/20 rounded-lg border border-[var(--border-color)] mt-3 space-y-2">
@@ -902,10 +1504,13 @@ const AppContent: React.FC = () => {
                                     </button>
                                 </div>
                                 <div className="pt-4 flex-grow flex flex-col justify-end space-y-3">
-                                    <button onClick={handleGenerateIllustration} disabled={!illustrationImage || isGeneratingIllustration || isVectorizing} className={`w-full py-3 px-4 text-lg font-bold rounded-lg transition-all duration-300 flex items-center justify-center transform hover:scale-[1.02] active:scale-[0.98] glow-on-hover ${!illustrationImage || isGeneratingIllustration || isVectorizing ? 'bg-gray-700/50 border border-gray-600 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white shadow-lg shadow-cyan-500/20'}`}>
+                                    <button onClick={() => handleGenerateIllustration()} disabled={!illustrationImage || isGeneratingIllustration || isVectorizing} className={`w-full py-3 px-4 text-lg font-bold rounded-lg transition-all duration-300 flex items-center justify-center transform hover:scale-[1.02] active:scale-[0.98] glow-on-hover ${!illustrationImage || isGeneratingIllustration || isVectorizing ? 'bg-gray-700/50 border border-gray-600 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white shadow-lg shadow-cyan-500/20'}`}>
                                         {isGeneratingIllustration ? t('illustrating') : t('illustrateImage')}
                                         {isGeneratingIllustration ? <div className="w-6 h-6 border-2 border-t-white border-white/30 rounded-full animate-spin ms-2"></div> : <PaintBrushIcon className="h-6 w-6 ms-2" />}
                                     </button>
+                                    <button onClick={() => handleViewPrompt('illustrate')} disabled={!illustrationImage || isGeneratingIllustration || isVectorizing} className={`w-full text-xs font-semibold flex items-center justify-center gap-1.5 transition-colors ${!illustrationImage || isGeneratingIllustration || isVectorizing ? 'text-gray-500 cursor-not-allowed' : 'text-cyan-300 hover:text-white'}`}>
+                                        <EyeIcon className="w-4 h-4" /> {t('viewPrompt')}
+                                    </button>
                                     
                                     {illustrationResultImage && !isGeneratingIllustration && (
                                         <div className="flex gap-3">
@@ -1086,11 +1691,14 @@ const AppContent: React.FC = () => {
                                 )}
                                 
                                 <div className="pt-4 flex-grow flex flex-col justify-end space-y-3">
-                                    <button onClick={handleSmartRetouch} disabled={!personImage || retouchSubMode !== 'smart' || isGeneratingCreative} className={`w-full py-3 px-4 text-lg font-bold rounded-lg transition-all duration-300 flex items-center justify-center transform hover:scale-[1.02] active:scale-[0.98] glow-on-hover ${!personImage || retouchSubMode !== 'smart' || isGeneratingCreative ? 'bg-gray-700/50 border border-gray-600 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-purple-600 to-indigo-500 text-white shadow-lg shadow-purple-600/20'}`}>
+                                    <button onClick={() => handleSmartRetouch()} disabled={!personImage || retouchSubMode !== 'smart' || isGeneratingCreative} className={`w-full py-3 px-4 text-lg font-bold rounded-lg transition-all duration-300 flex items-center justify-center transform hover:scale-[1.02] active:scale-[0.98] glow-on-hover ${!personImage || retouchSubMode !== 'smart' || isGeneratingCreative ? 'bg-gray-700/50 border border-gray-600 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-purple-600 to-indigo-500 text-white shadow-lg shadow-purple-600/20'}`}>
                                         {isGeneratingCreative && retouchSubMode === 'smart' ? generationStatusText : t('smartRetouch')} {isGeneratingCreative && retouchSubMode === 'smart' ? <div className="w-6 h-6 border-2 border-t-white border-white/30 rounded-full animate-spin ms-2"></div> : '⚡'}
                                     </button>
-                                     <button onClick={handleEnvironmentGeneration} disabled={!personImage || retouchSubMode !== 'environment' || isGeneratingCreative} className={`w-full py-3 px-4 text-lg font-bold rounded-lg transition-all duration-300 flex items-center justify-center transform hover:scale-[1.02] active:scale-[0.98] glow-on-hover ${!personImage || retouchSubMode !== 'environment' || isGeneratingCreative ? 'bg-gray-700/50 border border-gray-600 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white shadow-lg shadow-cyan-500/20'}`}>
+                                     <button onClick={() => handleEnvironmentGeneration()} disabled={!personImage || retouchSubMode !== 'environment' || isGeneratingCreative} className={`w-full py-3 px-4 text-lg font-bold rounded-lg transition-all duration-300 flex items-center justify-center transform hover:scale-[1.02] active:scale-[0.98] glow-on-hover ${!personImage || retouchSubMode !== 'environment' || isGeneratingCreative ? 'bg-gray-700/50 border border-gray-600 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white shadow-lg shadow-cyan-500/20'}`}>
                                         {isGeneratingCreative && retouchSubMode === 'environment' ? generationStatusText : t('generateEnvironment')} {isGeneratingCreative && retouchSubMode === 'environment' ? <div className="w-6 h-6 border-2 border-t-white border-white/30 rounded-full animate-spin ms-2"></div> : '🌆'}
+                                    </button>
+                                    <button onClick={() => handleViewPrompt(retouchSubMode === 'smart' ? 'smart-retouch' : 'environment')} disabled={!personImage || isGeneratingCreative} className={`w-full text-xs font-semibold flex items-center justify-center gap-1.5 transition-colors ${!personImage || isGeneratingCreative ? 'text-gray-500 cursor-not-allowed' : 'text-cyan-300 hover:text-white'}`}>
+                                        <EyeIcon className="w-4 h-4" /> {t('viewPrompt')}
                                     </button>
                                      <div className="flex gap-3">
                                         <button onClick={() => handleUpscale('hd')} disabled={!retouchResultImage || !!isUpscaling || isGeneratingCreative} className={`w-full py-2 px-4 text-sm font-bold rounded-lg transition-all duration-300 flex items-center justify-center bg-black/20 border-2 ${!retouchResultImage || !!isUpscaling || isGeneratingCreative ? 'border-gray-600 text-gray-500 cursor-not-allowed' : 'border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/10'}`}>
@@ -1111,7 +1719,7 @@ const AppContent: React.FC = () => {
                     </div>
                     
                     <div className="lg:col-span-8 bg-[var(--panel-bg)] backdrop-blur-xl border border-[var(--border-color)] rounded-2xl p-2 flex flex-col items-center justify-center relative min-h-[50vh] lg:min-h-0 overflow-y-auto shadow-xl shadow-black/20">
-                        {(isGeneratingIllustration || isGeneratingCreative || !!isUpscaling || isVectorizing) && <Loader><p className="mt-4 text-lg font-semibold text-cyan-300">{generationStatusText}</p></Loader>}
+                        {(isGeneratingIllustration || isGeneratingCreative || !!isUpscaling || isVectorizing) && <Loader onCancel={handleCancelGeneration}><p className="mt-4 text-lg font-semibold text-cyan-300">{generationStatusText}</p></Loader>}
                         
                         {creativeMode === 'illustrate' && !(isGeneratingIllustration || !!isUpscaling || isVectorizing) && (
                             !illustrationResultImage ? (
@@ -1146,6 +1754,44 @@ const AppContent: React.FC = () => {
                 <PromptSuggestionsModal isOpen={isDKPromptModalOpen} suggestions={suggestedDKPrompts} onSelect={(p) => { setCustomPrompt(p); setIsDKPromptModalOpen(false); }} onClose={() => setIsDKPromptModalOpen(false)} />
             )}
 
+            {promptInspector && <PromptInspector isOpen={!!promptInspector} request={promptInspector.request} onSend={handleSendInspectedPrompt} onClose={() => setPromptInspector(null)} />}
+
+            {isTemplateSettingsOpen && <PromptTemplateSettings isOpen={isTemplateSettingsOpen} onClose={() => setIsTemplateSettingsOpen(false)} />}
+            {isAdComposerOpen && generatedImage && (
+                <AdComposer
+                    isOpen={isAdComposerOpen}
+                    onClose={() => setIsAdComposerOpen(false)}
+                    image={generatedImage}
+                    aspectRatio={dkExportSettings.aspectRatio}
+                    initialLayout={adLayout}
+                    onLayoutChange={setAdLayout}
+                />
+            )}
+            {isCampaignPackOpen && generatedImage && heroProduct && (
+                <CampaignPackPanel
+                    isOpen={isCampaignPackOpen}
+                    onClose={() => setIsCampaignPackOpen(false)}
+                    hero={generatedImage}
+                    productImage={heroProduct}
+                    params={heroParams}
+                />
+            )}
+            {isBrandKitOpen && <BrandKitManager isOpen={isBrandKitOpen} onClose={() => setIsBrandKitOpen(false)} />}
+            {isPresetManagerOpen && <CustomPresetManager isOpen={isPresetManagerOpen} onClose={() => setIsPresetManagerOpen(false)} />}
+            {isRecipePanelOpen && (
+                <RecipePanel
+                    isOpen={isRecipePanelOpen}
+                    onClose={() => { setIsRecipePanelOpen(false); setIncomingRecipe(null); }}
+                    currentSettings={appMode === 'design-kit' ? designKitSettings : creativeMode === 'illustrate' ? illustrationSettings : retouchSettings}
+                    onApply={applyRecipeSettings}
+                    incoming={incomingRecipe}
+                    onIncomingSaved={() => setIncomingRecipe(null)}
+                />
+            )}
+            <SweepPanel isOpen={isSweepOpen} onClose={() => setIsSweepOpen(false)} onApply={handleApplySweepSelection} productImage={productImage} references={references} useMagicComposite={useMagicComposite} params={designKitParams} sceneCount={selectedMockups.length} />
+            <ABComparePanel isOpen={isABOpen} onClose={() => setIsABOpen(false)} productImage={productImage} references={references} currentSettings={currentDesignKit} onUse={handleUseABResult} />
+            <BatchPanel isOpen={isBatchOpen} onClose={() => setIsBatchOpen(false)} params={designKitParams} references={references} useMagicComposite={useMagicComposite} sceneCount={selectedMockups.length} />
+
             {isCreativePromptModalOpen && suggestedCreativePrompts && (
                 <PromptSuggestionsModal isOpen={isCreativePromptModalOpen} suggestions={suggestedCreativePrompts} onSelect={(p) => {
                     if (creativeMode === 'illustrate') setIllustrationCustomPrompt(p);
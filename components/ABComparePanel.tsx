@@ -0,0 +1,404 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { DesignKitSettings, ImageFile, PresetCategory, ReferenceImage } from '../types';
+import { GeneratedImage, generateImage } from '../services/aiService';
+import { isCancellation } from '../services/aiErrors';
+import { aspectRatioToCss, enforceAspectRatio } from '../services/aspectRatio';
+import { BatchJobStatus, runWithConcurrency } from '../services/batch';
+import { AB_SIDES, ABSide, applyConflictFix, detectSideConflicts, diffDesignKitSettings, hasDifferences, sceneCount, togglePresetId } from '../services/abCompare';
+import { PRESET_CATEGORIES, PRESET_CATEGORY_LABEL_KEYS, getPresets } from '../services/presetCatalog';
+import { getRecipes, subscribeToRecipes, toGenerationParams } from '../services/recipes';
+import { useLanguage, describeAIError } from '../App';
+import PresetConflicts from './PresetConflicts';
+import { ArrowsHorizontalIcon, CloseIcon, RefreshIcon } from './Icons';
+
+interface ABSnapshot {
+    productImage: ImageFile;
+    references: ReferenceImage[];
+    sides: Record<ABSide, DesignKitSettings>;
+}
+
+interface ABResult {
+    status: BatchJobStatus;
+    result?: GeneratedImage;
+    error?: string;
+}
+
+/** Zoom and pan shared by both results. The offsets are fractions of the frame so sides with different aspect ratios stay aligned. */
+interface ZoomView {
+    scale: number;
+    x: number;
+    y: number;
+}
+
+interface ABComparePanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    productImage: ImageFile | null;
+    references: ReferenceImage[];
+    /** The Design Kit controls, which both sides start from. */
+    currentSettings: DesignKitSettings;
+    /** Loads the settings of one side into the Control Panel and shows its result, generated from `productImage`. */
+    onUse: (settings: DesignKitSettings, image: GeneratedImage, productImage: ImageFile) => void;
+}
+
+const SIDE_LABEL_KEYS: Record<ABSide, string> = { a: 'abSideA', b: 'abSideB' };
+
+const MAX_ZOOM = 6;
+const RESET_VIEW: ZoomView = { scale: 1, x: 0, y: 0 };
+
+// Keeps the zoomed image covering its frame.
+const clampView = ({ scale, x, y }: ZoomView): ZoomView => {
+    const nextScale = Math.min(MAX_ZOOM, Math.max(1, scale));
+    const limit = (nextScale - 1) / 2;
+    return { scale: nextScale, x: Math.min(limit, Math.max(-limit, x)), y: Math.min(limit, Math.max(-limit, y)) };
+};
+
+interface ZoomPaneProps {
+    image: GeneratedImage;
+    alt: string;
+    frame: string;
+    view: ZoomView;
+    onViewChange: (update: (view: ZoomView) => ZoomView) => void;
+}
+
+const ZoomPane: React.FC<ZoomPaneProps> = ({ image, alt, frame, view, onViewChange }) => {
+    const paneRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+    // React registers wheel listeners as passive, so the page would scroll along with the zoom.
+    useEffect(() => {
+        const pane = paneRef.current;
+        if (!pane) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            onViewChange(prev => {
+                const scale = Math.min(MAX_ZOOM, Math.max(1, prev.scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+                return clampView({ scale, x: prev.x * scale / prev.scale, y: prev.y * scale / prev.scale });
+            });
+        };
+        pane.addEventListener('wheel', handleWheel, { passive: false });
+        return () => pane.removeEventListener('wheel', handleWheel);
+    }, [onViewChange]);
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!dragRef.current) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const dx = (e.clientX - dragRef.current.x) / rect.width;
+        const dy = (e.clientY - dragRef.current.y) / rect.height;
+        dragRef.current = { x: e.clientX, y: e.clientY };
+        onViewChange(prev => clampView({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+    };
+
+    return (
+        <div
+            ref={paneRef}
+            className={`relative overflow-hidden rounded-lg bg-black/30 border border-[var(--border-color)] touch-none ${view.scale > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+            style={{ aspectRatio: frame }}
+            onPointerDown={(e) => { dragRef.current = { x: e.clientX, y: e.clientY }; e.currentTarget.setPointerCapture(e.pointerId); }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { dragRef.current = null; }}
+            onPointerCancel={() => { dragRef.current = null; }}
+            onDoubleClick={() => onViewChange(() => RESET_VIEW)}
+        >
+            <img
+                src={`data:${image.mimeType};base64,${image.base64}`}
+                alt={alt}
+                draggable={false}
+                className="w-full h-full object-contain select-none"
+                style={{ transform: `translate(${view.x * 100}%, ${view.y * 100}%) scale(${view.scale})` }}
+            />
+        </div>
+    );
+};
+
+// Stays mounted while closed, like the sweep panel, so a comparison in progress is not lost.
+const ABComparePanel: React.FC<ABComparePanelProps> = ({ isOpen, onClose, productImage, references, currentSettings, onUse }) => {
+    const { t } = useLanguage();
+    const recipes = useSyncExternalStore(subscribeToRecipes, getRecipes);
+    const [sides, setSides] = useState<Record<ABSide, DesignKitSettings>>({ a: currentSettings, b: currentSettings });
+    const [category, setCategory] = useState<PresetCategory>('lighting');
+    const [results, setResults] = useState<Partial<Record<ABSide, ABResult>>>({});
+    const [isRunning, setIsRunning] = useState(false);
+    const [view, setView] = useState<ZoomView>(RESET_VIEW);
+    const controllerRef = useRef<AbortController | null>(null);
+    // What the results were generated from, so retries and "Use" stay consistent with them.
+    const snapshotRef = useRef<ABSnapshot | null>(null);
+
+    // Until the first comparison runs, every opening starts both sides from the current controls.
+    useEffect(() => {
+        if (isOpen && !snapshotRef.current) setSides({ a: currentSettings, b: currentSettings });
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const difference = diffDesignKitSettings(sides.a, sides.b);
+    const differingLabels = [
+        ...(Object.keys(difference.presets) as PresetCategory[]).map(c => t(PRESET_CATEGORY_LABEL_KEYS[c])),
+        ...(difference.exportSettings ? [t('exportSettings')] : []),
+        ...(difference.customPrompt ? [t('abPrompt')] : []),
+        ...(difference.useMagicComposite ? [t('magicCompositeTitle')] : []),
+    ];
+    const isSideValid = (side: ABSide) => sceneCount(sides[side]) <= 1 && detectSideConflicts(sides[side]).length === 0;
+    const canStart = !!productImage && !isRunning && AB_SIDES.every(isSideValid);
+    const designKitRecipes = recipes.filter(recipe => recipe.settings.mode === 'design-kit');
+
+    const updateSide = (side: ABSide, update: (settings: DesignKitSettings) => DesignKitSettings) =>
+        setSides(prev => ({ ...prev, [side]: update(prev[side]) }));
+
+    const handleLoad = (side: ABSide, source: string) => {
+        if (source === 'current') return updateSide(side, () => currentSettings);
+        const settings = recipes.find(r => r.id === source)?.settings;
+        if (settings?.mode === 'design-kit') updateSide(side, () => settings.designKit);
+    };
+
+    const updateResult = (side: ABSide, patch: ABResult) => setResults(prev => ({ ...prev, [side]: patch }));
+
+    const runSides = async (toRun: ABSide[], snapshot: ABSnapshot) => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRunning(true);
+        toRun.forEach(side => updateResult(side, { status: 'queued' }));
+        try {
+            await runWithConcurrency(toRun, AB_SIDES.length, async side => {
+                if (controller.signal.aborted) return;
+                updateResult(side, { status: 'running' });
+                const settings = snapshot.sides[side];
+                try {
+                    const params = toGenerationParams(settings);
+                    const image = await generateImage(snapshot.productImage, snapshot.references, settings.useMagicComposite, params, { signal: controller.signal });
+                    if (!image) throw new Error(t('batchNoImage'));
+                    const result = await enforceAspectRatio(image, params.exportSettings, { signal: controller.signal });
+                    updateResult(side, { status: 'done', result });
+                } catch (error) {
+                    if (isCancellation(error)) {
+                        updateResult(side, { status: 'queued' });
+                        return;
+                    }
+                    console.error(`A/B side "${side}" failed:`, error);
+                    updateResult(side, { status: 'failed', error: describeAIError(error, t, t('batchNoImage')) });
+                }
+            });
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const handleStart = () => {
+        if (!canStart) return;
+        snapshotRef.current = { productImage, references, sides };
+        setView(RESET_VIEW);
+        runSides(AB_SIDES, snapshotRef.current);
+    };
+
+    const handleRetry = (side: ABSide) => snapshotRef.current && runSides([side], snapshotRef.current);
+
+    const handleUse = (side: ABSide) => {
+        const result = results[side]?.result;
+        if (!result || !snapshotRef.current) return;
+        onUse(snapshotRef.current.sides[side], result, snapshotRef.current.productImage);
+        onClose();
+    };
+
+    const exportLabel = (settings: DesignKitSettings) => {
+        const { aspectRatio, fitMode, transparent } = settings.exportSettings;
+        return `${aspectRatio} · ${fitMode}${transparent ? ` · ${t('abTransparent')}` : ''}`;
+    };
+
+    const differsClass = (differs: boolean) => differs ? 'border-amber-400 text-amber-200' : 'border-[var(--border-color)] text-gray-300';
+
+    const renderSideSettings = (side: ABSide) => {
+        const settings = sides[side];
+        const differing = difference.presets[category] ?? [];
+        return (
+            <div key={side} className="flex-1 min-w-0 space-y-3">
+                <div className="flex items-center gap-2">
+                    <h3 className="text-lg font-bold text-gray-100">{t(SIDE_LABEL_KEYS[side])}</h3>
+                    <select
+                        value=""
+                        onChange={(e) => handleLoad(side, e.target.value)}
+                        disabled={isRunning}
+                        className="flex-1 min-w-0 bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-sm text-white"
+                        aria-label={t('abLoad')}
+                    >
+                        <option value="" disabled>{t('abLoad')}</option>
+                        <option value="current">{t('abLoadCurrent')}</option>
+                        {designKitRecipes.map(recipe => <option key={recipe.id} value={recipe.id}>{recipe.name}</option>)}
+                    </select>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                    {getPresets(category).filter(p => p.id !== 'none').map(preset => {
+                        const isSelected = settings.presetIds[category].includes(preset.id);
+                        const differs = isSelected && differing.includes(preset.id);
+                        return (
+                            <button
+                                key={preset.id}
+                                onClick={() => updateSide(side, s => togglePresetId(s, category, preset.id))}
+                                disabled={isRunning}
+                                title={t(preset.description, preset.description)}
+                                className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${differs ? 'border-amber-400 bg-amber-500/20 text-amber-100' : isSelected ? 'border-cyan-400 bg-cyan-500/20 text-white' : 'border-[var(--border-color)] text-gray-400 hover:border-cyan-500/50'}`}
+                            >
+                                {t(preset.name, preset.name)}
+                            </button>
+                        );
+                    })}
+                </div>
+                <textarea
+                    value={settings.customPrompt}
+                    onChange={(e) => updateSide(side, s => ({ ...s, customPrompt: e.target.value }))}
+                    disabled={isRunning}
+                    rows={2}
+                    placeholder={t('promptPlaceholder')}
+                    className={`w-full bg-black/20 border rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 resize-none ${difference.customPrompt ? 'border-amber-400' : 'border-[var(--border-color)]'}`}
+                />
+                {sceneCount(settings) > 1 && <p className="text-xs text-yellow-300">{t('abOneScene')}</p>}
+                {settings.variationCount > 1 && <p className="text-xs text-gray-400">{t('abNoVariations').replace('{count}', String(settings.variationCount))}</p>}
+                {!isRunning && <PresetConflicts conflicts={detectSideConflicts(settings)} onResolve={(fix) => updateSide(side, s => applyConflictFix(s, fix))} />}
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <span className={`px-2 py-0.5 rounded-full border ${differsClass(difference.exportSettings)}`}>{exportLabel(settings)}</span>
+                    <label className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full border ${differsClass(difference.useMagicComposite)}`}>
+                        <input
+                            type="checkbox"
+                            checked={settings.useMagicComposite}
+                            onChange={(e) => updateSide(side, s => ({ ...s, useMagicComposite: e.target.checked }))}
+                            disabled={isRunning}
+                        />
+                        {t('magicCompositeTitle')}
+                    </label>
+                </div>
+            </div>
+        );
+    };
+
+    const renderResult = (side: ABSide) => {
+        const entry = results[side];
+        const snapshot = snapshotRef.current;
+        const frame = aspectRatioToCss((snapshot?.sides[side] ?? sides[side]).exportSettings.aspectRatio);
+        return (
+            <div key={side} className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-semibold text-gray-200">{t(SIDE_LABEL_KEYS[side])}</span>
+                    {entry?.result && (
+                        <button onClick={() => handleUse(side)} disabled={isRunning} className="px-3 py-1 text-xs font-bold rounded-md border border-cyan-500 text-cyan-300 hover:bg-cyan-500/10 disabled:opacity-50">
+                            {t('abUse').replace('{side}', t(SIDE_LABEL_KEYS[side]))}
+                        </button>
+                    )}
+                </div>
+                {entry?.result ? (
+                    <ZoomPane image={entry.result} alt={t(SIDE_LABEL_KEYS[side])} frame={frame} view={view} onViewChange={setView} />
+                ) : (
+                    <div className="rounded-lg bg-black/30 border border-[var(--border-color)] flex flex-col items-center justify-center gap-2 p-4 text-center" style={{ aspectRatio: frame }}>
+                        {entry?.status === 'running' && <div className="w-6 h-6 border-2 border-t-white border-white/30 rounded-full animate-spin" />}
+                        {entry?.status === 'queued' && <span className="text-xs text-gray-400">{t('batchStatus_queued')}</span>}
+                        {entry?.status === 'failed' && (
+                            <>
+                                <span className="text-xs text-red-400 line-clamp-3" title={entry.error}>{entry.error}</span>
+                                {!isRunning && (
+                                    <button onClick={() => handleRetry(side)} className="text-xs font-semibold text-cyan-300 hover:text-white flex items-center gap-1">
+                                        <RefreshIcon className="w-4 h-4" /> {t('batchRetry')}
+                                    </button>
+                                )}
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const hasResults = AB_SIDES.some(side => results[side]?.result);
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-md z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-[rgba(16,18,42,0.5)] backdrop-blur-2xl border border-[var(--border-color)] rounded-2xl shadow-2xl shadow-black/20 w-full max-w-6xl h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-[var(--border-color)]">
+                    <div className="flex items-center gap-3">
+                        <ArrowsHorizontalIcon className="w-6 h-6 text-cyan-400" />
+                        <h2 className="text-xl font-bold text-gray-100">{t('abTitle')}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors" aria-label={t('close')}>
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="flex-1 overflow-y-auto">
+                    <div className="p-5 border-b border-[var(--border-color)] space-y-4">
+                        <p className="text-sm text-gray-300">{t('abDescription')}</p>
+                        <div className="flex flex-wrap gap-1.5">
+                            {PRESET_CATEGORIES.map(c => (
+                                <button
+                                    key={c}
+                                    onClick={() => setCategory(c)}
+                                    className={`flex items-center gap-1.5 px-3 py-1 text-sm rounded-lg transition-colors ${category === c ? 'bg-white/10 text-white' : 'text-gray-300 hover:bg-white/5'}`}
+                                >
+                                    {t(PRESET_CATEGORY_LABEL_KEYS[c])}
+                                    {difference.presets[c] && <span className="w-2 h-2 rounded-full bg-amber-400" title={t('abDiffers')} />}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex flex-col md:flex-row gap-6">
+                            {AB_SIDES.map(renderSideSettings)}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3">
+                            <span className={`text-sm ${hasDifferences(difference) ? 'text-amber-300' : 'text-gray-400'}`}>
+                                {hasDifferences(difference) ? t('abDiffSummary').replace('{list}', differingLabels.join(', ')) : t('abIdentical')}
+                            </span>
+                            {!productImage && <span className="text-sm text-yellow-300">{t('sweepNeedsProduct')}</span>}
+                            <div className="flex-1" />
+                            {isRunning ? (
+                                <button onClick={() => controllerRef.current?.abort()} className="py-2 px-4 text-sm font-bold rounded-lg border border-red-400 text-red-300 hover:bg-red-500/10">
+                                    {t('cancelGeneration')}
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={handleStart}
+                                    disabled={!canStart}
+                                    className={`py-2 px-5 text-sm font-bold rounded-lg transition-all ${!canStart ? 'bg-gray-700/50 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white'}`}
+                                >
+                                    {t('abStart')}
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    <div className="p-5 space-y-3">
+                        {Object.keys(results).length === 0 ? (
+                            <p className="text-center text-sm text-gray-400 py-8">{t('abEmpty')}</p>
+                        ) : (
+                            <>
+                                {hasResults && (
+                                    <div className="flex items-center gap-3 text-sm text-gray-300">
+                                        <span>{t('abZoom')}</span>
+                                        <input
+                                            type="range"
+                                            min={1}
+                                            max={MAX_ZOOM}
+                                            step={0.1}
+                                            value={view.scale}
+                                            onChange={(e) => { const scale = Number(e.target.value); setView(prev => clampView({ scale, x: prev.x * scale / prev.scale, y: prev.y * scale / prev.scale })); }}
+                                            className="w-48"
+                                        />
+                                        <span className="w-10">{view.scale.toFixed(1)}×</span>
+                                        <button onClick={() => setView(RESET_VIEW)} className="text-xs font-semibold text-cyan-300 hover:text-white">{t('abZoomReset')}</button>
+                                        <span className="text-xs text-gray-400">{t('abZoomHint')}</span>
+                                    </div>
+                                )}
+                                <div className="flex flex-col md:flex-row gap-4 items-start">
+                                    {AB_SIDES.map(renderResult)}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ABComparePanel;
@@ -9,9 +9,11 @@ interface AccordionItemProps {
     isDisabled?: boolean;
     disabledReason?: string;
     isAnalyzing?: boolean;
+    /** Shown next to the title, e.g. when a preset in the section conflicts with another. */
+    warning?: string;
 }
 
-const AccordionItem: React.FC<AccordionItemProps> = ({ title, icon, children, isOpenDefault = false, isDisabled = false, disabledReason = '', isAnalyzing = false }) => {
+const AccordionItem: React.FC<AccordionItemProps> = ({ title, icon, children, isOpenDefault = false, isDisabled = false, disabledReason = '', isAnalyzing = false, warning }) => {
     const [isOpen, setIsOpen] = useState(isOpenDefault);
 
     const effectiveIsOpen = isOpen && !isDisabled;
@@ -27,6 +29,7 @@ const AccordionItem: React.FC<AccordionItemProps> = ({ title, icon, children, is
                 <div className="flex items-center gap-3">
                     {icon}
                     <span>{title}</span>
+                    {warning && <span className="w-2 h-2 rounded-full bg-amber-400" title={warning} aria-label={warning} />}
                     {isAnalyzing && (
                          <div className="w-4 h-4 border-2 border-t-cyan-400 border-gray-400 rounded-full animate-spin"></div>
                     )}
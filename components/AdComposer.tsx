@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio } from '../types';
+import { GeneratedImage } from '../services/aiService';
+import {
+    AD_FONT_FAMILIES, AD_LAYOUT_VERSION, AdLayer, AdLayout, LayerImages, TextAlign,
+    createLogoLayer, createShapeLayer, createTextLayer, drawAdLayout, getTemplatesFor, hitTestLayer,
+    loadLayerImages, loadLayoutFonts, parseAdLayout, renderAdImage, serializeAdLayout,
+} from '../services/adLayout';
+import { loadImage, readImageFile } from '../services/imageProcessing';
+import { getActiveBrandKit } from '../services/brandKitStore';
+import { base64ToBytes, downloadBlob } from '../services/zip';
+import { useLanguage } from '../App';
+import { CloseIcon, LayersIcon, DownloadIcon } from './Icons';
+
+interface AdComposerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    image: GeneratedImage;
+    aspectRatio: AspectRatio;
+    /** Layout to start from, e.g. the one used on the previous result. */
+    initialLayout: AdLayout | null;
+    onLayoutChange: (layout: AdLayout) => void;
+}
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+const SliderField: React.FC<{ label: string; value: number; min: number; max: number; step?: number; onChange: (value: number) => void }> = ({ label, value, min, max, step = 1, onChange }) => (
+    <label className="block text-xs text-gray-300">
+        <span className="flex justify-between"><span>{label}</span><span className="text-gray-400">{Math.round(value)}</span></span>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full accent-cyan-500" />
+    </label>
+);
+
+const AdComposer: React.FC<AdComposerProps> = ({ isOpen, onClose, image, aspectRatio, initialLayout, onLayoutChange }) => {
+    const { t } = useLanguage();
+    const templates = getTemplatesFor(aspectRatio);
+    const brandLogo = getActiveBrandKit()?.logo ?? null;
+    const [layout, setLayout] = useState<AdLayout>(() => initialLayout ?? {
+        version: AD_LAYOUT_VERSION,
+        layers: templates[0]?.build({ headline: t('adDefaultHeadline'), cta: t('adDefaultCta'), logo: brandLogo }) ?? [],
+    });
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [baseImage, setBaseImage] = useState<HTMLImageElement | null>(null);
+    const [layerImages, setLayerImages] = useState<LayerImages>(new Map());
+    const [fontsVersion, setFontsVersion] = useState(0);
+    const [isExporting, setIsExporting] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragRef = useRef<{ id: string; dx: number; dy: number } | null>(null);
+
+    useEffect(() => { onLayoutChange(layout); }, [layout]);
+
+    useEffect(() => {
+        loadImage(image).then(setBaseImage).catch(error => console.error('Could not load the result for the layout editor:', error));
+    }, [image]);
+
+    useEffect(() => {
+        let isCurrent = true;
+        loadLayerImages(layout).then(images => { if (isCurrent) setLayerImages(images); });
+        loadLayoutFonts(layout).then(() => { if (isCurrent) setFontsVersion(v => v + 1); });
+        return () => { isCurrent = false; };
+    }, [layout]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !baseImage) return;
+        canvas.width = baseImage.naturalWidth;
+        canvas.height = baseImage.naturalHeight;
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(baseImage, 0, 0);
+        drawAdLayout(ctx, layout, canvas.width, canvas.height, layerImages);
+        const selected = layout.layers.find(layer => layer.id === selectedId);
+        if (selected) {
+            ctx.save();
+            ctx.strokeStyle = '#22D3EE';
+            ctx.lineWidth = Math.max(2, canvas.width / 400);
+            ctx.setLineDash([ctx.lineWidth * 4, ctx.lineWidth * 3]);
+            ctx.strokeRect(selected.x * canvas.width, selected.y * canvas.height, selected.width * canvas.width, selected.height * canvas.height);
+            ctx.restore();
+        }
+    }, [baseImage, layout, layerImages, selectedId, fontsVersion]);
+
+    if (!isOpen) return null;
+
+    const selected = layout.layers.find(layer => layer.id === selectedId);
+
+    const updateLayer = (id: string, patch: Partial<AdLayer>) =>
+        setLayout(prev => ({ ...prev, layers: prev.layers.map(layer => layer.id === id ? { ...layer, ...patch } as AdLayer : layer) }));
+
+    const addLayer = (layer: AdLayer) => {
+        setLayout(prev => ({ ...prev, layers: [...prev.layers, layer] }));
+        setSelectedId(layer.id);
+    };
+
+    const moveLayer = (id: string, offset: number) => setLayout(prev => {
+        const index = prev.layers.findIndex(layer => layer.id === id);
+        const target = index + offset;
+        if (index < 0 || target < 0 || target >= prev.layers.length) return prev;
+        const layers = [...prev.layers];
+        [layers[index], layers[target]] = [layers[target], layers[index]];
+        return { ...prev, layers };
+    });
+
+    const removeLayer = (id: string) => {
+        setLayout(prev => ({ ...prev, layers: prev.layers.filter(layer => layer.id !== id) }));
+        setSelectedId(null);
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const point = toCanvasPoint(e);
+        const hit = hitTestLayer(layout, point.x, point.y);
+        setSelectedId(hit?.id ?? null);
+        if (!hit) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { id: hit.id, dx: point.x - hit.x, dy: point.y - hit.y };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const drag = dragRef.current;
+        const layer = drag && layout.layers.find(l => l.id === drag.id);
+        if (!drag || !layer) return;
+        const point = toCanvasPoint(e);
+        updateLayer(drag.id, { x: clamp(point.x - drag.dx, 0, 1 - layer.width), y: clamp(point.y - drag.dy, 0, 1 - layer.height) });
+    };
+
+    const handleExportImage = async (format: 'png' | 'jpeg') => {
+        setIsExporting(true);
+        try {
+            const result = await renderAdImage(image, layout, format);
+            downloadBlob(new Blob([base64ToBytes(result.base64)], { type: result.mimeType }), `dd-studio-ad.${format === 'jpeg' ? 'jpg' : 'png'}`);
+        } catch (error) {
+            console.error('Ad export failed:', error);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleImportLayout = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            setLayout(parseAdLayout(await file.text()));
+            setSelectedId(null);
+            setImportError(null);
+        } catch (error) {
+            console.error('Could not import the layout:', error);
+            setImportError(t('adLayoutImportFailed'));
+        }
+    };
+
+    const handleLogoUpload = async (id: string, file: File | undefined) => {
+        if (!file) return;
+        const { base64, mimeType } = await readImageFile(file);
+        updateLayer(id, { image: { base64, mimeType } });
+    };
+
+    const layerLabel = (layer: AdLayer) =>
+        layer.kind === 'text' ? (layer.text.split('\n')[0] || t('adLayerText')) : layer.kind === 'shape' ? t(`adShape_${layer.shape}`) : t('adLayerLogo');
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-md z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-[rgba(16,18,42,0.5)] backdrop-blur-2xl border border-[var(--border-color)] rounded-2xl shadow-2xl shadow-black/20 w-full max-w-6xl h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-[var(--border-color)]">
+                    <div className="flex items-center gap-3">
+                        <LayersIcon className="w-6 h-6 text-cyan-400" />
+                        <h2 className="text-xl font-bold text-gray-100">{t('adComposerTitle')}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors" aria-label={t('close')}>
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="flex-1 flex min-h-0">
+                    <div className="flex-1 flex items-center justify-center p-4 min-w-0">
+                        <canvas
+                            ref={canvasRef}
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={() => { dragRef.current = null; }}
+                            className="max-w-full max-h-full rounded-lg shadow-lg cursor-move touch-none"
+                        />
+                    </div>
+                    <aside className="w-80 border-s border-[var(--border-color)] p-4 space-y-4 overflow-y-auto text-sm">
+                        {templates.length > 0 && (
+                            <div>
+                                <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-300 mb-2">{t('adTemplates')}</h3>
+                                <div className="flex flex-wrap gap-2">
+                                    {templates.map(template => (
+                                        <button
+                                            key={template.id}
+                                            onClick={() => { setLayout({ version: AD_LAYOUT_VERSION, layers: template.build({ headline: t('adDefaultHeadline'), cta: t('adDefaultCta'), logo: brandLogo }) }); setSelectedId(null); }}
+                                            className="px-3 py-1 text-xs rounded-full border border-[var(--border-color)] text-gray-200 hover:border-cyan-500/60"
+                                        >
+                                            {t(template.nameKey)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        <div>
+                            <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-300 mb-2">{t('adLayers')}</h3>
+                            <div className="flex gap-2 mb-2">
+                                <button onClick={() => addLayer(createTextLayer(t('adDefaultHeadline'), { x: 0.1, y: 0.4, width: 0.8, height: 0.15 }))} className="text-xs font-semibold text-cyan-300 hover:text-white">+ {t('adLayerText')}</button>
+                                <button onClick={() => addLayer(createShapeLayer({ x: 0.3, y: 0.4, width: 0.4, height: 0.15 }))} className="text-xs font-semibold text-cyan-300 hover:text-white">+ {t('adLayerShape')}</button>
+                                <button onClick={() => addLayer(createLogoLayer(brandLogo, { x: 0.4, y: 0.05, width: 0.2, height: 0.1 }))} className="text-xs font-semibold text-cyan-300 hover:text-white">+ {t('adLayerLogo')}</button>
+                            </div>
+                            <ul className="space-y-1">
+                                {[...layout.layers].reverse().map(layer => (
+                                    <li key={layer.id} className={`flex items-center gap-2 px-2 py-1 rounded-md ${layer.id === selectedId ? 'bg-cyan-500/20' : 'hover:bg-white/5'}`}>
+                                        <button onClick={() => setSelectedId(layer.id)} className="flex-1 text-start truncate text-gray-200">{layerLabel(layer)}</button>
+                                        <button onClick={() => moveLayer(layer.id, 1)} className="text-gray-400 hover:text-white" aria-label={t('adLayerUp')}>▲</button>
+                                        <button onClick={() => moveLayer(layer.id, -1)} className="text-gray-400 hover:text-white" aria-label={t('adLayerDown')}>▼</button>
+                                        <button onClick={() => removeLayer(layer.id)} className="text-gray-400 hover:text-red-400" aria-label={t('adLayerDelete')}><CloseIcon className="w-3.5 h-3.5" /></button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                        {selected && (
+                            <div className="space-y-3 border-t border-[var(--border-color)] pt-3">
+                                {selected.kind === 'text' && (
+                                    <>
+                                        <textarea
+                                            value={selected.text}
+                                            onChange={(e) => updateLayer(selected.id, { text: e.target.value })}
+                                            dir={selected.direction}
+                                            className="w-full bg-black/20 border border-[var(--border-color)] rounded-lg p-2 text-white h-20 resize-y"
+                                        />
+                                        <div className="flex gap-2">
+                                            <select
+                                                value={selected.fontFamily}
+                                                onChange={(e) => updateLayer(selected.id, { fontFamily: e.target.value })}
+                                                className="flex-1 bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-white"
+                                            >
+                                                {AD_FONT_FAMILIES.map(font => <option key={font} value={font}>{font}</option>)}
+                                            </select>
+                                            <input type="color" value={selected.color} onChange={(e) => updateLayer(selected.id, { color: e.target.value.toUpperCase() })} className="w-9 h-8 bg-transparent border-0 p-0 cursor-pointer" />
+                                        </div>
+                                        <SliderField label={t('adFontSize')} value={selected.fontSize * 100} min={2} max={20} step={0.5} onChange={(value) => updateLayer(selected.id, { fontSize: value / 100 })} />
+                                        <div className="flex flex-wrap gap-1">
+                                            {(['left', 'center', 'right'] as TextAlign[]).map(align => (
+                                                <button key={align} onClick={() => updateLayer(selected.id, { align })} className={`px-2 py-1 text-xs rounded-md border ${selected.align === align ? 'border-cyan-400 text-white' : 'border-[var(--border-color)] text-gray-300'}`}>
+                                                    {t(`adAlign_${align}`)}
+                                                </button>
+                                            ))}
+                                            <button onClick={() => updateLayer(selected.id, { fontWeight: selected.fontWeight === 700 ? 400 : 700 })} className={`px-2 py-1 text-xs font-bold rounded-md border ${selected.fontWeight === 700 ? 'border-cyan-400 text-white' : 'border-[var(--border-color)] text-gray-300'}`}>B</button>
+                                            <button onClick={() => updateLayer(selected.id, { direction: selected.direction === 'rtl' ? 'ltr' : 'rtl' })} className={`px-2 py-1 text-xs rounded-md border ${selected.direction === 'rtl' ? 'border-cyan-400 text-white' : 'border-[var(--border-color)] text-gray-300'}`}>
+                                                {t('adRtl')}
+                                            </button>
+                                        </div>
+                                    </>
+                                )}
+                                {selected.kind === 'shape' && (
+                                    <>
+                                        <div className="flex gap-2">
+                                            <select
+                                                value={selected.shape}
+                                                onChange={(e) => updateLayer(selected.id, { shape: e.target.value as 'rect' | 'pill' | 'ellipse' })}
+                                                className="flex-1 bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-white"
+                                            >
+                                                {(['rect', 'pill', 'ellipse'] as const).map(shape => <option key={shape} value={shape}>{t(`adShape_${shape}`)}</option>)}
+                                            </select>
+                                            <input type="color" value={selected.fill} onChange={(e) => updateLayer(selected.id, { fill: e.target.value.toUpperCase() })} className="w-9 h-8 bg-transparent border-0 p-0 cursor-pointer" />
+                                        </div>
+                                        <SliderField label={t('adOpacity')} value={selected.opacity * 100} min={0} max={100} onChange={(value) => updateLayer(selected.id, { opacity: value / 100 })} />
+                                    </>
+                                )}
+                                {selected.kind === 'logo' && (
+                                    <div className="flex gap-3">
+                                        <label className="text-xs font-semibold text-cyan-300 hover:text-white cursor-pointer">
+                                            {t('brandKitUploadLogo')}
+                                            <input type="file" accept="image/*" className="hidden" onChange={(e) => handleLogoUpload(selected.id, e.target.files?.[0])} />
+                                        </label>
+                                        {brandLogo && <button onClick={() => updateLayer(selected.id, { image: brandLogo })} className="text-xs font-semibold text-cyan-300 hover:text-white">{t('adUseBrandLogo')}</button>}
+                                    </div>
+                                )}
+                                <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+                                    <SliderField label="X %" value={selected.x * 100} min={0} max={100} onChange={(value) => updateLayer(selected.id, { x: value / 100 })} />
+                                    <SliderField label="Y %" value={selected.y * 100} min={0} max={100} onChange={(value) => updateLayer(selected.id, { y: value / 100 })} />
+                                    <SliderField label={t('adWidth')} value={selected.width * 100} min={2} max={100} onChange={(value) => updateLayer(selected.id, { width: value / 100 })} />
+                                    <SliderField label={t('adHeight')} value={selected.height * 100} min={2} max={100} onChange={(value) => updateLayer(selected.id, { height: value / 100 })} />
+                                </div>
+                            </div>
+                        )}
+                    </aside>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 p-4 border-t border-[var(--border-color)]">
+                    <button onClick={() => downloadBlob(new Blob([serializeAdLayout(layout)], { type: 'application/json' }), 'dd-studio-layout.json')} className="text-sm font-semibold text-cyan-300 hover:text-white">
+                        {t('adExportLayout')}
+                    </button>
+                    <label className="text-sm font-semibold text-cyan-300 hover:text-white cursor-pointer">
+                        {t('adImportLayout')}
+                        <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { handleImportLayout(e.target.files?.[0]); e.target.value = ''; }} />
+                    </label>
+                    {importError && <span className="text-sm text-red-400">{importError}</span>}
+                    <div className="flex-1" />
+                    {(['png', 'jpeg'] as const).map(format => (
+                        <button
+                            key={format}
+                            onClick={() => handleExportImage(format)}
+                            disabled={isExporting}
+                            className={`py-2 px-4 text-sm font-bold rounded-lg border flex items-center gap-2 transition-all ${isExporting ? 'border-gray-600 text-gray-500 cursor-not-allowed' : 'border-white/50 text-gray-100 hover:bg-white/10'}`}
+                        >
+                            <DownloadIcon className="w-4 h-4" /> {format.toUpperCase()}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AdComposer;
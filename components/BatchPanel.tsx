@@ -0,0 +1,214 @@
+import React, { useRef, useState } from 'react';
+import { GenerationParams, ReferenceImage } from '../types';
+import { generateImage } from '../services/aiService';
+import { isCancellation } from '../services/aiErrors';
+import { enforceAspectRatio } from '../services/aspectRatio';
+import { readImageFile } from '../services/imageProcessing';
+import { BATCH_CONCURRENCY_OPTIONS, BatchJob, buildBatchZip, runWithConcurrency, skuFromFileName } from '../services/batch';
+import { downloadBlob } from '../services/zip';
+import { useLanguage, describeAIError } from '../App';
+import { LayersIcon, CloseIcon, RefreshIcon, DownloadIcon } from './Icons';
+
+interface BatchRecipe {
+    params: GenerationParams;
+    references: ReferenceImage[];
+    useMagicComposite: boolean;
+}
+
+interface BatchPanelProps extends BatchRecipe {
+    isOpen: boolean;
+    onClose: () => void;
+    /** How many mockup scenes the Control Panel has selected; a batch renders only the first. */
+    sceneCount: number;
+}
+
+const STATUS_CLASSES: Record<BatchJob['status'], string> = {
+    queued: 'text-gray-300',
+    running: 'text-cyan-300',
+    done: 'text-green-400',
+    failed: 'text-red-400',
+};
+
+// Stays mounted while closed so a running batch keeps going and its results survive reopening.
+const BatchPanel: React.FC<BatchPanelProps> = ({ isOpen, onClose, params, references, useMagicComposite, sceneCount }) => {
+    const { t } = useLanguage();
+    const [jobs, setJobs] = useState<BatchJob[]>([]);
+    const [concurrency, setConcurrency] = useState(2);
+    const [isRunning, setIsRunning] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+    // The recipe in effect when the batch started; retries reuse it even if the controls changed since.
+    const recipeRef = useRef<BatchRecipe | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    if (!isOpen) return null;
+
+    const updateJob = (id: string, patch: Partial<BatchJob>) =>
+        setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+
+    const handleFiles = async (files: FileList | null) => {
+        const images = Array.from(files ?? []).filter(file => file.type.startsWith('image/'));
+        const added = await Promise.all(images.map(async (file, index): Promise<BatchJob> => ({
+            id: `${Date.now()}-${index}-${file.name}`,
+            sku: skuFromFileName(file.name),
+            product: await readImageFile(file),
+            status: 'queued',
+        })));
+        setJobs(prev => [...prev, ...added]);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const runJobs = async (toRun: BatchJob[], recipe: BatchRecipe) => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRunning(true);
+        toRun.forEach(job => updateJob(job.id, { status: 'queued', error: undefined }));
+        try {
+            await runWithConcurrency(toRun, concurrency, async job => {
+                if (controller.signal.aborted) return;
+                updateJob(job.id, { status: 'running' });
+                try {
+                    const image = await generateImage(job.product, recipe.references, recipe.useMagicComposite, recipe.params, { signal: controller.signal });
+                    if (!image) throw new Error(t('batchNoImage'));
+                    const result = await enforceAspectRatio(image, recipe.params.exportSettings, { signal: controller.signal });
+                    updateJob(job.id, { status: 'done', result });
+                } catch (error) {
+                    if (isCancellation(error)) {
+                        updateJob(job.id, { status: 'queued' });
+                        return;
+                    }
+                    console.error(`Batch job "${job.sku}" failed:`, error);
+                    updateJob(job.id, { status: 'failed', error: describeAIError(error, t, t('batchNoImage')) });
+                }
+            });
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const handleStart = () => {
+        recipeRef.current = { params, references, useMagicComposite };
+        runJobs(jobs.filter(job => job.status !== 'done'), recipeRef.current);
+    };
+
+    const handleRetry = (job: BatchJob) => runJobs([job], recipeRef.current ?? { params, references, useMagicComposite });
+
+    const handleDownload = () => downloadBlob(buildBatchZip(jobs), `dd-studio-batch-${new Date().toISOString().slice(0, 10)}.zip`);
+
+    const doneCount = jobs.filter(job => job.status === 'done').length;
+    const failedCount = jobs.filter(job => job.status === 'failed').length;
+    const pendingCount = jobs.length - doneCount;
+    const progress = jobs.length ? ((doneCount + failedCount) / jobs.length) * 100 : 0;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-md z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-[rgba(16,18,42,0.5)] backdrop-blur-2xl border border-[var(--border-color)] rounded-2xl shadow-2xl shadow-black/20 w-full max-w-4xl h-[85vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-[var(--border-color)]">
+                    <div className="flex items-center gap-3">
+                        <LayersIcon className="w-6 h-6 text-cyan-400" />
+                        <h2 className="text-xl font-bold text-gray-100">{t('batchTitle')}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors" aria-label={t('close')}>
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="p-5 border-b border-[var(--border-color)] space-y-3">
+                    <p className="text-sm text-gray-300">{t('batchDescription')}</p>
+                    {sceneCount > 1 && <p className="text-sm text-yellow-300">{t('firstSceneOnly').replace('{count}', String(sceneCount)).replace('{name}', t(params.mockupPreset.name, params.mockupPreset.name))}</p>}
+                    <div className="flex flex-wrap items-center gap-3">
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={isRunning}
+                            className={`py-2 px-4 text-sm font-bold rounded-lg border transition-all ${isRunning ? 'border-gray-600 text-gray-500 cursor-not-allowed' : 'border-cyan-500 text-cyan-300 hover:bg-cyan-500/10'}`}
+                        >
+                            {t('batchAddProducts')}
+                        </button>
+                        <input type="file" ref={fileInputRef} multiple accept="image/*" className="hidden" onChange={(e) => handleFiles(e.target.files)} />
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            {t('batchConcurrency')}
+                            <select
+                                value={concurrency}
+                                onChange={(e) => setConcurrency(Number(e.target.value))}
+                                disabled={isRunning}
+                                className="bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-white"
+                            >
+                                {BATCH_CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                            </select>
+                        </label>
+                        <div className="flex-1" />
+                        {isRunning ? (
+                            <button onClick={() => controllerRef.current?.abort()} className="py-2 px-4 text-sm font-bold rounded-lg border border-red-400 text-red-300 hover:bg-red-500/10">
+                                {t('cancelGeneration')}
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleStart}
+                                disabled={pendingCount === 0}
+                                className={`py-2 px-5 text-sm font-bold rounded-lg transition-all ${pendingCount === 0 ? 'bg-gray-700/50 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white'}`}
+                            >
+                                {t('batchStart').replace('{count}', String(pendingCount))}
+                            </button>
+                        )}
+                        <button
+                            onClick={handleDownload}
+                            disabled={doneCount === 0}
+                            className={`py-2 px-4 text-sm font-bold rounded-lg border flex items-center gap-2 transition-all ${doneCount === 0 ? 'border-gray-600 text-gray-500 cursor-not-allowed' : 'border-white/50 text-gray-100 hover:bg-white/10'}`}
+                        >
+                            <DownloadIcon className="w-4 h-4" /> {t('batchDownloadZip')}
+                        </button>
+                    </div>
+                    {jobs.length > 0 && (
+                        <div>
+                            <div className="h-2 bg-black/30 rounded-full overflow-hidden">
+                                <div className="h-full bg-gradient-to-r from-cyan-500 to-sky-500 transition-all duration-300" style={{ width: `${progress}%` }} />
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1">
+                                {t('batchProgress').replace('{done}', String(doneCount)).replace('{total}', String(jobs.length)).replace('{failed}', String(failedCount))}
+                            </p>
+                        </div>
+                    )}
+                </div>
+                <ul
+                    className="flex-1 overflow-y-auto p-5 space-y-2"
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => { e.preventDefault(); if (!isRunning) handleFiles(e.dataTransfer.files); }}
+                >
+                    {jobs.length === 0 && <li className="text-center text-sm text-gray-400 py-8">{t('batchEmpty')}</li>}
+                    {jobs.map(job => (
+                        <li key={job.id} className="flex items-center gap-3 bg-white/5 rounded-lg p-2">
+                            <img src={`data:${job.product.mimeType};base64,${job.product.base64}`} alt={job.sku} className="w-12 h-12 object-cover rounded-md" />
+                            <span className="text-gray-400">→</span>
+                            {job.result
+                                ? <img src={`data:${job.result.mimeType};base64,${job.result.base64}`} alt={job.sku} className="w-12 h-12 object-cover rounded-md" />
+                                : <div className="w-12 h-12 rounded-md bg-black/30 flex items-center justify-center">{job.status === 'running' && <div className="w-5 h-5 border-2 border-t-white border-white/30 rounded-full animate-spin" />}</div>}
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-semibold text-gray-100 truncate">{job.sku}</p>
+                                <p className={`text-xs truncate ${STATUS_CLASSES[job.status]}`} title={job.error}>{job.error ?? t(`batchStatus_${job.status}`)}</p>
+                            </div>
+                            {job.status === 'failed' && !isRunning && (
+                                <button onClick={() => handleRetry(job)} className="text-xs font-semibold text-cyan-300 hover:text-white flex items-center gap-1">
+                                    <RefreshIcon className="w-4 h-4" /> {t('batchRetry')}
+                                </button>
+                            )}
+                            {!isRunning && (
+                                <button onClick={() => setJobs(prev => prev.filter(j => j.id !== job.id))} className="text-gray-400 hover:text-red-400" aria-label={t('batchRemove')}>
+                                    <CloseIcon className="w-4 h-4" />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+export default BatchPanel;
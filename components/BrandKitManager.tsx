@@ -0,0 +1,226 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { BrandKit } from '../types';
+import { createBrandKit, deleteBrandKit, getBrandKitState, normalizeHexColor, saveBrandKit, setActiveBrandKit, subscribeToBrandKits } from '../services/brandKitStore';
+import { readImageFile } from '../services/imageProcessing';
+import { useLanguage } from '../App';
+import { CloseIcon, PaintBrushIcon, CheckIcon } from './Icons';
+
+interface ColorListEditorProps {
+    title: string;
+    colors: string[];
+    onChange: (colors: string[]) => void;
+}
+
+const ColorListEditor: React.FC<ColorListEditorProps> = ({ title, colors, onChange }) => {
+    const { t } = useLanguage();
+    const [input, setInput] = useState('#000000');
+    const normalized = normalizeHexColor(input);
+
+    const handleAdd = () => {
+        if (normalized && !colors.includes(normalized)) onChange([...colors, normalized]);
+    };
+
+    return (
+        <div>
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-300 mb-2">{title}</h3>
+            <div className="flex flex-wrap gap-2 mb-2">
+                {colors.map(color => (
+                    <span key={color} className="flex items-center gap-1.5 bg-white/5 rounded-full ps-1 pe-2 py-1 text-xs text-gray-200">
+                        <span className="w-4 h-4 rounded-full border border-white/30" style={{ backgroundColor: color }} />
+                        {color}
+                        <button onClick={() => onChange(colors.filter(c => c !== color))} className="text-gray-400 hover:text-red-400" aria-label={t('brandKitRemoveColor')}>
+                            <CloseIcon className="w-3 h-3" />
+                        </button>
+                    </span>
+                ))}
+            </div>
+            <div className="flex items-center gap-2">
+                <input type="color" value={normalized ?? '#000000'} onChange={(e) => setInput(e.target.value)} className="w-8 h-8 bg-transparent border-0 p-0 cursor-pointer" />
+                <input
+                    type="text"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                    className={`w-28 bg-black/20 border rounded-md px-2 py-1 text-sm text-white font-mono ${normalized ? 'border-[var(--border-color)]' : 'border-red-500/60'}`}
+                />
+                <button onClick={handleAdd} disabled={!normalized} className="text-xs font-semibold text-cyan-300 hover:text-white disabled:text-gray-500">
+                    {t('brandKitAddColor')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+interface BrandKitManagerProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const BrandKitManager: React.FC<BrandKitManagerProps> = ({ isOpen, onClose }) => {
+    const { t } = useLanguage();
+    const { kits, activeId } = useSyncExternalStore(subscribeToBrandKits, getBrandKitState);
+    const [draft, setDraft] = useState<BrandKit | null>(() => kits.find(kit => kit.id === activeId) ?? kits[0] ?? null);
+    const [moodText, setMoodText] = useState(() => draft?.moodWords.join(', ') ?? '');
+    const [saveError, setSaveError] = useState<string | null>(null);
+    if (!isOpen) return null;
+
+    const isSaved = !!draft && kits.some(kit => kit.id === draft.id);
+
+    const editKit = (kit: BrandKit) => {
+        setDraft(kit);
+        setMoodText(kit.moodWords.join(', '));
+        setSaveError(null);
+    };
+
+    const update = (patch: Partial<BrandKit>) => setDraft(prev => prev && { ...prev, ...patch });
+
+    const handleSave = () => {
+        if (!draft) return;
+        const kit = { ...draft, name: draft.name.trim() || t('brandKitUntitled'), moodWords: moodText.split(',').map(word => word.trim()).filter(Boolean) };
+        try {
+            saveBrandKit(kit);
+            setDraft(kit);
+            setSaveError(null);
+        } catch (error) {
+            console.error('Failed to save brand kit:', error);
+            setSaveError(t('brandKitSaveFailed'));
+        }
+    };
+
+    const handleDelete = () => {
+        if (!draft) return;
+        deleteBrandKit(draft.id);
+        const next = kits.find(kit => kit.id !== draft.id);
+        if (next) editKit(next); else setDraft(null);
+    };
+
+    const handleLogoChange = async (file: File | undefined) => {
+        if (!file) return;
+        const { base64, mimeType } = await readImageFile(file);
+        update({ logo: { base64, mimeType } });
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-md z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-[rgba(16,18,42,0.5)] backdrop-blur-2xl border border-[var(--border-color)] rounded-2xl shadow-2xl shadow-black/20 w-full max-w-4xl h-[85vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-[var(--border-color)]">
+                    <div className="flex items-center gap-3">
+                        <PaintBrushIcon className="w-6 h-6 text-cyan-400" />
+                        <h2 className="text-xl font-bold text-gray-100">{t('brandKitTitle')}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors" aria-label={t('close')}>
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="flex-1 flex min-h-0">
+                    <aside className="w-60 border-e border-[var(--border-color)] p-3 flex flex-col gap-2 overflow-y-auto">
+                        <button
+                            onClick={() => setActiveBrandKit(null)}
+                            className={`text-start p-2 rounded-lg text-sm transition-colors ${activeId === null ? 'bg-cyan-500/20 text-white' : 'text-gray-300 hover:bg-white/5'}`}
+                        >
+                            {t('brandKitNone')}
+                        </button>
+                        {kits.map(kit => (
+                            <button
+                                key={kit.id}
+                                onClick={() => editKit(kit)}
+                                className={`text-start p-2 rounded-lg transition-colors ${draft?.id === kit.id ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                            >
+                                <span className="flex items-center justify-between gap-2 text-sm font-semibold text-gray-100">
+                                    <span className="truncate">{kit.name}</span>
+                                    {kit.id === activeId && <CheckIcon className="w-4 h-4 text-cyan-400 flex-shrink-0" />}
+                                </span>
+                                <span className="flex gap-1 mt-1">
+                                    {kit.colors.slice(0, 8).map(color => <span key={color} className="w-3 h-3 rounded-full border border-white/20" style={{ backgroundColor: color }} />)}
+                                </span>
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => editKit(createBrandKit(''))}
+                            className="mt-auto py-2 text-sm font-semibold text-cyan-300 border border-dashed border-cyan-500/50 rounded-lg hover:bg-cyan-500/10 transition-colors"
+                        >
+                            {t('brandKitNew')}
+                        </button>
+                    </aside>
+                    {draft ? (
+                        <div className="flex-1 p-5 space-y-5 overflow-y-auto">
+                            <label className="block">
+                                <span className="text-xs font-semibold uppercase tracking-wider text-gray-300">{t('brandKitName')}</span>
+                                <input
+                                    type="text"
+                                    value={draft.name}
+                                    onChange={(e) => update({ name: e.target.value })}
+                                    placeholder={t('brandKitUntitled')}
+                                    className="mt-2 w-full bg-black/20 border border-[var(--border-color)] rounded-lg px-3 py-2 text-white placeholder-gray-500"
+                                />
+                            </label>
+                            <ColorListEditor title={t('brandKitColors')} colors={draft.colors} onChange={(colors) => update({ colors })} />
+                            <ColorListEditor title={t('brandKitBannedColors')} colors={draft.bannedColors} onChange={(bannedColors) => update({ bannedColors })} />
+                            <label className="block">
+                                <span className="text-xs font-semibold uppercase tracking-wider text-gray-300">{t('brandKitMoodWords')}</span>
+                                <input
+                                    type="text"
+                                    value={moodText}
+                                    onChange={(e) => setMoodText(e.target.value)}
+                                    placeholder={t('brandKitMoodWordsPlaceholder')}
+                                    className="mt-2 w-full bg-black/20 border border-[var(--border-color)] rounded-lg px-3 py-2 text-white placeholder-gray-500"
+                                />
+                            </label>
+                            <div>
+                                <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-300 mb-2">{t('brandKitLogo')}</h3>
+                                <div className="flex items-center gap-4">
+                                    <div className="w-20 h-20 rounded-lg bg-[repeating-conic-gradient(#ffffff14_0%_25%,transparent_0%_50%)] bg-[length:16px_16px] border border-[var(--border-color)] flex items-center justify-center overflow-hidden">
+                                        {draft.logo && <img src={`data:${draft.logo.mimeType};base64,${draft.logo.base64}`} alt={t('brandKitLogo')} className="max-w-full max-h-full object-contain" />}
+                                    </div>
+                                    <div className="space-y-2">
+                                        <div className="flex gap-3">
+                                            <label className="text-xs font-semibold text-cyan-300 hover:text-white cursor-pointer">
+                                                {t('brandKitUploadLogo')}
+                                                <input type="file" accept="image/*" className="hidden" onChange={(e) => handleLogoChange(e.target.files?.[0])} />
+                                            </label>
+                                            {draft.logo && (
+                                                <button onClick={() => update({ logo: null })} className="text-xs font-semibold text-gray-400 hover:text-red-400">{t('brandKitRemoveLogo')}</button>
+                                            )}
+                                        </div>
+                                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                                            <input type="checkbox" checked={draft.attachLogo} onChange={(e) => update({ attachLogo: e.target.checked })} className="accent-cyan-500" />
+                                            {t('brandKitAttachLogo')}
+                                        </label>
+                                    </div>
+                                </div>
+                            </div>
+                            {saveError && <p className="text-sm text-red-400">{saveError}</p>}
+                            <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-[var(--border-color)]">
+                                <button onClick={handleSave} className="py-2 px-5 text-sm font-bold rounded-lg bg-gradient-to-r from-cyan-500 to-sky-500 text-white">
+                                    {t('brandKitSave')}
+                                </button>
+                                {isSaved && draft.id !== activeId && (
+                                    <button onClick={() => setActiveBrandKit(draft.id)} className="py-2 px-4 text-sm font-bold rounded-lg border border-cyan-500 text-cyan-300 hover:bg-cyan-500/10">
+                                        {t('brandKitActivate')}
+                                    </button>
+                                )}
+                                {isSaved && draft.id === activeId && <span className="text-sm text-cyan-300">{t('brandKitActive')}</span>}
+                                <div className="flex-1" />
+                                {isSaved && (
+                                    <button onClick={handleDelete} className="text-sm font-semibold text-gray-400 hover:text-red-400">{t('brandKitDelete')}</button>
+                                )}
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="flex-1 flex items-center justify-center p-8 text-sm text-gray-400 text-center">{t('brandKitEmpty')}</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BrandKitManager;
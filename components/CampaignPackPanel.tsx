@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, GenerationParams, ImageFile } from '../types';
+import { GeneratedImage } from '../services/aiService';
+import { isCancellation } from '../services/aiErrors';
+import { parseAspectRatio } from '../services/aspectRatio';
+import { BatchJobStatus, runWithConcurrency } from '../services/batch';
+import { CAMPAIGN_METHODS, CampaignFormat, CampaignMethod, buildCampaignZip, createCampaignFormat, getCampaignFormats, renderCampaignFormat, saveCampaignFormats } from '../services/campaignPack';
+import { downloadBlob } from '../services/zip';
+import { useLanguage, describeAIError } from '../App';
+import { ExportIcon, CloseIcon, RefreshIcon, DownloadIcon } from './Icons';
+
+interface CampaignPackPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    hero: GeneratedImage;
+    productImage: ImageFile;
+    params: GenerationParams;
+}
+
+interface FormatResult {
+    status: BatchJobStatus;
+    image?: GeneratedImage;
+    error?: string;
+}
+
+const CAMPAIGN_CONCURRENCY = 2;
+
+const STATUS_CLASSES: Record<BatchJobStatus, string> = {
+    queued: 'text-gray-300',
+    running: 'text-cyan-300',
+    done: 'text-green-400',
+    failed: 'text-red-400',
+};
+
+const inputClasses = 'bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-sm text-white disabled:text-gray-500';
+
+// The ratio is edited as free text and only written back once it parses.
+const RatioInput: React.FC<{ value: AspectRatio; disabled: boolean; onChange: (ratio: AspectRatio) => void }> = ({ value, disabled, onChange }) => {
+    const [draft, setDraft] = useState<string>(value);
+    const isValid = !!parseAspectRatio(draft);
+    return (
+        <input
+            type="text"
+            value={draft}
+            disabled={disabled}
+            onChange={(e) => {
+                setDraft(e.target.value);
+                if (parseAspectRatio(e.target.value)) onChange(e.target.value.replace(/\s/g, '') as AspectRatio);
+            }}
+            className={`${inputClasses} w-20 font-mono ${isValid ? '' : 'border-red-500'}`}
+            placeholder="4:5"
+        />
+    );
+};
+
+const CampaignPackPanel: React.FC<CampaignPackPanelProps> = ({ isOpen, onClose, hero, productImage, params }) => {
+    const { t } = useLanguage();
+    const [formats, setFormats] = useState<CampaignFormat[]>(getCampaignFormats);
+    const [results, setResults] = useState<Record<string, FormatResult>>({});
+    const [campaignName, setCampaignName] = useState('campaign');
+    const [isRunning, setIsRunning] = useState(false);
+    const [downloadError, setDownloadError] = useState<string | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    if (!isOpen) return null;
+
+    const updateFormats = (next: CampaignFormat[]) => {
+        setFormats(next);
+        saveCampaignFormats(next);
+    };
+    // An edited format no longer matches its earlier output, so that output is dropped.
+    const updateFormat = (id: string, patch: Partial<CampaignFormat>) => {
+        updateFormats(formats.map(format => format.id === id ? { ...format, ...patch } : format));
+        setResults(({ [id]: _stale, ...rest }) => rest);
+    };
+    const updateResult = (id: string, result: FormatResult) => setResults(prev => ({ ...prev, [id]: result }));
+
+    const runFormats = async (toRun: CampaignFormat[]) => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRunning(true);
+        toRun.forEach(format => updateResult(format.id, { status: 'queued' }));
+        try {
+            await runWithConcurrency(toRun, CAMPAIGN_CONCURRENCY, async format => {
+                if (controller.signal.aborted) return;
+                updateResult(format.id, { status: 'running' });
+                try {
+                    const image = await renderCampaignFormat({ hero, productImage, params }, format, { signal: controller.signal });
+                    updateResult(format.id, { status: 'done', image });
+                } catch (error) {
+                    if (isCancellation(error)) {
+                        updateResult(format.id, { status: 'queued' });
+                        return;
+                    }
+                    console.error(`Campaign format "${format.name}" failed:`, error);
+                    updateResult(format.id, { status: 'failed', error: describeAIError(error, t, t('batchNoImage')) });
+                }
+            });
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const pending = formats.filter(format => results[format.id]?.status !== 'done');
+    const outputs = formats.flatMap(format => {
+        const image = results[format.id]?.image;
+        return image ? [{ format, image }] : [];
+    });
+
+    const handleDownload = async () => {
+        const name = campaignName.trim() || 'campaign';
+        setDownloadError(null);
+        try {
+            downloadBlob(await buildCampaignZip(hero, outputs, name), `${name}-${new Date().toISOString().slice(0, 10)}.zip`);
+        } catch (error) {
+            console.error('Could not build the campaign zip:', error);
+            setDownloadError(t('campaignDownloadFailed'));
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-md z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-[rgba(16,18,42,0.5)] backdrop-blur-2xl border border-[var(--border-color)] rounded-2xl shadow-2xl shadow-black/20 w-full max-w-4xl h-[85vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-[var(--border-color)]">
+                    <div className="flex items-center gap-3">
+                        <ExportIcon className="w-6 h-6 text-cyan-400" />
+                        <h2 className="text-xl font-bold text-gray-100">{t('campaignTitle')}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors" aria-label={t('close')}>
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="p-5 border-b border-[var(--border-color)] space-y-3">
+                    <p className="text-sm text-gray-300">{t('campaignDescription')}</p>
+                    <div className="flex flex-wrap items-center gap-3">
+                        <img src={`data:${hero.mimeType};base64,${hero.base64}`} alt={t('campaignHero')} className="w-14 h-14 object-cover rounded-md border border-white/20" />
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            {t('campaignName')}
+                            <input type="text" value={campaignName} onChange={(e) => setCampaignName(e.target.value)} className={`${inputClasses} w-40`} />
+                        </label>
+                        <div className="flex-1" />
+                        {isRunning ? (
+                            <button onClick={() => controllerRef.current?.abort()} className="py-2 px-4 text-sm font-bold rounded-lg border border-red-400 text-red-300 hover:bg-red-500/10">
+                                {t('cancelGeneration')}
+                            </button>
+                        ) : (
+                            <button
+                                onClick={() => runFormats(pending)}
+                                disabled={pending.length === 0}
+                                className={`py-2 px-5 text-sm font-bold rounded-lg transition-all ${pending.length === 0 ? 'bg-gray-700/50 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white'}`}
+                            >
+                                {t('campaignStart').replace('{count}', String(pending.length))}
+                            </button>
+                        )}
+                        <button
+                            onClick={handleDownload}
+                            disabled={outputs.length === 0}
+                            className={`py-2 px-4 text-sm font-bold rounded-lg border flex items-center gap-2 transition-all ${outputs.length === 0 ? 'border-gray-600 text-gray-500 cursor-not-allowed' : 'border-white/50 text-gray-100 hover:bg-white/10'}`}
+                        >
+                            <DownloadIcon className="w-4 h-4" /> {t('batchDownloadZip')}
+                        </button>
+                    </div>
+                    {downloadError && <p className="text-sm text-red-400" role="alert">{downloadError}</p>}
+                </div>
+                <ul className="flex-1 overflow-y-auto p-5 space-y-2">
+                    {formats.map(format => {
+                        const result = results[format.id];
+                        return (
+                            <li key={format.id} className="flex flex-wrap items-center gap-3 bg-white/5 rounded-lg p-2">
+                                {result?.image
+                                    ? <img src={`data:${result.image.mimeType};base64,${result.image.base64}`} alt={format.name} className="w-12 h-12 object-contain rounded-md bg-black/30" />
+                                    : <div className="w-12 h-12 rounded-md bg-black/30 flex items-center justify-center">{result?.status === 'running' && <div className="w-5 h-5 border-2 border-t-white border-white/30 rounded-full animate-spin" />}</div>}
+                                <input
+                                    type="text"
+                                    value={format.name}
+                                    disabled={isRunning}
+                                    onChange={(e) => updateFormat(format.id, { name: e.target.value })}
+                                    placeholder={t('campaignFormatName')}
+                                    className={`${inputClasses} w-36`}
+                                />
+                                <RatioInput value={format.aspectRatio} disabled={isRunning} onChange={(aspectRatio) => updateFormat(format.id, { aspectRatio })} />
+                                <select
+                                    value={format.method}
+                                    disabled={isRunning}
+                                    onChange={(e) => updateFormat(format.id, { method: e.target.value as CampaignMethod })}
+                                    className={inputClasses}
+                                >
+                                    {CAMPAIGN_METHODS.map(method => <option key={method} value={method}>{t(`campaignMethod_${method}`)}</option>)}
+                                </select>
+                                <p className={`flex-1 min-w-0 text-xs truncate ${STATUS_CLASSES[result?.status ?? 'queued']}`} title={result?.error}>
+                                    {result?.error ?? (result ? t(`batchStatus_${result.status}`) : '')}
+                                </p>
+                                {result?.status === 'failed' && !isRunning && (
+                                    <button onClick={() => runFormats([format])} className="text-xs font-semibold text-cyan-300 hover:text-white flex items-center gap-1">
+                                        <RefreshIcon className="w-4 h-4" /> {t('batchRetry')}
+                                    </button>
+                                )}
+                                {!isRunning && (
+                                    <button onClick={() => updateFormats(formats.filter(f => f.id !== format.id))} className="text-gray-400 hover:text-red-400" aria-label={t('campaignRemoveFormat')}>
+                                        <CloseIcon className="w-4 h-4" />
+                                    </button>
+                                )}
+                            </li>
+                        );
+                    })}
+                    <li>
+                        <button
+                            onClick={() => updateFormats([...formats, createCampaignFormat()])}
+                            disabled={isRunning}
+                            className="text-sm font-semibold text-cyan-300 hover:text-white disabled:text-gray-500"
+                        >
+                            + {t('campaignAddFormat')}
+                        </button>
+                    </li>
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+export default CampaignPackPanel;
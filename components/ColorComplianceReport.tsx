@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { ImageFile } from '../types';
+import { ComplianceReport, ComplianceStatus, DELTA_E_PASS, DELTA_E_WARN, checkColorCompliance, extractPalette, sampleColor } from '../services/colorCompliance';
+import { getActiveBrandKit, normalizeHexColor } from '../services/brandKitStore';
+import { useLanguage } from '../App';
+import { CloseIcon, EyeIcon } from './Icons';
+
+interface ColorComplianceReportProps {
+    image: { base64: string; mimeType: string };
+    sourceImage: ImageFile | null;
+}
+
+const STATUS_CLASSES: Record<ComplianceStatus, string> = {
+    pass: 'text-green-300 bg-green-500/10 border-green-500/40',
+    warn: 'text-yellow-200 bg-yellow-500/10 border-yellow-500/40',
+    fail: 'text-red-300 bg-red-500/10 border-red-500/40',
+};
+
+const Swatch: React.FC<{ color: string; className?: string }> = ({ color, className = 'w-6 h-6' }) => (
+    <span className={`inline-block rounded-md border border-white/30 flex-shrink-0 ${className}`} style={{ backgroundColor: color }} title={color} />
+);
+
+// Target colors start from the active brand kit and can be edited or sampled from the source image.
+const ColorComplianceReport: React.FC<ColorComplianceReportProps> = ({ image, sourceImage }) => {
+    const { t } = useLanguage();
+    const [isOpen, setIsOpen] = useState(false);
+    const [targets, setTargets] = useState<string[]>(() => getActiveBrandKit()?.colors ?? []);
+    const [input, setInput] = useState('');
+    const [isSampling, setIsSampling] = useState(false);
+    const [report, setReport] = useState<ComplianceReport | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let isCurrent = true;
+        extractPalette(image)
+            .then(palette => { if (isCurrent) setReport(checkColorCompliance(palette, targets)); })
+            .catch(error => console.error('Palette extraction failed:', error));
+        return () => { isCurrent = false; };
+    }, [image, targets, isOpen]);
+
+    const addTarget = (value: string) => {
+        const hex = normalizeHexColor(value);
+        if (hex && !targets.includes(hex)) setTargets(prev => [...prev, hex]);
+    };
+
+    const handleSample = async (e: React.MouseEvent<HTMLImageElement>) => {
+        if (!sourceImage || !isSampling) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        addTarget(await sampleColor(sourceImage, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height));
+        setIsSampling(false);
+    };
+
+    const brandColors = getActiveBrandKit()?.colors ?? [];
+
+    return (
+        <div className="w-full px-2 pt-3">
+            <button onClick={() => setIsOpen(prev => !prev)} className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-gray-300 hover:text-white">
+                {t('complianceTitle')}
+                {report && targets.length > 0 && (
+                    <span className={`normal-case tracking-normal px-2 py-0.5 rounded-full border ${STATUS_CLASSES[report.status]}`}>{t(`complianceStatus_${report.status}`)}</span>
+                )}
+                <span className="text-gray-500">{isOpen ? '▾' : '▸'}</span>
+            </button>
+            {isOpen && (
+                <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-4 bg-black/20 border border-[var(--border-color)] rounded-lg p-3 text-sm">
+                    <div className="space-y-3">
+                        <div>
+                            <p className="text-xs text-gray-400 mb-1">{t('compliancePalette')}</p>
+                            <div className="flex h-6 rounded-md overflow-hidden border border-white/20">
+                                {report?.palette.map(color => <span key={color.hex} style={{ backgroundColor: color.hex, width: `${color.share * 100}%` }} title={`${color.hex} · ${Math.round(color.share * 100)}%`} />)}
+                            </div>
+                        </div>
+                        <div>
+                            <p className="text-xs text-gray-400 mb-1">{t('complianceTargets')}</p>
+                            <div className="flex flex-wrap gap-1.5 mb-2">
+                                {targets.map(color => (
+                                    <span key={color} className="flex items-center gap-1 bg-white/5 rounded-full ps-1 pe-2 py-0.5 text-xs text-gray-200">
+                                        <Swatch color={color} className="w-4 h-4 rounded-full" />
+                                        {color}
+                                        <button onClick={() => setTargets(prev => prev.filter(c => c !== color))} className="text-gray-400 hover:text-red-400" aria-label={t('brandKitRemoveColor')}>
+                                            <CloseIcon className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={input}
+                                    onChange={(e) => setInput(e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') { addTarget(input); setInput(''); } }}
+                                    placeholder="#C8102E"
+                                    className="w-24 bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-xs text-white font-mono"
+                                />
+                                <button onClick={() => { addTarget(input); setInput(''); }} disabled={!normalizeHexColor(input)} className="text-xs font-semibold text-cyan-300 hover:text-white disabled:text-gray-500">
+                                    {t('brandKitAddColor')}
+                                </button>
+                                {sourceImage && (
+                                    <button onClick={() => setIsSampling(prev => !prev)} className={`flex items-center gap-1 text-xs font-semibold ${isSampling ? 'text-white' : 'text-cyan-300 hover:text-white'}`}>
+                                        <EyeIcon className="w-4 h-4" /> {isSampling ? t('complianceSamplingHint') : t('complianceEyedropper')}
+                                    </button>
+                                )}
+                                {brandColors.length > 0 && (
+                                    <button onClick={() => setTargets(brandColors)} className="text-xs font-semibold text-cyan-300 hover:text-white">{t('complianceUseBrandKit')}</button>
+                                )}
+                            </div>
+                            {isSampling && sourceImage && (
+                                <img
+                                    src={`data:${sourceImage.mimeType};base64,${sourceImage.base64}`}
+                                    alt={t('productImageTitle')}
+                                    onClick={handleSample}
+                                    className="mt-2 max-h-40 rounded-md border border-cyan-500/50 cursor-crosshair"
+                                />
+                            )}
+                        </div>
+                    </div>
+                    <div>
+                        {targets.length === 0 ? (
+                            <p className="text-xs text-gray-400">{t('complianceNoTargets')}</p>
+                        ) : (
+                            <ul className="space-y-1.5">
+                                {report?.matches.map(match => (
+                                    <li key={match.target} className="flex items-center gap-2">
+                                        <Swatch color={match.target} />
+                                        <span className="text-gray-500">→</span>
+                                        {match.closest ? <Swatch color={match.closest.hex} /> : <span className="w-6 h-6" />}
+                                        <span className="flex-1 text-xs text-gray-300 font-mono">
+                                            {match.target}{match.closest && ` · ΔE ${match.deltaE.toFixed(1)}`}
+                                        </span>
+                                        <span className={`text-xs px-2 py-0.5 rounded-full border ${STATUS_CLASSES[match.status]}`}>{t(`complianceStatus_${match.status}`)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <p className="text-[11px] text-gray-500 mt-2">
+                            {t('complianceLegend').replace('{pass}', String(DELTA_E_PASS)).replace('{warn}', String(DELTA_E_WARN))}
+                        </p>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ColorComplianceReport;
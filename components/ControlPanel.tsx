@@ -1,10 +1,14 @@
-import React from 'react';
-import { CameraPreset, LightingPreset, MockupPreset, ManipulationPreset, RetouchPreset, PeopleRetouchPreset, ExportSettings, ImageFile, UpscaleTarget } from '../types';
-import { CAMERA_PRESETS, LIGHTING_PRESETS, MOCKUP_PRESETS, MANIPULATION_PRESETS, RETOUCH_PRESETS, PEOPLE_RETOUCH_PRESETS } from '../constants';
-import { CameraIcon, SunIcon, CubeTransparentIcon, WandIcon, LayersIcon, UserIcon, CogIcon, ArrowsExpandIcon, DownloadIcon } from './Icons';
+import React, { useSyncExternalStore } from 'react';
+import { CameraPreset, LightingPreset, MockupPreset, ManipulationPreset, RetouchPreset, PeopleRetouchPreset, ExportSettings, ReferenceImage, UpscaleTarget, PresetCategory, PresetSuggestion } from '../types';
+import { VARIATION_COUNTS } from '../constants';
+import { getPresets } from '../services/presetCatalog';
+import { getCustomPresets, subscribeToCustomPresets } from '../services/customPresetStore';
+import { CameraIcon, SunIcon, CubeTransparentIcon, WandIcon, LayersIcon, UserIcon, CogIcon, ArrowsExpandIcon, DownloadIcon, EyeIcon, ExportIcon } from './Icons';
 import AccordionItem from './AccordionItem';
 import PresetSelector from './PresetSelector';
 import ExportControls from './ExportControls';
+import PresetConflicts from './PresetConflicts';
+import { PresetConflict, PresetConflictFix, conflictCategories } from '../services/presetRules';
 import { useLanguage } from '../App';
 
 interface ControlPanelProps {
@@ -22,10 +26,13 @@ interface ControlPanelProps {
     onRetouchSelect: (preset: RetouchPreset) => void;
     exportSettings: ExportSettings;
     setExportSettings: (settings: ExportSettings) => void;
-    referenceImage: ImageFile | null;
+    references: ReferenceImage[];
+    variationCount: number;
+    onVariationCountChange: (count: number) => void;
     isAnalyzing: boolean;
-    suggestedPresetIds: Record<string, string[]>;
+    suggestedPresets: Partial<Record<PresetCategory, PresetSuggestion[]>>;
     onGenerate: () => void;
+    onViewPrompt: () => void;
     canGenerate: boolean;
     isLoading: boolean;
     generatedImage: { base64: string; mimeType: string } | null;
@@ -35,6 +42,11 @@ interface ControlPanelProps {
     upscaleMenuRef: React.RefObject<HTMLDivElement>;
     isUpscaleMenuOpen: boolean;
     setIsUpscaleMenuOpen: React.Dispatch<React.SetStateAction<boolean>>;
+    onOpenAdComposer: () => void;
+    onOpenCampaignPack: () => void;
+    conflicts: PresetConflict[];
+    onResolveConflict: (fix: PresetConflictFix) => void;
+    onOpenPresetManager: () => void;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
@@ -52,10 +64,13 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     onRetouchSelect,
     exportSettings,
     setExportSettings,
-    referenceImage,
+    references,
+    variationCount,
+    onVariationCountChange,
     isAnalyzing,
-    suggestedPresetIds,
+    suggestedPresets,
     onGenerate,
+    onViewPrompt,
     canGenerate,
     isLoading,
     generatedImage,
@@ -65,48 +80,80 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     upscaleMenuRef,
     isUpscaleMenuOpen,
     setIsUpscaleMenuOpen,
+    onOpenAdComposer,
+    onOpenCampaignPack,
+    conflicts,
+    onResolveConflict,
+    onOpenPresetManager,
 }) => {
     const { t } = useLanguage();
+    // Re-renders the sections when the user adds, edits or deletes a preset.
+    useSyncExternalStore(subscribeToCustomPresets, getCustomPresets);
+    const conflicted = new Set(conflicts.flatMap(conflictCategories));
+    const warningFor = (category: PresetCategory) => conflicted.has(category) ? t('presetConflictsTitle') : undefined;
+    // Conflicting presets would be concatenated into a contradictory prompt, so they block generation.
+    const isGenerateEnabled = canGenerate && conflicts.length === 0;
     return (
         <div className="flex-grow flex flex-col min-h-0">
             {/* Scrollable controls */}
             <div className="flex-grow overflow-y-auto p-4">
                 <div className="space-y-2">
-                    <AccordionItem title={t('camera')} icon={<CameraIcon className="w-6 h-6 text-cyan-400" />} isOpenDefault={false} isAnalyzing={isAnalyzing}>
-                        <PresetSelector presets={CAMERA_PRESETS} selectedPresets={selectedCameras} onSelect={onCameraSelect} suggestedIds={suggestedPresetIds.camera} />
+                    <AccordionItem title={t('camera')} icon={<CameraIcon className="w-6 h-6 text-cyan-400" />} isOpenDefault={false} isAnalyzing={isAnalyzing} warning={warningFor('camera')}>
+                        <PresetSelector presets={getPresets('camera')} selectedPresets={selectedCameras} onSelect={onCameraSelect} suggestions={suggestedPresets.camera} />
                     </AccordionItem>
-                    <AccordionItem title={t('lighting')} icon={<SunIcon className="w-6 h-6 text-cyan-400" />} isAnalyzing={isAnalyzing}>
-                        <PresetSelector presets={LIGHTING_PRESETS} selectedPresets={selectedLightings} onSelect={onLightingSelect} suggestedIds={suggestedPresetIds.lighting} />
+                    <AccordionItem title={t('lighting')} icon={<SunIcon className="w-6 h-6 text-cyan-400" />} isAnalyzing={isAnalyzing} warning={warningFor('lighting')}>
+                        <PresetSelector presets={getPresets('lighting')} selectedPresets={selectedLightings} onSelect={onLightingSelect} suggestions={suggestedPresets.lighting} />
                     </AccordionItem>
                     <AccordionItem
                         title={t('mockup')}
                         icon={<CubeTransparentIcon className="w-6 h-6 text-cyan-400" />}
+                        isAnalyzing={isAnalyzing}
+                        warning={warningFor('mockup')}
                     >
-                        <PresetSelector presets={MOCKUP_PRESETS} selectedPresets={selectedMockups} onSelect={onMockupSelect} />
+                        <PresetSelector presets={getPresets('mockup')} selectedPresets={selectedMockups} onSelect={onMockupSelect} suggestions={suggestedPresets.mockup} />
                     </AccordionItem>
-                    <AccordionItem title={t('manipulation')} icon={<LayersIcon className="w-6 h-6 text-cyan-400" />} isAnalyzing={isAnalyzing}>
-                        <PresetSelector presets={MANIPULATION_PRESETS} selectedPresets={selectedManipulations} onSelect={onManipulationSelect} suggestedIds={suggestedPresetIds.manipulation} />
+                    <AccordionItem title={t('manipulation')} icon={<LayersIcon className="w-6 h-6 text-cyan-400" />} isAnalyzing={isAnalyzing} warning={warningFor('manipulation')}>
+                        <PresetSelector presets={getPresets('manipulation')} selectedPresets={selectedManipulations} onSelect={onManipulationSelect} suggestions={suggestedPresets.manipulation} />
                     </AccordionItem>
-                    <AccordionItem title={t('productRetouch')} icon={<WandIcon className="w-6 h-6 text-cyan-400" />} isAnalyzing={isAnalyzing}>
-                        <PresetSelector presets={RETOUCH_PRESETS} selectedPresets={selectedRetouches} onSelect={onRetouchSelect} suggestedIds={suggestedPresetIds.retouch} />
+                    <AccordionItem title={t('productRetouch')} icon={<WandIcon className="w-6 h-6 text-cyan-400" />} isAnalyzing={isAnalyzing} warning={warningFor('retouch')}>
+                        <PresetSelector presets={getPresets('retouch')} selectedPresets={selectedRetouches} onSelect={onRetouchSelect} suggestions={suggestedPresets.retouch} />
                     </AccordionItem>
-                    <AccordionItem title={t('peopleRetouch')} icon={<UserIcon className="w-6 h-6 text-cyan-400" />} isAnalyzing={isAnalyzing}>
-                        <PresetSelector presets={PEOPLE_RETOUCH_PRESETS} selectedPresets={selectedPeopleRetouches} onSelect={onPeopleRetouchSelect} suggestedIds={suggestedPresetIds.peopleRetouch} />
+                    <AccordionItem title={t('peopleRetouch')} icon={<UserIcon className="w-6 h-6 text-cyan-400" />} isAnalyzing={isAnalyzing} warning={warningFor('peopleRetouch')}>
+                        <PresetSelector presets={getPresets('peopleRetouch')} selectedPresets={selectedPeopleRetouches} onSelect={onPeopleRetouchSelect} suggestions={suggestedPresets.peopleRetouch} />
                     </AccordionItem>
-                    <AccordionItem title={t('exportSettings')} icon={<CogIcon className="w-6 h-6 text-cyan-400" />} isOpenDefault={true}>
+                    <AccordionItem title={t('exportSettings')} icon={<CogIcon className="w-6 h-6 text-cyan-400" />} isOpenDefault={true} warning={conflicts.some(c => c.kind === 'transparentScene') ? t('presetConflictsTitle') : undefined}>
                         <ExportControls settings={exportSettings} setSettings={setExportSettings} />
                     </AccordionItem>
                 </div>
+                <button onClick={onOpenPresetManager} className="mt-3 w-full text-xs font-semibold flex items-center justify-center gap-1.5 text-cyan-300 hover:text-white transition-colors">
+                    <CogIcon className="w-4 h-4" /> {t('customPresetsOpen')}
+                </button>
             </div>
             
             {/* Generation Controls Footer */}
             <div className="p-4 mt-auto border-t border-[var(--border-color)] flex-shrink-0">
                <div className="space-y-3">
+                    <div className="flex items-center justify-between gap-3" title={t('variationsTooltip')}>
+                        <span className="text-sm font-medium text-gray-200">{t('variations')}</span>
+                        <div className="flex items-center bg-black/20 rounded-lg p-1 border border-[var(--border-color)]">
+                            {VARIATION_COUNTS.map(count => (
+                                <button
+                                    key={count}
+                                    onClick={() => onVariationCountChange(count)}
+                                    disabled={isLoading}
+                                    className={`w-9 py-1 text-sm font-semibold rounded-md transition-all ${variationCount === count ? 'bg-cyan-500/20 text-white' : 'text-gray-200 hover:text-white hover:bg-white/10'}`}
+                                >
+                                    {count}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <PresetConflicts conflicts={conflicts} onResolve={onResolveConflict} />
                     <button
-                        onClick={onGenerate}
-                        disabled={!canGenerate}
+                        onClick={() => onGenerate()}
+                        disabled={!isGenerateEnabled}
                         className={`w-full py-3 px-4 text-lg font-bold rounded-lg transition-all duration-300 flex items-center justify-center transform hover:scale-[1.02] active:scale-[0.98] glow-on-hover ${
-                            canGenerate 
+                            isGenerateEnabled 
                             ? 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white shadow-lg shadow-cyan-500/20' 
                             : 'bg-gray-700/50 border border-gray-600 text-gray-400 cursor-not-allowed'
                         }`}
@@ -116,6 +163,13 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     {isLoading && <div className="w-6 h-6 border-2 border-t-white border-white/30 rounded-full animate-spin ms-2"></div>}
                     {isAnalyzing && <div className="w-6 h-6 border-2 border-t-white border-white/30 rounded-full animate-spin ms-2"></div>}
                     </button>
+                    <button
+                        onClick={onViewPrompt}
+                        disabled={!canGenerate}
+                        className={`w-full text-xs font-semibold flex items-center justify-center gap-1.5 transition-colors ${canGenerate ? 'text-cyan-300 hover:text-white' : 'text-gray-500 cursor-not-allowed'}`}
+                    >
+                        <EyeIcon className="w-4 h-4" /> {t('viewPrompt')}
+                    </button>
                     {generatedImage && !isLoading && (
                         <div className="flex gap-3">
                             <a 
@@ -161,6 +215,22 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                             </div>
                         </div>
                     )}
+                    {generatedImage && !isLoading && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={onOpenAdComposer}
+                                className="text-xs font-semibold flex items-center justify-center gap-1.5 text-cyan-300 hover:text-white transition-colors"
+                            >
+                                <LayersIcon className="w-4 h-4" /> {t('adComposerOpen')}
+                            </button>
+                            <button
+                                onClick={onOpenCampaignPack}
+                                className="text-xs font-semibold flex items-center justify-center gap-1.5 text-cyan-300 hover:text-white transition-colors"
+                            >
+                                <ExportIcon className="w-4 h-4" /> {t('campaignOpen')}
+                            </button>
+                        </div>
+                    )}
                </div>
             </div>
         </div>
@@ -0,0 +1,188 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { CustomPresetDefinition, PresetCategory, PresetIconId } from '../types';
+import { PRESET_ICONS } from '../constants';
+import { createCustomPreset, deleteCustomPreset, getCustomPresets, importCustomPresets, saveCustomPreset, subscribeToCustomPresets } from '../services/customPresetStore';
+import { PRESET_CATEGORIES, PRESET_CATEGORY_LABEL_KEYS, parsePresetPack, serializePresetPack } from '../services/presetCatalog';
+import { downloadBlob } from '../services/zip';
+import { useLanguage } from '../App';
+import { CloseIcon, CogIcon } from './Icons';
+
+interface CustomPresetManagerProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const PRESET_ICON_IDS = Object.keys(PRESET_ICONS) as PresetIconId[];
+
+const fieldClasses = 'mt-2 w-full bg-black/20 border border-[var(--border-color)] rounded-lg px-3 py-2 text-white placeholder-gray-500';
+
+const CustomPresetManager: React.FC<CustomPresetManagerProps> = ({ isOpen, onClose }) => {
+    const { t } = useLanguage();
+    const presets = useSyncExternalStore(subscribeToCustomPresets, getCustomPresets);
+    const [category, setCategory] = useState<PresetCategory>('lighting');
+    const [draft, setDraft] = useState<CustomPresetDefinition | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    if (!isOpen) return null;
+
+    const inCategory = presets.filter(preset => preset.category === category);
+    const isSaved = !!draft && presets.some(preset => preset.id === draft.id);
+
+    const editPreset = (preset: CustomPresetDefinition | null) => {
+        setDraft(preset);
+        setSaveError(null);
+    };
+
+    const handleCategoryChange = (next: PresetCategory) => {
+        setCategory(next);
+        editPreset(null);
+    };
+
+    const update = (patch: Partial<CustomPresetDefinition>) => setDraft(prev => prev && { ...prev, ...patch });
+
+    const handleSave = () => {
+        if (!draft) return;
+        const preset = { ...draft, name: draft.name.trim() || t('customPresetUntitled'), description: draft.description.trim(), metadata: draft.metadata.trim() };
+        try {
+            saveCustomPreset(preset);
+            setDraft(preset);
+            setSaveError(null);
+        } catch (error) {
+            console.error('Failed to save custom preset:', error);
+            setSaveError(t('customPresetSaveFailed'));
+        }
+    };
+
+    const handleDelete = () => {
+        if (!draft) return;
+        deleteCustomPreset(draft.id);
+        editPreset(inCategory.find(preset => preset.id !== draft.id) ?? null);
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([serializePresetPack(presets)], { type: 'application/json' }), 'dd-studio-presets.json');
+    };
+
+    const handleImport = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const imported = parsePresetPack(await file.text());
+            importCustomPresets(imported);
+            setImportMessage({ text: t('customPresetImported').replace('{count}', String(imported.length)), isError: false });
+        } catch (error) {
+            console.error('Could not import the preset pack:', error);
+            setImportMessage({ text: t('customPresetImportFailed'), isError: true });
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-md z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-[rgba(16,18,42,0.5)] backdrop-blur-2xl border border-[var(--border-color)] rounded-2xl shadow-2xl shadow-black/20 w-full max-w-4xl h-[85vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-[var(--border-color)]">
+                    <div className="flex items-center gap-3">
+                        <CogIcon className="w-6 h-6 text-cyan-400" />
+                        <h2 className="text-xl font-bold text-gray-100">{t('customPresetsTitle')}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors" aria-label={t('close')}>
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="flex-1 flex min-h-0">
+                    <aside className="w-60 border-e border-[var(--border-color)] p-3 flex flex-col gap-2 overflow-y-auto">
+                        <select
+                            value={category}
+                            onChange={(e) => handleCategoryChange(e.target.value as PresetCategory)}
+                            className="bg-black/20 border border-[var(--border-color)] rounded-lg px-2 py-1.5 text-sm text-white"
+                            aria-label={t('customPresetCategory')}
+                        >
+                            {PRESET_CATEGORIES.map(c => <option key={c} value={c}>{t(PRESET_CATEGORY_LABEL_KEYS[c])}</option>)}
+                        </select>
+                        {inCategory.map(preset => (
+                            <button
+                                key={preset.id}
+                                onClick={() => editPreset(preset)}
+                                className={`text-start p-2 rounded-lg flex items-center gap-2 text-sm font-semibold text-gray-100 transition-colors ${draft?.id === preset.id ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                            >
+                                <span className="text-cyan-400 flex-shrink-0">{PRESET_ICONS[preset.icon]}</span>
+                                <span className="truncate">{preset.name}</span>
+                            </button>
+                        ))}
+                        {inCategory.length === 0 && <p className="text-xs text-gray-400 p-2">{t('customPresetNoneInCategory')}</p>}
+                        <button
+                            onClick={() => editPreset(createCustomPreset(category))}
+                            className="py-2 text-sm font-semibold text-cyan-300 border border-dashed border-cyan-500/50 rounded-lg hover:bg-cyan-500/10 transition-colors"
+                        >
+                            {t('customPresetNew')}
+                        </button>
+                        <div className="mt-auto pt-3 border-t border-[var(--border-color)] space-y-2">
+                            <div className="flex gap-3">
+                                <label className="text-xs font-semibold text-cyan-300 hover:text-white cursor-pointer">
+                                    {t('customPresetImport')}
+                                    <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }} />
+                                </label>
+                                <button onClick={handleExport} disabled={presets.length === 0} className="text-xs font-semibold text-cyan-300 hover:text-white disabled:text-gray-500">
+                                    {t('customPresetExport')}
+                                </button>
+                            </div>
+                            {importMessage && <p className={`text-xs ${importMessage.isError ? 'text-red-400' : 'text-gray-300'}`}>{importMessage.text}</p>}
+                        </div>
+                    </aside>
+                    {draft ? (
+                        <div className="flex-1 p-5 space-y-5 overflow-y-auto">
+                            <label className="block">
+                                <span className="text-xs font-semibold uppercase tracking-wider text-gray-300">{t('customPresetName')}</span>
+                                <input type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder={t('customPresetUntitled')} className={fieldClasses} />
+                            </label>
+                            <label className="block">
+                                <span className="text-xs font-semibold uppercase tracking-wider text-gray-300">{t('customPresetDescription')}</span>
+                                <textarea value={draft.description} onChange={(e) => update({ description: e.target.value })} rows={3} placeholder={t('customPresetDescriptionPlaceholder')} className={`${fieldClasses} resize-none`} />
+                            </label>
+                            <label className="block">
+                                <span className="text-xs font-semibold uppercase tracking-wider text-gray-300">{t('customPresetMetadata')}</span>
+                                <input type="text" value={draft.metadata} onChange={(e) => update({ metadata: e.target.value })} placeholder={t('customPresetMetadataPlaceholder')} className={`${fieldClasses} font-mono text-sm`} />
+                            </label>
+                            <div>
+                                <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-300 mb-2">{t('customPresetIcon')}</h3>
+                                <div className="flex flex-wrap gap-2">
+                                    {PRESET_ICON_IDS.map(icon => (
+                                        <button
+                                            key={icon}
+                                            onClick={() => update({ icon })}
+                                            className={`p-2 rounded-lg border-2 text-cyan-400 transition-colors ${draft.icon === icon ? 'border-cyan-500 bg-cyan-500/20' : 'border-transparent bg-white/5 hover:border-cyan-400/50'}`}
+                                            aria-label={icon}
+                                            aria-pressed={draft.icon === icon}
+                                        >
+                                            {PRESET_ICONS[icon]}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            {saveError && <p className="text-sm text-red-400">{saveError}</p>}
+                            <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-[var(--border-color)]">
+                                <button onClick={handleSave} className="py-2 px-5 text-sm font-bold rounded-lg bg-gradient-to-r from-cyan-500 to-sky-500 text-white">
+                                    {t('customPresetSave')}
+                                </button>
+                                <div className="flex-1" />
+                                {isSaved && (
+                                    <button onClick={handleDelete} className="text-sm font-semibold text-gray-400 hover:text-red-400">{t('customPresetDelete')}</button>
+                                )}
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="flex-1 flex items-center justify-center p-8 text-sm text-gray-400 text-center">{t('customPresetEmpty')}</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CustomPresetManager;
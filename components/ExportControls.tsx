@@ -1,6 +1,7 @@
-import React from 'react';
-import { ExportSettings, AspectRatio } from '../types';
+import React, { useEffect, useState } from 'react';
+import { ExportSettings, AspectRatio, AspectFitMode } from '../types';
 import { EXPORT_ASPECT_RATIOS } from '../constants';
+import { parseAspectRatio } from '../services/aspectRatio';
 import { useLanguage } from '../App';
 import { CheckIcon } from './Icons';
 
@@ -12,23 +13,98 @@ interface ExportControlsProps {
 
 const ExportControls: React.FC<ExportControlsProps> = ({ settings, setSettings, hideTransparency = false }) => {
     const { t } = useLanguage();
+    const isPresetRatio = EXPORT_ASPECT_RATIOS.some(ratio => ratio.value === settings.aspectRatio);
+    const [isCustom, setIsCustom] = useState(!isPresetRatio);
+    const customTerms = parseAspectRatio(settings.aspectRatio);
+    const [customWidth, setCustomWidth] = useState(String(customTerms?.width ?? 4));
+    const [customHeight, setCustomHeight] = useState(String(customTerms?.height ?? 3));
+
+    // Settings can also change from outside, e.g. when a recipe is applied, so the selected button follows them.
+    useEffect(() => {
+        const typed = parseAspectRatio(`${customWidth}:${customHeight}`);
+        const matchesTyped = !!typed && !!customTerms && typed.width === customTerms.width && typed.height === customTerms.height;
+        // A preset typed into the custom fields stays custom.
+        if (!isPresetRatio) setIsCustom(true);
+        else if (!matchesTyped) setIsCustom(false);
+        if (!isPresetRatio && !matchesTyped && customTerms) {
+            setCustomWidth(String(customTerms.width));
+            setCustomHeight(String(customTerms.height));
+        }
+    }, [settings.aspectRatio]);
 
     const handleAspectRatioChange = (value: AspectRatio) => {
+        setIsCustom(false);
         setSettings({ ...settings, aspectRatio: value });
     };
 
+    const applyCustomRatio = (width: string, height: string) => {
+        setCustomWidth(width);
+        setCustomHeight(height);
+        const ratio = `${width}:${height}`;
+        if (parseAspectRatio(ratio)) setSettings({ ...settings, aspectRatio: ratio as AspectRatio });
+    };
+
+    const isCustomValid = !!parseAspectRatio(`${customWidth}:${customHeight}`);
+
     return (
         <div className="space-y-4">
             <div>
                 <label className="block text-sm font-medium text-gray-200 mb-2">{t('aspectRatio')}</label>
-                <div className="flex items-center bg-black/20 rounded-lg p-1 border border-[var(--border-color)]">
+                <div className="grid grid-cols-4 gap-1 bg-black/20 rounded-lg p-1 border border-[var(--border-color)]">
                     {EXPORT_ASPECT_RATIOS.map(ratio => (
                         <button
                             key={ratio.value}
                             onClick={() => handleAspectRatioChange(ratio.value)}
-                            className={`w-1/2 px-3 py-1.5 text-sm font-semibold rounded-md transition-all flex items-center justify-center gap-2 ${settings.aspectRatio === ratio.value ? 'bg-cyan-500/20 text-white' : 'text-gray-200 hover:text-white hover:bg-white/10'}`}
+                            className={`px-2 py-1.5 text-xs font-semibold rounded-md transition-all flex flex-col items-center justify-center ${!isCustom && settings.aspectRatio === ratio.value ? 'bg-cyan-500/20 text-white' : 'text-gray-200 hover:text-white hover:bg-white/10'}`}
+                        >
+                            <span>{ratio.value}</span>
+                            <span className="text-[10px] font-normal text-gray-300">{t(ratio.label)}</span>
+                        </button>
+                    ))}
+                    <button
+                        onClick={() => { setIsCustom(true); applyCustomRatio(customWidth, customHeight); }}
+                        className={`px-2 py-1.5 text-xs font-semibold rounded-md transition-all flex flex-col items-center justify-center ${isCustom ? 'bg-cyan-500/20 text-white' : 'text-gray-200 hover:text-white hover:bg-white/10'}`}
+                    >
+                        <span>W:H</span>
+                        <span className="text-[10px] font-normal text-gray-300">{t('aspectCustom')}</span>
+                    </button>
+                </div>
+                {isCustom && (
+                    <div className="flex items-center gap-2 mt-2" dir="ltr">
+                        <input
+                            type="number"
+                            min="1"
+                            max="9999"
+                            value={customWidth}
+                            onChange={(e) => applyCustomRatio(e.target.value, customHeight)}
+                            aria-label={t('aspectCustomWidth')}
+                            className="w-20 bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-white text-center"
+                        />
+                        <span className="text-gray-300">:</span>
+                        <input
+                            type="number"
+                            min="1"
+                            max="9999"
+                            value={customHeight}
+                            onChange={(e) => applyCustomRatio(customWidth, e.target.value)}
+                            aria-label={t('aspectCustomHeight')}
+                            className="w-20 bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-white text-center"
+                        />
+                        {!isCustomValid && <span className="text-xs text-red-400">{t('aspectCustomInvalid')}</span>}
+                    </div>
+                )}
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-200 mb-1">{t('aspectFitMode')}</label>
+                <p className="text-xs text-gray-400 mb-2">{t('aspectFitModeDescription')}</p>
+                <div className="flex items-center bg-black/20 rounded-lg p-1 border border-[var(--border-color)]">
+                    {(['pad', 'crop'] as AspectFitMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => setSettings({ ...settings, fitMode: mode })}
+                            className={`w-1/2 px-3 py-1.5 text-sm font-semibold rounded-md transition-all ${settings.fitMode === mode ? 'bg-cyan-500/20 text-white' : 'text-gray-200 hover:text-white hover:bg-white/10'}`}
                         >
-                            {t(ratio.label)} ({ratio.value})
+                            {t(mode === 'pad' ? 'aspectFitPad' : 'aspectFitCrop')}
                         </button>
                     ))}
                 </div>
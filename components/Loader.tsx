@@ -1,7 +1,12 @@
 import React from 'react';
 import { useLanguage } from '../App';
 
-const Loader: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+interface LoaderProps {
+    children?: React.ReactNode;
+    onCancel?: () => void;
+}
+
+const Loader: React.FC<LoaderProps> = ({ children, onCancel }) => {
     const { t } = useLanguage();
     return (
         <div className="absolute inset-0 bg-[var(--panel-bg)] backdrop-blur-lg flex flex-col items-center justify-center z-10 rounded-xl">
@@ -14,8 +19,17 @@ const Loader: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
                     <p className="text-sm text-gray-200">{t('loader.warmingUp')}</p>
                 </>
             )}
+            {onCancel && (
+                <button
+                    onClick={onCancel}
+                    title={t('cancelGenerationTooltip')}
+                    className="mt-6 px-5 py-2 text-sm font-semibold rounded-lg bg-white/10 text-gray-200 hover:bg-red-500/20 hover:text-red-300 border border-white/20 transition-colors"
+                >
+                    {t('cancelGeneration')}
+                </button>
+            )}
         </div>
     );
 };
 
-export default Loader;
\ No newline at end of file
+export default Loader;
@@ -0,0 +1,197 @@
+import React, { useRef, useState } from 'react';
+import { RasterImage, createCanvas } from '../services/imageProcessing';
+import { useLanguage } from '../App';
+import { CloseIcon, PaintBrushIcon, SparklesIcon } from './Icons';
+
+type MaskTool = 'brush' | 'lasso' | 'erase';
+
+interface MaskEditorProps {
+    image: RasterImage;
+    isBusy: boolean;
+    error: string | null;
+    onApply: (mask: RasterImage, instruction: string) => void;
+    onClose: () => void;
+}
+
+const MASK_TOOLS: MaskTool[] = ['brush', 'lasso', 'erase'];
+// Painted at full strength and shown through the canvas opacity; only the alpha matters for the mask.
+const MASK_COLOR = '#22d3ee';
+
+type Point = { x: number; y: number };
+
+/** White where painted, black elsewhere, at the image's own resolution. */
+const exportMask = (source: HTMLCanvasElement): RasterImage => {
+    const { canvas, ctx } = createCanvas(source.width, source.height);
+    ctx.drawImage(source, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return { base64: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ image, isBusy, error, onApply, onClose }) => {
+    const { t } = useLanguage();
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPointRef = useRef<Point | null>(null);
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState(32);
+    const [lasso, setLasso] = useState<Point[]>([]);
+    const [hasMask, setHasMask] = useState(false);
+    const [instruction, setInstruction] = useState('');
+
+    const getContext = () => {
+        const ctx = canvasRef.current!.getContext('2d')!;
+        ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+        ctx.fillStyle = MASK_COLOR;
+        ctx.strokeStyle = MASK_COLOR;
+        return ctx;
+    };
+
+    // Pointer position in image pixels. The canvas is letterboxed by object-contain, like the image under it.
+    const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        const displayScale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+        const offsetX = (rect.width - canvas.width * displayScale) / 2;
+        const offsetY = (rect.height - canvas.height * displayScale) / 2;
+        return {
+            point: { x: (e.clientX - rect.left - offsetX) / displayScale, y: (e.clientY - rect.top - offsetY) / displayScale },
+            // The brush size is given in screen pixels.
+            scale: 1 / displayScale,
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (isBusy) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const { point, scale } = toImagePoint(e);
+        lastPointRef.current = point;
+        if (tool === 'lasso') {
+            setLasso([point]);
+            return;
+        }
+        const ctx = getContext();
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, (brushSize * scale) / 2, 0, Math.PI * 2);
+        ctx.fill();
+        if (tool === 'brush') setHasMask(true);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const last = lastPointRef.current;
+        if (!last) return;
+        const { point, scale } = toImagePoint(e);
+        lastPointRef.current = point;
+        if (tool === 'lasso') {
+            setLasso(prev => [...prev, point]);
+            return;
+        }
+        const ctx = getContext();
+        ctx.lineWidth = brushSize * scale;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(last.x, last.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+    };
+
+    const handlePointerUp = () => {
+        lastPointRef.current = null;
+        if (tool !== 'lasso') return;
+        if (lasso.length > 2) {
+            const ctx = getContext();
+            ctx.beginPath();
+            lasso.forEach(({ x, y }, index) => index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+            ctx.closePath();
+            ctx.fill();
+            setHasMask(true);
+        }
+        setLasso([]);
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current!;
+        canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current!;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+        setHasMask(false);
+    };
+
+    const canApply = hasMask && instruction.trim().length > 0 && !isBusy;
+    const canvas = canvasRef.current;
+
+    return (
+        <div className="absolute inset-0 flex flex-col gap-2 p-1">
+            <div className="relative flex-1 min-h-0">
+                <img src={`data:${image.mimeType};base64,${image.base64}`} alt={t('maskEditTitle')} onLoad={handleImageLoad} className="absolute inset-0 w-full h-full object-contain select-none" draggable={false} />
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    className="absolute inset-0 w-full h-full object-contain opacity-50 cursor-crosshair touch-none"
+                />
+                {lasso.length > 1 && canvas && (
+                    <svg viewBox={`0 0 ${canvas.width} ${canvas.height}`} className="absolute inset-0 w-full h-full pointer-events-none">
+                        <polyline points={lasso.map(({ x, y }) => `${x},${y}`).join(' ')} fill="none" stroke={MASK_COLOR} strokeWidth={canvas.width / 300} strokeDasharray={`${canvas.width / 100}`} />
+                    </svg>
+                )}
+            </div>
+            <div className="bg-black/60 backdrop-blur-sm border border-[var(--border-color)] rounded-lg p-2 space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <PaintBrushIcon className="w-4 h-4 text-cyan-400" />
+                    {MASK_TOOLS.map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setTool(option)}
+                            className={`px-2.5 py-1 rounded-md font-semibold transition-colors ${tool === option ? 'bg-cyan-500/20 text-white' : 'text-gray-300 hover:text-white'}`}
+                        >
+                            {t(`maskTool_${option}`)}
+                        </button>
+                    ))}
+                    {tool !== 'lasso' && (
+                        <label className="flex items-center gap-2 text-gray-300">
+                            {t('maskBrushSize')}
+                            <input type="range" min={4} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-24 accent-cyan-400" />
+                        </label>
+                    )}
+                    <button onClick={handleClear} disabled={!hasMask} className="font-semibold text-cyan-300 hover:text-white disabled:text-gray-500">{t('maskClear')}</button>
+                    <div className="flex-1" />
+                    <button onClick={onClose} className="text-gray-300 hover:text-white" aria-label={t('close')}>
+                        <CloseIcon className="w-4 h-4" />
+                    </button>
+                </div>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={instruction}
+                        onChange={(e) => setInstruction(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter' && canApply) onApply(exportMask(canvasRef.current!), instruction); }}
+                        placeholder={t('maskInstructionPlaceholder')}
+                        className="flex-1 bg-black/20 border border-[var(--border-color)] rounded-md px-3 py-1.5 text-sm text-white placeholder-gray-400"
+                    />
+                    <button
+                        onClick={() => onApply(exportMask(canvasRef.current!), instruction)}
+                        disabled={!canApply}
+                        className={`px-4 py-1.5 text-sm font-bold rounded-md flex items-center gap-1.5 transition-all ${canApply ? 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white' : 'bg-gray-700/50 text-gray-400 cursor-not-allowed'}`}
+                    >
+                        <SparklesIcon className="w-4 h-4" /> {t('maskApply')}
+                    </button>
+                </div>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                {!error && !hasMask && <p className="text-xs text-gray-400">{t('maskHint')}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default MaskEditor;
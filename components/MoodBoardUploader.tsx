@@ -0,0 +1,102 @@
+import React, { useRef } from 'react';
+import { ReferenceImage, ReferenceRole } from '../types';
+import { readImageFile } from '../services/imageProcessing';
+import { MAX_REFERENCES, REFERENCE_ROLES, createReference } from '../services/moodBoard';
+import { useLanguage } from '../App';
+import { CloseIcon, DownloadIcon } from './Icons';
+
+interface MoodBoardUploaderProps {
+    title: string;
+    description: string;
+    references: ReferenceImage[];
+    onChange: (references: ReferenceImage[]) => void;
+}
+
+// Up to MAX_REFERENCES images, each tagged with the aspect it governs and a weight.
+const MoodBoardUploader: React.FC<MoodBoardUploaderProps> = ({ title, description, references, onChange }) => {
+    const { t } = useLanguage();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const isFull = references.length >= MAX_REFERENCES;
+
+    const addFiles = async (files: File[]) => {
+        const images = files.filter(file => file.type.startsWith('image/')).slice(0, MAX_REFERENCES - references.length);
+        if (images.length === 0) return;
+        const added = await Promise.all(images.map(async file => createReference(await readImageFile(file))));
+        onChange([...references, ...added]);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+        const files = Array.from(e.clipboardData.items).flatMap(item => {
+            const file = item.type.startsWith('image/') ? item.getAsFile() : null;
+            return file ? [file] : [];
+        });
+        if (files.length === 0) return;
+        e.preventDefault();
+        addFiles(files);
+    };
+
+    const update = (id: string, patch: Partial<ReferenceImage>) =>
+        onChange(references.map(reference => reference.id === id ? { ...reference, ...patch } : reference));
+
+    return (
+        <div>
+            <h3 className="font-semibold text-gray-100 text-lg">{title}</h3>
+            <p className="text-sm text-gray-300 mb-3">{description}</p>
+            {references.length > 0 && (
+                <ul className="space-y-2 mb-2">
+                    {references.map((reference, index) => (
+                        <li key={reference.id} className="flex items-center gap-3 bg-black/20 border border-[var(--border-color)] rounded-lg p-2">
+                            <img src={`data:${reference.image.mimeType};base64,${reference.image.base64}`} alt={`${t('moodBoardImage')} ${index + 1}`} className="w-14 h-14 object-cover rounded-md flex-shrink-0" />
+                            <div className="flex-1 min-w-0 space-y-1.5">
+                                <select
+                                    value={reference.role}
+                                    onChange={(e) => update(reference.id, { role: e.target.value as ReferenceRole })}
+                                    className="w-full bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-xs text-white"
+                                    aria-label={t('moodBoardRole')}
+                                >
+                                    {REFERENCE_ROLES.map(role => <option key={role} value={role}>{t(`moodBoardRole_${role}`)}</option>)}
+                                </select>
+                                <label className="flex items-center gap-2 text-[11px] text-gray-400">
+                                    {t('moodBoardWeight')}
+                                    <input
+                                        type="range"
+                                        min={10}
+                                        max={100}
+                                        step={10}
+                                        value={reference.weight}
+                                        onChange={(e) => update(reference.id, { weight: Number(e.target.value) })}
+                                        className="flex-1 accent-cyan-400"
+                                    />
+                                    <span className="w-7 text-end text-gray-300">{reference.weight}</span>
+                                </label>
+                            </div>
+                            <button onClick={() => onChange(references.filter(r => r.id !== reference.id))} className="text-gray-400 hover:text-red-400 self-start" aria-label={t('removeImageAriaLabel')}>
+                                <CloseIcon className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {!isFull && (
+                <div
+                    className="border border-dashed border-[var(--border-color)] bg-black/20 rounded-xl p-3 text-center cursor-pointer hover:border-cyan-400 transition-colors group focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                    onClick={() => fileInputRef.current?.click()}
+                    onPaste={handlePaste}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => { e.preventDefault(); addFiles(Array.from(e.dataTransfer.files)); }}
+                    tabIndex={0}
+                    role="button"
+                    aria-label={t('imageUploaderAriaLabel')}
+                >
+                    <DownloadIcon className="mx-auto h-7 w-7 text-gray-300 group-hover:text-cyan-400 transition-colors" />
+                    <p className="mt-1 text-sm font-medium text-gray-200">{references.length === 0 ? t('clickToUpload') : t('moodBoardAdd')}</p>
+                    <p className="text-xs text-gray-400">{t('moodBoardLimit').replace('{count}', String(references.length)).replace('{max}', String(MAX_REFERENCES))}</p>
+                    <input type="file" ref={fileInputRef} multiple accept="image/*" className="hidden" onChange={(e) => addFiles(Array.from(e.target.files ?? []))} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MoodBoardUploader;
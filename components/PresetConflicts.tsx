@@ -0,0 +1,59 @@
+import React from 'react';
+import { PresetConflict, PresetConflictFix } from '../services/presetRules';
+import { PRESET_CATEGORY_LABEL_KEYS } from '../services/presetCatalog';
+import { useLanguage } from '../App';
+
+interface PresetConflictsProps {
+    conflicts: PresetConflict[];
+    onResolve: (fix: PresetConflictFix) => void;
+}
+
+type Translate = (key: string, fallback?: string) => string;
+
+const presetNames = (presets: { name: string }[], t: Translate) => presets.map(p => t(p.name, p.name)).join(', ');
+
+const describeConflict = (conflict: PresetConflict, t: Translate): string => {
+    switch (conflict.kind) {
+        case 'incompatible':
+            return t('presetConflict_incompatible')
+                .replace('{a}', t(conflict.first.preset.name, conflict.first.preset.name))
+                .replace('{b}', t(conflict.second.preset.name, conflict.second.preset.name))
+                .replace('{reason}', t(`presetConflictReason_${conflict.reason}`));
+        case 'tooMany':
+            return t('presetConflict_tooMany')
+                .replace('{category}', t(PRESET_CATEGORY_LABEL_KEYS[conflict.category]))
+                .replace('{count}', String(conflict.presets.length))
+                .replace('{max}', String(conflict.max));
+        case 'transparentScene':
+            return t('presetConflict_transparentScene').replace('{names}', presetNames(conflict.scenes, t));
+    }
+};
+
+const describeFix = (fix: PresetConflictFix, t: Translate): string =>
+    fix.type === 'opaqueExport' ? t('presetFix_opaqueExport') : t('presetFix_deselect').replace('{names}', presetNames(fix.presets, t));
+
+const PresetConflicts: React.FC<PresetConflictsProps> = ({ conflicts, onResolve }) => {
+    const { t } = useLanguage();
+    if (conflicts.length === 0) return null;
+    return (
+        <div className="bg-amber-500/10 border border-amber-500/40 rounded-lg p-3 text-sm space-y-2" role="alert">
+            <p className="font-semibold text-amber-200">{t('presetConflictsTitle')}</p>
+            <ul className="space-y-2 max-h-40 overflow-y-auto">
+                {conflicts.map((conflict, index) => (
+                    <li key={index} className="space-y-1">
+                        <p className="text-xs text-amber-100">{describeConflict(conflict, t)}</p>
+                        <div className="flex flex-wrap gap-x-3 gap-y-1">
+                            {conflict.fixes.map((fix, fixIndex) => (
+                                <button key={fixIndex} onClick={() => onResolve(fix)} className="text-xs font-semibold text-cyan-300 hover:text-white">
+                                    {describeFix(fix, t)}
+                                </button>
+                            ))}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default PresetConflicts;
@@ -1,22 +1,23 @@
 import React from 'react';
-import { Preset, CameraPreset, LightingPreset } from '../types';
+import { Preset, CameraPreset, LightingPreset, PresetSuggestion } from '../types';
+import { isCustomPreset } from '../services/presetCatalog';
 import { useLanguage } from '../App';
 
 interface PresetSelectorProps<T extends Preset> {
     presets: readonly T[];
     selectedPresets: T[];
     onSelect: (preset: T) => void;
-    suggestedIds?: string[];
+    suggestions?: PresetSuggestion[];
 }
 
-const PresetSelector = <T extends Preset,>({ presets, selectedPresets, onSelect, suggestedIds = [] }: PresetSelectorProps<T>) => {
+const PresetSelector = <T extends Preset,>({ presets, selectedPresets, onSelect, suggestions = [] }: PresetSelectorProps<T>) => {
     const { t } = useLanguage();
     return (
         <div>
             <div className="space-y-2">
                 {presets.map((preset) => {
                     const isSelected = selectedPresets.some(p => p.id === preset.id);
-                    const isSuggested = suggestedIds.includes(preset.id);
+                    const suggestion = suggestions.find(s => s.id === preset.id);
                     
                     const descriptionText = t(preset.description, preset.description);
                     // FIX: Safely access the optional 'metadata' property. The generic type 'T'
@@ -26,9 +27,10 @@ const PresetSelector = <T extends Preset,>({ presets, selectedPresets, onSelect,
                     const metadata = (preset as Preset & { metadata?: string }).metadata;
                     
                     // Construct the tooltip text with description and metadata if it exists.
-                    const tooltipText = (metadata && metadata.trim() !== '')
+                    let tooltipText = (metadata && metadata.trim() !== '')
                         ? `${descriptionText}\n\nTechnical Info: ${metadata}`
                         : descriptionText;
+                    if (suggestion?.rationale) tooltipText += `\n\n${t('aiPick')}: ${suggestion.rationale}`;
 
                     return (
                         <button
@@ -45,11 +47,17 @@ const PresetSelector = <T extends Preset,>({ presets, selectedPresets, onSelect,
                             <div className="flex-1">
                                 <p className="font-semibold text-gray-100 flex items-center gap-2">
                                     {t(preset.name, preset.name)}
-                                    {isSuggested && (
-                                        <span className="text-xs font-bold text-cyan-300 bg-cyan-900/50 px-2 py-0.5 rounded-full border border-cyan-700">{t('aiPick')}</span>
+                                    {isCustomPreset(preset) && (
+                                        <span className="text-xs font-semibold text-gray-300 bg-white/10 px-2 py-0.5 rounded-full">{t('customPresetBadge')}</span>
+                                    )}
+                                    {suggestion && (
+                                        <span className="text-xs font-bold text-cyan-300 bg-cyan-900/50 px-2 py-0.5 rounded-full border border-cyan-700" title={suggestion.rationale || undefined}>{t('aiPick')}</span>
                                     )}
                                 </p>
                                 <p className="text-sm text-gray-300 leading-tight">{t(preset.description, preset.description)}</p>
+                                {suggestion?.rationale && (
+                                    <p className="text-xs text-cyan-200/80 italic leading-tight mt-1">{suggestion.rationale}</p>
+                                )}
                             </div>
                         </button>
                     )
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { CompiledRequest, PromptImageRole } from '../services/promptBuilder';
+import { useLanguage } from '../App';
+import { EyeIcon, CloseIcon, RefreshIcon } from './Icons';
+
+const ROLE_LABEL_KEYS: Record<PromptImageRole, string> = {
+    product: 'promptPartProduct',
+    reference: 'promptPartReference',
+    base: 'promptPartBase',
+    person: 'promptPartPerson',
+    logo: 'promptPartLogo',
+};
+
+interface PromptInspectorProps {
+    isOpen: boolean;
+    request: CompiledRequest;
+    onSend: (text: string) => void;
+    onClose: () => void;
+}
+
+// The edit is one-off: it is only used for the send triggered from here and is never written back to the template.
+const PromptInspector: React.FC<PromptInspectorProps> = ({ isOpen, request, onSend, onClose }) => {
+    const { t } = useLanguage();
+    const [text, setText] = useState(request.text);
+    if (!isOpen) return null;
+
+    const isEdited = text !== request.text;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-md z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-[rgba(16,18,42,0.5)] backdrop-blur-2xl border border-[var(--border-color)] rounded-2xl shadow-2xl shadow-black/20 w-full max-w-3xl h-[85vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-[var(--border-color)]">
+                    <div className="flex items-center gap-3">
+                        <EyeIcon className="w-6 h-6 text-cyan-400" />
+                        <h2 className="text-xl font-bold text-gray-100">{t('promptInspectorTitle')}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors" aria-label={t('close')}>
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="flex-1 flex flex-col min-h-0 p-5 gap-4">
+                    <div>
+                        <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-300 mb-2">{t('promptImageParts')}</h3>
+                        <ol className="flex gap-3">
+                            {request.imageParts.map(({ role, image }, index) => (
+                                <li key={index} className="flex items-center gap-2 bg-white/5 rounded-lg p-1.5 pe-3">
+                                    <img src={`data:${image.mimeType};base64,${image.base64}`} alt={t(ROLE_LABEL_KEYS[role])} className="w-10 h-10 object-cover rounded-md" />
+                                    <div className="text-xs">
+                                        <p className="font-semibold text-gray-100">{index + 1}. {t(ROLE_LABEL_KEYS[role])}</p>
+                                        <p className="text-gray-400">{image.mimeType}</p>
+                                    </div>
+                                </li>
+                            ))}
+                            <li className="flex items-center text-xs text-gray-300 px-2">+ {t('promptTextPart')}</li>
+                        </ol>
+                    </div>
+                    <div className="flex-1 flex flex-col min-h-0">
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-300">
+                                {t('promptTextPart')} {isEdited && <span className="normal-case tracking-normal text-cyan-300">· {t('promptEdited')}</span>}
+                            </h3>
+                            <button
+                                onClick={() => setText(request.text)}
+                                disabled={!isEdited}
+                                className={`text-xs font-semibold flex items-center gap-1 ${isEdited ? 'text-cyan-300 hover:text-white' : 'text-gray-500 cursor-not-allowed'}`}
+                            >
+                                <RefreshIcon className="w-4 h-4" /> {t('promptRevert')}
+                            </button>
+                        </div>
+                        <textarea
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            spellCheck={false}
+                            dir="ltr"
+                            className="flex-1 w-full bg-black/20 border border-[var(--border-color)] rounded-lg p-3 text-sm font-mono text-white focus:ring-2 focus:ring-cyan-400 transition-colors resize-none"
+                        />
+                    </div>
+                </div>
+                <div className="p-5 border-t border-[var(--border-color)] flex items-center justify-between gap-4">
+                    <p className="text-xs text-gray-400">{t('promptInspectorFooter')}</p>
+                    <button
+                        onClick={() => onSend(text)}
+                        disabled={!text.trim()}
+                        className={`py-2.5 px-6 text-sm font-bold rounded-lg transition-all ${text.trim() ? 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white' : 'bg-gray-700/50 text-gray-400 cursor-not-allowed'}`}
+                    >
+                        {isEdited ? t('promptSendEdited') : t('promptSend')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptInspector;
@@ -0,0 +1,180 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { PROMPT_TEMPLATES, PROMPT_TEMPLATE_IDS, PromptTemplateId, PlaceholderSpec } from '../services/promptTemplates';
+import { getActiveTemplateBody, getTemplateHistory, saveTemplateVersion, activateTemplateVersion, resetTemplateToDefault } from '../services/promptTemplateStore';
+import { validateTemplate } from '../services/templateEngine';
+import { useLanguage } from '../App';
+import { CogIcon, CloseIcon, RefreshIcon } from './Icons';
+
+interface PromptTemplateSettingsProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const PromptTemplateSettings: React.FC<PromptTemplateSettingsProps> = ({ isOpen, onClose }) => {
+    const { t } = useLanguage();
+    const [selectedId, setSelectedId] = useState<PromptTemplateId>(PROMPT_TEMPLATE_IDS[0]);
+    const [draft, setDraft] = useState(() => getActiveTemplateBody(PROMPT_TEMPLATE_IDS[0]));
+    // Bumped after every store write so the history list re-reads localStorage.
+    const [revision, setRevision] = useState(0);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const definition = PROMPT_TEMPLATES[selectedId];
+    const placeholders = Object.entries(definition.placeholders) as [string, PlaceholderSpec][];
+    const history = useMemo(() => getTemplateHistory(selectedId), [selectedId, revision]);
+    const activeBody = useMemo(() => getActiveTemplateBody(selectedId), [selectedId, revision]);
+    const problems = useMemo(() => validateTemplate(draft, placeholders.map(([name]) => name)), [draft, selectedId]);
+    const isDirty = draft !== activeBody;
+
+    if (!isOpen) return null;
+
+    const selectTemplate = (id: PromptTemplateId) => {
+        setSelectedId(id);
+        setDraft(getActiveTemplateBody(id));
+    };
+
+    const afterStoreChange = () => {
+        setRevision(r => r + 1);
+        setDraft(getActiveTemplateBody(selectedId));
+    };
+
+    const insertPlaceholder = (name: string) => {
+        const textarea = textareaRef.current;
+        const tag = `{{${name}}}`;
+        if (!textarea) {
+            setDraft(prev => prev + tag);
+            return;
+        }
+        const { selectionStart, selectionEnd } = textarea;
+        setDraft(prev => prev.slice(0, selectionStart) + tag + prev.slice(selectionEnd));
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(selectionStart + tag.length, selectionStart + tag.length);
+        });
+    };
+
+    const describeProblem = (problem: { kind: string; name: string }) => {
+        const key = problem.kind === 'unknown-placeholder' ? 'templateUnknownPlaceholder' : problem.kind === 'unexpected-close' ? 'templateUnexpectedClose' : 'templateUnclosedSection';
+        return t(key).replace('{name}', problem.name);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-md z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-[rgba(16,18,42,0.5)] backdrop-blur-2xl border border-[var(--border-color)] rounded-2xl shadow-2xl shadow-black/20 w-full max-w-6xl h-[85vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-[var(--border-color)]">
+                    <div className="flex items-center gap-3">
+                        <CogIcon className="w-6 h-6 text-cyan-400" />
+                        <h2 className="text-xl font-bold text-gray-100">{t('promptTemplatesTitle')}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors" aria-label={t('close')}>
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="flex-1 grid grid-cols-12 min-h-0">
+                    <nav className="col-span-3 border-e border-[var(--border-color)] p-3 space-y-1 overflow-y-auto">
+                        {PROMPT_TEMPLATE_IDS.map(id => {
+                            const isCustomized = getTemplateHistory(id).activeVersion !== null;
+                            return (
+                                <button
+                                    key={id}
+                                    onClick={() => selectTemplate(id)}
+                                    className={`w-full text-start px-3 py-2 rounded-lg transition-colors ${selectedId === id ? 'bg-cyan-500/20 text-white' : 'text-gray-200 hover:bg-white/10'}`}
+                                >
+                                    <span className="block font-semibold text-sm">{PROMPT_TEMPLATES[id].name}</span>
+                                    {isCustomized && <span className="text-xs text-cyan-300">{t('templateCustomized')}</span>}
+                                </button>
+                            );
+                        })}
+                    </nav>
+                    <div className="col-span-6 p-4 flex flex-col min-h-0 gap-3">
+                        <p className="text-sm text-gray-300">{definition.description}</p>
+                        <textarea
+                            ref={textareaRef}
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            spellCheck={false}
+                            dir="ltr"
+                            className="flex-1 w-full bg-black/20 border border-[var(--border-color)] rounded-lg p-3 text-sm font-mono text-white focus:ring-2 focus:ring-cyan-400 transition-colors resize-none"
+                        />
+                        {problems.length > 0 && (
+                            <ul className="text-xs text-red-400 space-y-1">
+                                {problems.map((problem, index) => <li key={index}>{describeProblem(problem)}</li>)}
+                            </ul>
+                        )}
+                        <div className="flex gap-3">
+                            <button
+                                onClick={() => { saveTemplateVersion(selectedId, draft); afterStoreChange(); }}
+                                disabled={!isDirty || problems.length > 0}
+                                className={`flex-1 py-2.5 px-4 text-sm font-bold rounded-lg transition-all ${!isDirty || problems.length > 0 ? 'bg-gray-700/50 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white'}`}
+                            >
+                                {t('templateSaveVersion')}
+                            </button>
+                            <button
+                                onClick={() => setDraft(activeBody)}
+                                disabled={!isDirty}
+                                className={`py-2.5 px-4 text-sm font-bold rounded-lg border transition-all ${!isDirty ? 'border-gray-600 text-gray-500 cursor-not-allowed' : 'border-white/50 text-gray-100 hover:bg-white/10'}`}
+                            >
+                                {t('templateDiscard')}
+                            </button>
+                            <button
+                                onClick={() => { resetTemplateToDefault(selectedId); afterStoreChange(); }}
+                                disabled={history.activeVersion === null}
+                                className={`py-2.5 px-4 text-sm font-bold rounded-lg border flex items-center gap-2 transition-all ${history.activeVersion === null ? 'border-gray-600 text-gray-500 cursor-not-allowed' : 'border-white/50 text-gray-100 hover:bg-white/10'}`}
+                            >
+                                <RefreshIcon className="w-4 h-4" /> {t('templateResetDefault')}
+                            </button>
+                        </div>
+                    </div>
+                    <aside className="col-span-3 border-s border-[var(--border-color)] p-4 overflow-y-auto space-y-6">
+                        <div>
+                            <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-300 mb-2">{t('templatePlaceholders')}</h3>
+                            <div className="space-y-2">
+                                {placeholders.map(([name, spec]) => (
+                                    <button
+                                        key={name}
+                                        onClick={() => insertPlaceholder(name)}
+                                        title={spec.description}
+                                        className="w-full text-start px-2 py-1.5 rounded-md bg-white/5 hover:bg-cyan-500/10 transition-colors"
+                                    >
+                                        <span className="font-mono text-xs text-cyan-300" dir="ltr">{`{{${name}}}`}</span>
+                                        <span className="ms-2 text-[10px] uppercase text-gray-400">{spec.type}</span>
+                                        <span className="block text-xs text-gray-300">{spec.description}</span>
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-gray-400 mt-3">{t('templateSyntaxHelp')}</p>
+                        </div>
+                        <div>
+                            <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-300 mb-2">{t('templateHistory')}</h3>
+                            <ul className="space-y-1">
+                                <li className="flex items-center justify-between text-xs text-gray-200 px-2 py-1.5 rounded-md bg-white/5">
+                                    <span>{t('templateDefaultVersion')}</span>
+                                    {history.activeVersion === null && <span className="text-cyan-300">{t('templateActive')}</span>}
+                                </li>
+                                {history.versions.map((_, index) => index).reverse().map(index => (
+                                    <li key={index} className="flex items-center justify-between text-xs text-gray-200 px-2 py-1.5 rounded-md bg-white/5">
+                                        <span>v{index + 1} · {new Date(history.versions[index].savedAt).toLocaleString()}</span>
+                                        {history.activeVersion === index ? (
+                                            <span className="text-cyan-300">{t('templateActive')}</span>
+                                        ) : (
+                                            <button onClick={() => { activateTemplateVersion(selectedId, index); afterStoreChange(); }} className="text-cyan-300 hover:text-white">{t('templateRestore')}</button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </aside>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplateSettings;
@@ -0,0 +1,172 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { Recipe, RecipeSettings } from '../types';
+import { createRecipe, deleteRecipe, encodeRecipeFragment, getRecipes, importRecipes, parseRecipes, saveRecipe, serializeRecipes, subscribeToRecipes } from '../services/recipes';
+import { downloadBlob } from '../services/zip';
+import { useLanguage } from '../App';
+import { ClipboardCopyIcon, CloseIcon } from './Icons';
+
+/** A recipe opened from a shared link; its settings are already applied. */
+export interface IncomingRecipe {
+    recipe: Recipe;
+    missing: string[];
+}
+
+interface RecipePanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** The settings of the mode that is currently shown. */
+    currentSettings: RecipeSettings;
+    /** Applies the settings and returns the preset ids that could not be found. */
+    onApply: (settings: RecipeSettings) => string[];
+    incoming: IncomingRecipe | null;
+    onIncomingSaved: () => void;
+}
+
+const MODE_LABEL_KEYS: Record<RecipeSettings['mode'], string> = {
+    'design-kit': 'designKit',
+    illustrate: 'illustrate',
+    retouch: 'retouch',
+};
+
+const fileNameFor = (name: string) => `${name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'recipe'}.json`;
+
+const RecipePanel: React.FC<RecipePanelProps> = ({ isOpen, onClose, currentSettings, onApply, incoming, onIncomingSaved }) => {
+    const { t } = useLanguage();
+    const recipes = useSyncExternalStore(subscribeToRecipes, getRecipes);
+    const [name, setName] = useState('');
+    const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+    if (!isOpen) return null;
+
+    const missingNotice = (missing: string[]) => ({ text: t('recipeMissingPresets').replace('{ids}', missing.join(', ')), isError: true });
+
+    const persist = (recipe: Recipe) => {
+        try {
+            saveRecipe(recipe);
+            return true;
+        } catch (error) {
+            console.error('Failed to save recipe:', error);
+            setNotice({ text: t('recipeSaveFailed'), isError: true });
+            return false;
+        }
+    };
+
+    const handleSaveCurrent = () => {
+        if (persist(createRecipe(name.trim() || t('recipeUntitled'), currentSettings))) {
+            setName('');
+            setNotice({ text: t('recipeSaved'), isError: false });
+        }
+    };
+
+    const handleSaveIncoming = () => {
+        if (incoming && persist(incoming.recipe)) {
+            onIncomingSaved();
+            setNotice({ text: t('recipeSaved'), isError: false });
+        }
+    };
+
+    const handleApply = (recipe: Recipe) => {
+        const missing = onApply(recipe.settings);
+        setNotice(missing.length ? missingNotice(missing) : { text: t('recipeApplied').replace('{name}', recipe.name), isError: false });
+    };
+
+    const handleCopyLink = async (recipe: Recipe) => {
+        try {
+            const url = `${window.location.origin}${window.location.pathname}${await encodeRecipeFragment(recipe)}`;
+            await navigator.clipboard.writeText(url);
+            setNotice({ text: t('recipeLinkCopied'), isError: false });
+        } catch (error) {
+            console.error('Could not copy the recipe link:', error);
+            setNotice({ text: t('recipeLinkFailed'), isError: true });
+        }
+    };
+
+    const handleImport = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const imported = parseRecipes(await file.text());
+            importRecipes(imported);
+            setNotice({ text: t('recipeImported').replace('{count}', String(imported.length)), isError: false });
+        } catch (error) {
+            console.error('Could not import recipes:', error);
+            setNotice({ text: t('recipeImportFailed'), isError: true });
+        }
+    };
+
+    const exportRecipes = (list: Recipe[], fileName: string) =>
+        downloadBlob(new Blob([serializeRecipes(list)], { type: 'application/json' }), fileName);
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-md z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-[rgba(16,18,42,0.5)] backdrop-blur-2xl border border-[var(--border-color)] rounded-2xl shadow-2xl shadow-black/20 w-full max-w-2xl max-h-[85vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-[var(--border-color)]">
+                    <div className="flex items-center gap-3">
+                        <ClipboardCopyIcon className="w-6 h-6 text-cyan-400" />
+                        <h2 className="text-xl font-bold text-gray-100">{t('recipesTitle')}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors" aria-label={t('close')}>
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="p-5 border-b border-[var(--border-color)] space-y-3">
+                    {incoming && (
+                        <div className="bg-cyan-500/10 border border-cyan-500/40 rounded-lg p-3 text-sm space-y-2">
+                            <p className="text-cyan-100">{t('recipeFromLink').replace('{name}', incoming.recipe.name)}</p>
+                            {incoming.missing.length > 0 && <p className="text-xs text-amber-300">{missingNotice(incoming.missing).text}</p>}
+                            <button onClick={handleSaveIncoming} className="text-xs font-semibold text-cyan-300 hover:text-white">{t('recipeSaveShared')}</button>
+                        </div>
+                    )}
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveCurrent(); }}
+                            placeholder={t('recipeNamePlaceholder')}
+                            className="flex-1 bg-black/20 border border-[var(--border-color)] rounded-md px-3 py-1.5 text-sm text-white placeholder-gray-400"
+                        />
+                        <button onClick={handleSaveCurrent} className="px-4 py-1.5 text-sm font-bold rounded-md bg-gradient-to-r from-cyan-500 to-sky-500 text-white">
+                            {t('recipeSaveCurrent').replace('{mode}', t(MODE_LABEL_KEYS[currentSettings.mode]))}
+                        </button>
+                    </div>
+                    {notice && <p className={`text-xs ${notice.isError ? 'text-amber-300' : 'text-gray-300'}`}>{notice.text}</p>}
+                </div>
+                <ul className="flex-1 overflow-y-auto p-5 space-y-2">
+                    {recipes.length === 0 && <li className="text-sm text-gray-400 text-center py-6">{t('recipeEmpty')}</li>}
+                    {recipes.map(recipe => (
+                        <li key={recipe.id} className="flex flex-wrap items-center gap-3 bg-white/5 rounded-lg p-3">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-semibold text-gray-100 truncate">{recipe.name}</p>
+                                <p className="text-xs text-gray-400">{t(MODE_LABEL_KEYS[recipe.settings.mode])} · {new Date(recipe.createdAt).toLocaleDateString()}</p>
+                            </div>
+                            <button onClick={() => handleApply(recipe)} className="px-3 py-1 text-xs font-bold rounded-md border border-cyan-500 text-cyan-300 hover:bg-cyan-500/10">{t('recipeApply')}</button>
+                            <button onClick={() => handleCopyLink(recipe)} className="text-xs font-semibold text-cyan-300 hover:text-white">{t('recipeCopyLink')}</button>
+                            <button onClick={() => exportRecipes([recipe], fileNameFor(recipe.name))} className="text-xs font-semibold text-cyan-300 hover:text-white">{t('recipeExport')}</button>
+                            <button onClick={() => deleteRecipe(recipe.id)} className="text-gray-400 hover:text-red-400" aria-label={t('recipeDelete')}>
+                                <CloseIcon className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+                <div className="flex gap-4 px-5 py-3 border-t border-[var(--border-color)]">
+                    <label className="text-xs font-semibold text-cyan-300 hover:text-white cursor-pointer">
+                        {t('recipeImport')}
+                        <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }} />
+                    </label>
+                    <button onClick={() => exportRecipes(recipes, 'dd-studio-recipes.json')} disabled={recipes.length === 0} className="text-xs font-semibold text-cyan-300 hover:text-white disabled:text-gray-500">
+                        {t('recipeExportAll')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RecipePanel;
@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RefinementTurn } from '../types';
+import { GeneratedImage, refineImage } from '../services/aiService';
+import { isCancellation } from '../services/aiErrors';
+import { UsageTotals, createUsageCollector } from '../services/usage';
+import { useLanguage, describeAIError } from '../App';
+import { SparklesIcon } from './Icons';
+
+interface RefinementChatProps {
+    /** The result currently shown in the viewer. */
+    image: GeneratedImage;
+    /** History id of the result a new session starts from. */
+    rootId: string | null;
+    disabled: boolean;
+    onVersion: (image: GeneratedImage, instruction: string, session: { rootId: string | null; turn: number; usage: UsageTotals }) => void;
+    onSelectVersion: (image: GeneratedImage) => void;
+}
+
+interface RefinementSession {
+    rootId: string | null;
+    original: GeneratedImage;
+    turns: RefinementTurn[];
+}
+
+/**
+ * The session the viewer's image belongs to. Picking an earlier version and sending from it drops the later
+ * turns, so the chat continues from what is on screen; any other image starts a new session.
+ */
+const sessionFor = (session: RefinementSession | null, image: GeneratedImage, rootId: string | null): RefinementSession => {
+    if (session) {
+        if (session.original === image) return { ...session, turns: [] };
+        const index = session.turns.findIndex(turn => turn.image === image);
+        if (index !== -1) return { ...session, turns: session.turns.slice(0, index + 1) };
+    }
+    return { rootId, original: image, turns: [] };
+};
+
+const RefinementChat: React.FC<RefinementChatProps> = ({ image, rootId, disabled, onVersion, onSelectVersion }) => {
+    const { t } = useLanguage();
+    const [isOpen, setIsOpen] = useState(false);
+    const [session, setSession] = useState<RefinementSession | null>(null);
+    const [instruction, setInstruction] = useState('');
+    const [pending, setPending] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+    const listRef = useRef<HTMLOListElement>(null);
+
+    useEffect(() => () => controllerRef.current?.abort(), []);
+    useEffect(() => {
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+    }, [session, pending]);
+
+    const isInSession = !!session && (session.original === image || session.turns.some(turn => turn.image === image));
+
+    const handleSend = async () => {
+        const text = instruction.trim();
+        if (!text || pending) return;
+        const current = sessionFor(session, image, rootId);
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setSession(current);
+        setPending(text);
+        setInstruction('');
+        setError(null);
+        try {
+            const usage = createUsageCollector();
+            const result = await refineImage(current.original, current.turns, text, { signal: controller.signal, onUsage: usage.onUsage });
+            if (!result) throw new Error(t('errorNoImage'));
+            const turns = [...current.turns, { instruction: text, image: result }];
+            setSession({ ...current, turns });
+            onVersion(result, text, { rootId: current.rootId, turn: turns.length, usage: usage.totals });
+        } catch (e) {
+            if (!isCancellation(e)) {
+                console.error('Refinement turn failed:', e);
+                setError(describeAIError(e, t, t('errorNoImage')));
+            }
+            setInstruction(text);
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+            setPending(null);
+        }
+    };
+
+    const thumbnail = (version: GeneratedImage, label: string) => (
+        <button
+            onClick={() => onSelectVersion(version)}
+            disabled={!!pending}
+            className={`w-16 h-16 rounded-md overflow-hidden border-2 flex-shrink-0 transition-colors ${version === image ? 'border-cyan-400' : 'border-transparent hover:border-white/40'}`}
+            title={t('refineShowVersion')}
+        >
+            <img src={`data:${version.mimeType};base64,${version.base64}`} alt={label} className="w-full h-full object-cover" />
+        </button>
+    );
+
+    return (
+        <div className="w-full px-2 pt-3">
+            <button onClick={() => setIsOpen(prev => !prev)} className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wider text-gray-300 hover:text-white">
+                {t('refineTitle')}
+                {isInSession && session!.turns.length > 0 && (
+                    <span className="normal-case tracking-normal px-2 py-0.5 rounded-full border text-cyan-200 bg-cyan-500/10 border-cyan-500/40">
+                        {t('refineVersionCount').replace('{count}', String(session!.turns.length))}
+                    </span>
+                )}
+                <span className="text-gray-500">{isOpen ? '▾' : '▸'}</span>
+            </button>
+            {isOpen && (
+                <div className="mt-2 bg-black/20 border border-[var(--border-color)] rounded-lg p-3 text-sm space-y-3">
+                    {isInSession ? (
+                        <ol ref={listRef} className="space-y-2 max-h-64 overflow-y-auto">
+                            <li className="flex items-center gap-3">
+                                {thumbnail(session!.original, t('refineOriginal'))}
+                                <span className="text-xs text-gray-400">{t('refineOriginal')}</span>
+                            </li>
+                            {session!.turns.map((turn, index) => (
+                                <li key={index} className="flex items-center gap-3">
+                                    {thumbnail(turn.image, `v${index + 1}`)}
+                                    <div className="min-w-0">
+                                        <p className="text-[11px] text-gray-500">v{index + 1}</p>
+                                        <p className="text-gray-200 break-words">{turn.instruction}</p>
+                                    </div>
+                                </li>
+                            ))}
+                            {pending && (
+                                <li className="flex items-center gap-3">
+                                    <div className="w-16 h-16 rounded-md bg-black/30 flex items-center justify-center flex-shrink-0">
+                                        <div className="w-5 h-5 border-2 border-t-white border-white/30 rounded-full animate-spin" />
+                                    </div>
+                                    <p className="text-gray-300 break-words">{pending}</p>
+                                </li>
+                            )}
+                        </ol>
+                    ) : (
+                        <p className="text-xs text-gray-400">{t('refineEmpty')}</p>
+                    )}
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={instruction}
+                            onChange={(e) => setInstruction(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter' && !disabled) handleSend(); }}
+                            placeholder={t('refinePlaceholder')}
+                            disabled={!!pending}
+                            className="flex-1 bg-black/20 border border-[var(--border-color)] rounded-md px-3 py-1.5 text-sm text-white placeholder-gray-400"
+                        />
+                        {pending ? (
+                            <button onClick={() => controllerRef.current?.abort()} className="px-4 py-1.5 text-sm font-bold rounded-md border border-red-400 text-red-300 hover:bg-red-500/10">
+                                {t('cancelGeneration')}
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleSend}
+                                disabled={disabled || !instruction.trim()}
+                                className={`px-4 py-1.5 text-sm font-bold rounded-md flex items-center gap-1.5 transition-all ${disabled || !instruction.trim() ? 'bg-gray-700/50 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white'}`}
+                            >
+                                <SparklesIcon className="w-4 h-4" /> {t('refineSend')}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RefinementChat;
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { getResultCacheSettings, setResultCacheSettings, getResultCacheStats, clearResultCache, ResultCacheStats } from '../services/resultCache';
+import { useLanguage } from '../App';
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(bytes < 1024 * 1024 ? 2 : 1)} MB`;
+
+const ResultCacheControls: React.FC = () => {
+    const { t } = useLanguage();
+    const [settings, setSettings] = useState(getResultCacheSettings);
+    const [stats, setStats] = useState<ResultCacheStats | null>(null);
+
+    const refreshStats = () => { getResultCacheStats().then(setStats); };
+    useEffect(refreshStats, []);
+
+    const updateSettings = (patch: Partial<typeof settings>) => {
+        const next = { ...settings, ...patch };
+        setResultCacheSettings(next);
+        setSettings(next);
+    };
+
+    const handleClear = async () => {
+        await clearResultCache();
+        refreshStats();
+    };
+
+    return (
+        <div className="space-y-2">
+            <h3 className="font-semibold text-gray-100">{t('cacheTitle')}</h3>
+            <label className="flex items-center justify-between gap-2 text-xs cursor-pointer">
+                <span className="text-gray-400">{t('cacheBypass')}</span>
+                <input
+                    type="checkbox"
+                    checked={settings.bypass}
+                    onChange={(e) => updateSettings({ bypass: e.target.checked })}
+                    className="accent-cyan-500"
+                />
+            </label>
+            <label className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-gray-400">{t('cacheTtlHours')}</span>
+                <input
+                    type="number"
+                    min="1"
+                    defaultValue={settings.ttlHours}
+                    onChange={(e) => {
+                        const hours = parseFloat(e.target.value);
+                        if (Number.isFinite(hours) && hours > 0) updateSettings({ ttlHours: hours });
+                    }}
+                    className="w-24 bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-white text-end"
+                />
+            </label>
+            <div className="flex items-center justify-between text-xs">
+                <span className="text-gray-400">
+                    {stats
+                        ? t('cacheStats').replace('{entries}', String(stats.entries)).replace('{size}', formatMegabytes(stats.bytes)).replace('{max}', formatMegabytes(settings.maxBytes))
+                        : '…'}
+                </span>
+                <button onClick={handleClear} disabled={!stats?.entries} className={`font-semibold whitespace-nowrap ms-2 ${stats?.entries ? 'text-cyan-300 hover:text-white' : 'text-gray-500 cursor-not-allowed'}`}>
+                    {t('cacheClear')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ResultCacheControls;
@@ -0,0 +1,276 @@
+import React, { useRef, useState } from 'react';
+import { GenerationParams, ImageFile, Preset, PresetCategory, ReferenceImage } from '../types';
+import { generateImage } from '../services/aiService';
+import { isCancellation } from '../services/aiErrors';
+import { aspectRatioToCss, enforceAspectRatio } from '../services/aspectRatio';
+import { runWithConcurrency } from '../services/batch';
+import { PRESET_CATEGORIES, PRESET_CATEGORY_LABEL_KEYS, getPresets } from '../services/presetCatalog';
+import { MAX_SWEEP_CELLS, SWEEP_CONCURRENCY, SweepCell, SweepSelection, applySweepSelection, buildSweepCells } from '../services/sweep';
+import { useLanguage, describeAIError } from '../App';
+import { CloseIcon, RefreshIcon, SunIcon } from './Icons';
+
+interface SweepRecipe {
+    productImage: ImageFile | null;
+    references: ReferenceImage[];
+    useMagicComposite: boolean;
+    params: GenerationParams;
+}
+
+interface SweepPanelProps extends SweepRecipe {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Loads the combination of a finished cell into the Control Panel. */
+    onApply: (selection: SweepSelection) => void;
+    /** How many mockup scenes the Control Panel has selected; unless mockups are an axis, a sweep renders only the first. */
+    sceneCount: number;
+}
+
+const selectablePresets = (category: PresetCategory) => getPresets(category).filter(p => p.id !== 'none');
+
+interface AxisPickerProps {
+    label: string;
+    category: PresetCategory | null;
+    categories: PresetCategory[];
+    presets: Preset[];
+    allowNone: boolean;
+    disabled: boolean;
+    onCategoryChange: (category: PresetCategory | null) => void;
+    onPresetsChange: (presets: Preset[]) => void;
+}
+
+const AxisPicker: React.FC<AxisPickerProps> = ({ label, category, categories, presets, allowNone, disabled, onCategoryChange, onPresetsChange }) => {
+    const { t } = useLanguage();
+    const toggle = (preset: Preset) => onPresetsChange(
+        presets.some(p => p.id === preset.id)
+            ? presets.filter(p => p.id !== preset.id)
+            : selectablePresets(category!).filter(p => p.id === preset.id || presets.some(s => s.id === p.id)),
+    );
+    return (
+        <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-200">
+                {label}
+                <select
+                    value={category ?? ''}
+                    onChange={(e) => onCategoryChange((e.target.value || null) as PresetCategory | null)}
+                    disabled={disabled}
+                    className="bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-white font-normal"
+                >
+                    {allowNone && <option value="">{t('sweepNoAxis')}</option>}
+                    {categories.map(c => <option key={c} value={c}>{t(PRESET_CATEGORY_LABEL_KEYS[c])}</option>)}
+                </select>
+            </label>
+            {category && (
+                <div className="flex flex-wrap gap-1.5">
+                    {selectablePresets(category).map(preset => {
+                        const isSelected = presets.some(p => p.id === preset.id);
+                        return (
+                            <button
+                                key={preset.id}
+                                onClick={() => toggle(preset)}
+                                disabled={disabled}
+                                title={t(preset.description, preset.description)}
+                                className={`px-2.5 py-1 text-xs rounded-full border transition-colors ${isSelected ? 'border-cyan-400 bg-cyan-500/20 text-white' : 'border-[var(--border-color)] text-gray-300 hover:border-cyan-500/50'}`}
+                            >
+                                {t(preset.name, preset.name)}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Stays mounted while closed, like the batch panel, so a sweep in progress is not lost.
+const SweepPanel: React.FC<SweepPanelProps> = ({ isOpen, onClose, onApply, productImage, references, useMagicComposite, params, sceneCount }) => {
+    const { t } = useLanguage();
+    const [rowCategory, setRowCategory] = useState<PresetCategory>('lighting');
+    const [rowPresets, setRowPresets] = useState<Preset[]>([]);
+    const [columnCategory, setColumnCategory] = useState<PresetCategory | null>('camera');
+    const [columnPresets, setColumnPresets] = useState<Preset[]>([]);
+    const [cells, setCells] = useState<SweepCell[]>([]);
+    const [isRunning, setIsRunning] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+    // What the sheet was generated from, so retries and the labels stay consistent with it.
+    const recipeRef = useRef<SweepRecipe | null>(null);
+
+    if (!isOpen) return null;
+
+    const activeColumns = columnCategory && columnPresets.length ? columnPresets : [];
+    const plannedCount = rowPresets.length * Math.max(1, activeColumns.length);
+    const canStart = !!productImage && rowPresets.length > 0 && plannedCount <= MAX_SWEEP_CELLS && !isRunning;
+
+    const updateCell = (key: string, patch: Partial<SweepCell>) =>
+        setCells(prev => prev.map(cell => cell.key === key ? { ...cell, ...patch } : cell));
+
+    const runCells = async (toRun: SweepCell[], recipe: SweepRecipe) => {
+        if (!recipe.productImage) return;
+        const product = recipe.productImage;
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setIsRunning(true);
+        toRun.forEach(cell => updateCell(cell.key, { status: 'queued', error: undefined }));
+        try {
+            await runWithConcurrency(toRun, SWEEP_CONCURRENCY, async cell => {
+                if (controller.signal.aborted) return;
+                updateCell(cell.key, { status: 'running' });
+                try {
+                    const cellParams = applySweepSelection(recipe.params, cell.selection);
+                    const image = await generateImage(product, recipe.references, recipe.useMagicComposite, cellParams, { signal: controller.signal });
+                    if (!image) throw new Error(t('batchNoImage'));
+                    const result = await enforceAspectRatio(image, cellParams.exportSettings, { signal: controller.signal });
+                    updateCell(cell.key, { status: 'done', result });
+                } catch (error) {
+                    if (isCancellation(error)) {
+                        updateCell(cell.key, { status: 'queued' });
+                        return;
+                    }
+                    console.error(`Sweep cell "${cell.key}" failed:`, error);
+                    updateCell(cell.key, { status: 'failed', error: describeAIError(error, t, t('batchNoImage')) });
+                }
+            });
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+            setIsRunning(false);
+        }
+    };
+
+    const handleStart = () => {
+        const rows = { category: rowCategory, presets: rowPresets };
+        const columns = columnCategory && activeColumns.length ? { category: columnCategory, presets: activeColumns } : null;
+        const next = buildSweepCells(rows, columns);
+        recipeRef.current = { productImage, references, useMagicComposite, params };
+        setCells(next);
+        runCells(next, recipeRef.current);
+    };
+
+    const handleRetry = (cell: SweepCell) => recipeRef.current && runCells([cell], recipeRef.current);
+
+    const handleApply = (cell: SweepCell) => {
+        onApply(cell.selection);
+        onClose();
+    };
+
+    // Labels come from the generated cells, not the pickers, which may have changed since.
+    const sheetRows = cells.filter((cell, index) => cells.findIndex(c => c.row.id === cell.row.id) === index).map(cell => cell.row);
+    const sheetColumns = cells.filter(cell => cell.row.id === sheetRows[0]?.id).map(cell => cell.column).filter((c): c is Preset => !!c);
+    const frame = aspectRatioToCss((recipeRef.current?.params ?? params).exportSettings.aspectRatio);
+
+    const renderCell = (cell: SweepCell) => (
+        <div key={cell.key} className="relative rounded-lg overflow-hidden bg-black/30 border border-[var(--border-color)]" style={{ aspectRatio: frame }}>
+            {cell.result ? (
+                <button onClick={() => handleApply(cell)} className="group w-full h-full" title={t('sweepApply')}>
+                    <img src={`data:${cell.result.mimeType};base64,${cell.result.base64}`} alt={cell.key} className="w-full h-full object-cover" />
+                    <span className="absolute inset-0 flex items-center justify-center bg-black/60 text-xs font-bold text-white opacity-0 group-hover:opacity-100 transition-opacity">{t('sweepApply')}</span>
+                </button>
+            ) : (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-2 p-2 text-center">
+                    {cell.status === 'running' && <div className="w-6 h-6 border-2 border-t-white border-white/30 rounded-full animate-spin" />}
+                    {cell.status === 'queued' && <span className="text-xs text-gray-400">{t('batchStatus_queued')}</span>}
+                    {cell.status === 'failed' && (
+                        <>
+                            <span className="text-xs text-red-400 line-clamp-3" title={cell.error}>{cell.error}</span>
+                            {!isRunning && (
+                                <button onClick={() => handleRetry(cell)} className="text-xs font-semibold text-cyan-300 hover:text-white flex items-center gap-1">
+                                    <RefreshIcon className="w-4 h-4" /> {t('batchRetry')}
+                                </button>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/50 backdrop-blur-md z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-[rgba(16,18,42,0.5)] backdrop-blur-2xl border border-[var(--border-color)] rounded-2xl shadow-2xl shadow-black/20 w-full max-w-6xl h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-[var(--border-color)]">
+                    <div className="flex items-center gap-3">
+                        <SunIcon className="w-6 h-6 text-cyan-400" />
+                        <h2 className="text-xl font-bold text-gray-100">{t('sweepTitle')}</h2>
+                    </div>
+                    <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors" aria-label={t('close')}>
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="p-5 border-b border-[var(--border-color)] space-y-4 max-h-[40vh] overflow-y-auto">
+                    <p className="text-sm text-gray-300">{t('sweepDescription')}</p>
+                    <AxisPicker
+                        label={t('sweepRows')}
+                        category={rowCategory}
+                        categories={PRESET_CATEGORIES.filter(c => c !== columnCategory)}
+                        presets={rowPresets}
+                        allowNone={false}
+                        disabled={isRunning}
+                        onCategoryChange={(category) => { setRowCategory(category!); setRowPresets([]); }}
+                        onPresetsChange={setRowPresets}
+                    />
+                    <AxisPicker
+                        label={t('sweepColumns')}
+                        category={columnCategory}
+                        categories={PRESET_CATEGORIES.filter(c => c !== rowCategory)}
+                        presets={columnPresets}
+                        allowNone
+                        disabled={isRunning}
+                        onCategoryChange={(category) => { setColumnCategory(category); setColumnPresets([]); }}
+                        onPresetsChange={setColumnPresets}
+                    />
+                    <div className="flex flex-wrap items-center gap-3">
+                        <span className={`text-sm ${plannedCount > MAX_SWEEP_CELLS ? 'text-red-400' : 'text-gray-300'}`}>
+                            {(plannedCount > MAX_SWEEP_CELLS ? t('sweepTooMany') : t('sweepCount'))
+                                .replace('{count}', String(plannedCount))
+                                .replace('{max}', String(MAX_SWEEP_CELLS))}
+                        </span>
+                        {!productImage && <span className="text-sm text-yellow-300">{t('sweepNeedsProduct')}</span>}
+                        {sceneCount > 1 && rowCategory !== 'mockup' && columnCategory !== 'mockup' && (
+                            <span className="text-sm text-yellow-300">{t('firstSceneOnly').replace('{count}', String(sceneCount)).replace('{name}', t(params.mockupPreset.name, params.mockupPreset.name))}</span>
+                        )}
+                        <div className="flex-1" />
+                        {isRunning ? (
+                            <button onClick={() => controllerRef.current?.abort()} className="py-2 px-4 text-sm font-bold rounded-lg border border-red-400 text-red-300 hover:bg-red-500/10">
+                                {t('cancelGeneration')}
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleStart}
+                                disabled={!canStart}
+                                className={`py-2 px-5 text-sm font-bold rounded-lg transition-all ${!canStart ? 'bg-gray-700/50 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-r from-cyan-500 to-sky-500 text-white'}`}
+                            >
+                                {t('sweepStart')}
+                            </button>
+                        )}
+                    </div>
+                </div>
+                <div className="flex-1 overflow-auto p-5">
+                    {cells.length === 0 ? (
+                        <p className="text-center text-sm text-gray-400 py-8">{t('sweepEmpty')}</p>
+                    ) : (
+                        <div className="grid gap-2 items-center" style={{ gridTemplateColumns: `8rem repeat(${Math.max(1, sheetColumns.length)}, minmax(7rem, 1fr))` }}>
+                            <div />
+                            {sheetColumns.length
+                                ? sheetColumns.map(column => <div key={column.id} className="text-xs font-semibold text-gray-200 text-center truncate" title={t(column.name, column.name)}>{t(column.name, column.name)}</div>)
+                                : <div />}
+                            {sheetRows.map(row => (
+                                <React.Fragment key={row.id}>
+                                    <div className="text-xs font-semibold text-gray-200 break-words">{t(row.name, row.name)}</div>
+                                    {cells.filter(cell => cell.row.id === row.id).map(renderCell)}
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SweepPanel;
@@ -0,0 +1,103 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { getSessionUsage, subscribeToSessionUsage, getBudgetStatus, setUsageBudget, resetSessionUsage, formatCostUsd, formatTokenCount } from '../services/usage';
+import { useLanguage } from '../App';
+import ResultCacheControls from './ResultCacheControls';
+
+const STATUS_CLASSES = {
+    ok: 'text-gray-200 bg-black/20 border-white/20',
+    warn: 'text-yellow-200 bg-yellow-500/10 border-yellow-500/40',
+    exceeded: 'text-red-300 bg-red-500/10 border-red-500/40',
+};
+
+const UsageMeter: React.FC = () => {
+    const { t } = useLanguage();
+    const usage = useSyncExternalStore(subscribeToSessionUsage, getSessionUsage);
+    const [isOpen, setIsOpen] = useState(false);
+    const status = getBudgetStatus(usage);
+    const { totals, budget } = usage;
+
+    const handleLimitChange = (value: string) => {
+        const limit = parseFloat(value);
+        setUsageBudget({ ...budget, limitUsd: Number.isFinite(limit) && limit > 0 ? limit : null });
+    };
+
+    const handleWarnAtChange = (value: string) => {
+        const percent = parseFloat(value);
+        if (Number.isFinite(percent)) setUsageBudget({ ...budget, warnAt: Math.min(100, Math.max(1, percent)) / 100 });
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className={`text-xs font-semibold px-2.5 py-1 rounded-md border transition-colors ${STATUS_CLASSES[status]}`}
+                title={status === 'exceeded' ? t('usageBudgetExceeded') : status === 'warn' ? t('usageBudgetWarning') : t('usageTooltip')}
+            >
+                {formatCostUsd(totals.costUsd)}
+                {budget.limitUsd !== null && <span className="opacity-70"> / {formatCostUsd(budget.limitUsd)}</span>}
+                <span className="opacity-70"> · {formatTokenCount(totals.inputTokens + totals.outputTokens)} {t('usageTokensShort')}</span>
+            </button>
+            {isOpen && (
+                <div className="absolute end-0 top-full mt-2 w-80 bg-slate-800/90 backdrop-blur-lg border border-white/10 rounded-lg shadow-lg z-40 p-4 space-y-4 text-sm text-gray-200">
+                    <div>
+                        <h3 className="font-semibold text-gray-100 mb-2">{t('usageSessionTitle')}</h3>
+                        <dl className="grid grid-cols-2 gap-y-1 text-xs">
+                            <dt className="text-gray-400">{t('usageCalls')}</dt><dd className="text-end">{totals.calls}</dd>
+                            <dt className="text-gray-400">{t('usageInputTokens')}</dt><dd className="text-end">{totals.inputTokens.toLocaleString()}</dd>
+                            <dt className="text-gray-400">{t('usageOutputTokens')}</dt><dd className="text-end">{totals.outputTokens.toLocaleString()}</dd>
+                            <dt className="text-gray-400">{t('usageImages')}</dt><dd className="text-end">{totals.images}</dd>
+                            <dt className="text-gray-400">{t('usageEstimatedCost')}</dt><dd className="text-end font-semibold">{formatCostUsd(totals.costUsd)}</dd>
+                        </dl>
+                    </div>
+                    {Object.keys(usage.byOperation).length > 0 && (
+                        <div>
+                            <h3 className="font-semibold text-gray-100 mb-2">{t('usageByOperation')}</h3>
+                            <ul className="space-y-1 text-xs">
+                                {Object.entries(usage.byOperation).map(([operation, opTotals]) => (
+                                    <li key={operation} className="flex justify-between gap-2">
+                                        <span className="text-gray-300 truncate">{t(`usageOp_${operation}`, operation)}</span>
+                                        <span className="whitespace-nowrap">{opTotals.calls}× · {formatCostUsd(opTotals.costUsd)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    <div className="space-y-2">
+                        <h3 className="font-semibold text-gray-100">{t('usageBudgetTitle')}</h3>
+                        <label className="flex items-center justify-between gap-2 text-xs">
+                            <span className="text-gray-400">{t('usageBudgetLimit')}</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                defaultValue={budget.limitUsd ?? ''}
+                                placeholder={t('usageBudgetNone')}
+                                onChange={(e) => handleLimitChange(e.target.value)}
+                                className="w-24 bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-white text-end"
+                            />
+                        </label>
+                        <label className="flex items-center justify-between gap-2 text-xs">
+                            <span className="text-gray-400">{t('usageBudgetWarnAt')}</span>
+                            <input
+                                type="number"
+                                min="1"
+                                max="100"
+                                defaultValue={Math.round(budget.warnAt * 100)}
+                                onChange={(e) => handleWarnAtChange(e.target.value)}
+                                className="w-24 bg-black/20 border border-[var(--border-color)] rounded-md px-2 py-1 text-white text-end"
+                            />
+                        </label>
+                        {status === 'exceeded' && <p className="text-xs text-red-300">{t('usageBudgetExceeded')}</p>}
+                    </div>
+                    <ResultCacheControls />
+                    <div className="flex items-center justify-between">
+                        <p className="text-[10px] text-gray-400">{t('usageEstimateNote')}</p>
+                        <button onClick={resetSessionUsage} className="text-xs font-semibold text-cyan-300 hover:text-white whitespace-nowrap ms-2">{t('usageReset')}</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UsageMeter;
@@ -1,6 +1,6 @@
 import React from 'react';
-import { CameraPreset, LightingPreset, MockupPreset, ManipulationPreset, RetouchPreset, PeopleRetouchPreset, AspectRatio, LightDirection, WbAndGrade, IllustrationStylePreset } from './types';
-import { CameraIcon, SunIcon, CubeTransparentIcon, WandIcon, ArrowsExpandIcon, LayersIcon, SlashIcon, UserIcon, PaintBrushIcon } from './components/Icons';
+import { CameraPreset, LightingPreset, MockupPreset, ManipulationPreset, RetouchPreset, PeopleRetouchPreset, AspectRatio, LightDirection, WbAndGrade, IllustrationStylePreset, PresetIconId, ExportSettings, RetouchOptions } from './types';
+import { CameraIcon, SunIcon, CubeTransparentIcon, WandIcon, ArrowsExpandIcon, LayersIcon, SlashIcon, UserIcon, PaintBrushIcon, SparklesIcon, EyeIcon, PhotoIcon } from './components/Icons';
 
 export const CAMERA_PRESETS: CameraPreset[] = [
     { id: 'none', name: 'None', description: 'No specific camera instructions. The AI will decide the best angle.', metadata: '', icon: <SlashIcon className="w-6 h-6" /> },
@@ -117,10 +117,19 @@ export const RETOUCH_PRESETS: RetouchPreset[] = [
 ];
 
 export const EXPORT_ASPECT_RATIOS: { value: AspectRatio; label: string }[] = [
+    { value: '1:1', label: 'Square' },
     { value: '4:5', label: 'Portrait' },
+    { value: '9:16', label: 'Story' },
     { value: '16:9', label: 'Landscape' },
+    { value: '3:2', label: 'Photo' },
+    { value: '2:3', label: 'Tall Photo' },
+    { value: '21:9', label: 'Cinematic' },
 ];
 
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { aspectRatio: '4:5', fitMode: 'pad', transparent: false };
+
+export const VARIATION_COUNTS = [1, 2, 3, 4];
+
 export const ILLUSTRATION_STYLE_PRESETS: IllustrationStylePreset[] = [
     { id: 'none', name: 'Custom Prompt Style', description: 'No specific style preset. The AI will be guided primarily by your custom text prompt.', icon: <SlashIcon className="w-6 h-6" /> },
     { id: 'vector', name: 'Clean Vector Art', description: 'Sharp lines, flat colors, and smooth gradients. Ideal for logos and modern graphics.', icon: <PaintBrushIcon className="w-6 h-6" /> },
@@ -137,6 +146,19 @@ export const ILLUSTRATION_STYLE_PRESETS: IllustrationStylePreset[] = [
     { id: 'gouache', name: 'Matte Gouache', description: 'Opaque, flat colors with a matte finish, perfect for a bold, graphic illustration style.', icon: <PaintBrushIcon className="w-6 h-6" /> },
 ];
 
+export const PRESET_ICONS: Record<PresetIconId, React.ReactNode> = {
+    camera: <CameraIcon className="w-6 h-6" />,
+    sun: <SunIcon className="w-6 h-6" />,
+    cube: <CubeTransparentIcon className="w-6 h-6" />,
+    layers: <LayersIcon className="w-6 h-6" />,
+    wand: <WandIcon className="w-6 h-6" />,
+    user: <UserIcon className="w-6 h-6" />,
+    brush: <PaintBrushIcon className="w-6 h-6" />,
+    sparkles: <SparklesIcon className="w-6 h-6" />,
+    eye: <EyeIcon className="w-6 h-6" />,
+    photo: <PhotoIcon className="w-6 h-6" />,
+};
+
 export const ENVIRONMENT_PRESETS = [
     "Auto-Match",
     "Editorial Studio",
@@ -157,4 +179,22 @@ export const ENVIRONMENT_PRESETS = [
 
 export const LIGHT_DIRECTIONS: LightDirection[] = ['Auto', 'Left', 'Right', 'Top', 'Back'];
 
-export const WB_AND_GRADES: WbAndGrade[] = ['Auto', 'Neutral', 'Filmic', 'Cinematic (Teal & Orange)', 'Warm Interior', 'Cool Night', 'Monochrome', 'Cross-Process'];
\ No newline at end of file
+export const WB_AND_GRADES: WbAndGrade[] = ['Auto', 'Neutral', 'Filmic', 'Cinematic (Teal & Orange)', 'Warm Interior', 'Cool Night', 'Monochrome', 'Cross-Process'];
+
+export const DEFAULT_RETOUCH_OPTIONS: RetouchOptions = {
+    smoothness: 50,
+    lightBalance: 50,
+    correctSkinTones: true,
+    sharpen: true,
+    removeBlemishes: true,
+    backgroundBlur: 0,
+    hdrEffect: 0,
+    vintageFade: 0,
+    glossySkin: false,
+    environmentHarmony: true,
+    lightDirection: 'Auto',
+    keyFillRatio: 50,
+    shadowSoftness: 50,
+    wbAndGrade: 'Auto',
+    artistCommand: '',
+};
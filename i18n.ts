@@ -9,6 +9,8 @@ export const translations = {
     enterFullscreen: 'Enter fullscreen',
     exitFullscreen: 'Exit fullscreen',
     exitFullscreenEsc: 'Exit fullscreen (Esc)',
+    mockProviderBadge: 'Mock Backend',
+    mockProviderTooltip: 'Running on the offline mock backend. Results are procedurally generated, not AI output.',
 
     // Mode Switcher
     designKit: 'Design Kit',
@@ -17,8 +19,8 @@ export const translations = {
     // Left Panel (Design Kit)
     productImageTitle: '1. Product Image',
     productImageDescription: 'Upload your raw product photo.',
-    referenceImageTitle: '2. Reference Image (Optional)',
-    referenceImageDescription: 'Provides stylistic inspiration for the AI to generate a new background.',
+    referenceImageTitle: '2. Mood Board (Optional)',
+    referenceImageDescription: 'Up to 6 reference images for the new background. Tag each with the aspect it should govern and how strongly.',
     creativePromptTitle: '3. Creative Prompt',
     creativePromptDescription: 'Describe any specific changes or let the AI suggest a creative direction for you.',
     promptPlaceholder: "e.g., 'A dramatic shot of the product on a volcanic rock...'",
@@ -30,8 +32,8 @@ export const translations = {
     retouch: 'Retouch',
     baseImageTitle: '1. Base Image',
     baseImageDescription: 'Upload a photo or sketch to transform.',
-    styleReferenceTitle: '2. Style Reference (Optional)',
-    styleReferenceDescription: 'Provides art direction for the AI.',
+    styleReferenceTitle: '2. Style References (Optional)',
+    styleReferenceDescription: 'Up to 6 images for the art direction, each tagged with the aspect it governs.',
     illustrationStyleTitle: '3. Illustration Style',
     useStylePreset: 'Use Style Preset',
     useStylePresetOn: "Choose a preset below to guide the AI's art style.",
@@ -124,7 +126,7 @@ export const translations = {
 
     // Magic Composite
     magicCompositeTitle: 'Magic Composite',
-    magicCompositeDescription: 'When enabled, the AI analyzes both images and automatically selects the best Design Kit presets for a perfect blend. Toggling off reverts to manual control.',
+    magicCompositeDescription: 'When enabled, the AI analyzes your product (and the reference, if you add one) and automatically selects the best Design Kit presets. Toggling off reverts to manual control.',
 
     // Prompt Suggestions Modal
     promptSuggestionsTitle: 'AI Prompt Suggestions',
@@ -172,6 +174,13 @@ export const translations = {
     aiPick: 'AI Pick',
     aiThinking: 'AI is Thinking...',
     generateImage: 'Generate Image',
+    variations: 'Variations',
+    variationsTooltip: 'Generate several candidates in parallel with the same settings',
+    candidatesTitle: 'Candidates',
+    scenesTitle: 'Mockup Scenes',
+    sceneProgress: 'Scene {current} of {total}: {name}',
+    candidatePromoteTooltip: 'Use this candidate as the main result',
+    candidateAlt: 'Generated candidate {index}',
     upscaleTooltip: 'Enhance image quality',
     upscaling: 'Upscaling...',
     upscale: 'Upscale',
@@ -180,15 +189,348 @@ export const translations = {
     aspectRatio: 'Aspect Ratio',
     'Portrait': 'Portrait',
     'Landscape': 'Landscape',
+    'Square': 'Square',
+    'Story': 'Story',
+    'Photo': 'Photo',
+    'Tall Photo': 'Tall Photo',
+    'Cinematic': 'Cinematic',
+    aspectCustom: 'Custom',
+    aspectCustomWidth: 'Width ratio',
+    aspectCustomHeight: 'Height ratio',
+    aspectCustomInvalid: 'Use whole numbers from 1 to 9999.',
+    aspectFitMode: 'Exact Frame',
+    aspectFitModeDescription: 'If a result comes back in a different shape, how to bring it to the exact ratio.',
+    aspectFitPad: 'Extend scene',
+    aspectFitCrop: 'Crop to product',
     transparentBackground: 'Transparent Background (PNG)',
 
     // Loader
     'loader.generating': 'Generating your masterpiece...',
     'loader.warmingUp': 'The AI is warming up its pixels.',
+    cancelGeneration: 'Cancel',
+    cancelGenerationTooltip: 'Stop this request and keep the previous result',
+
+    // Prompt Templates
+    promptTemplatesTitle: 'Prompt Templates',
+    templateCustomized: 'Customized',
+    templateSaveVersion: 'Save as New Version',
+    templateDiscard: 'Discard Changes',
+    templateResetDefault: 'Reset to Default',
+    templatePlaceholders: 'Placeholders',
+    templateSyntaxHelp: 'Click a placeholder to insert it. Wrap text in {{#name}}...{{/name}} to include it only when the value is set, {{^name}}...{{/name}} for the opposite, or {{#name=value}}...{{/name}} to match a value.',
+    templateHistory: 'Version History',
+    templateDefaultVersion: 'Built-in default',
+    templateActive: 'Active',
+    templateRestore: 'Restore',
+    templateUnknownPlaceholder: 'Unknown placeholder "{name}".',
+    templateUnexpectedClose: 'Closing tag for "{name}" does not match an open section.',
+    templateUnclosedSection: 'Section "{name}" is never closed.',
+
+    // Prompt Inspector
+    viewPrompt: 'View prompt',
+    promptInspectorTitle: 'Prompt Inspector',
+    promptImageParts: 'Image parts',
+    promptTextPart: 'Instruction text',
+    promptPartProduct: 'Product',
+    promptPartReference: 'Style reference',
+    promptPartBase: 'Base image',
+    promptPartPerson: 'Portrait',
+    promptPartLogo: 'Brand logo',
+    promptEdited: 'edited',
+    promptRevert: 'Revert to assembled',
+    promptSend: 'Send',
+    promptSendEdited: 'Send Edited Prompt',
+    promptInspectorFooter: 'Edits apply to this request only and do not change your templates.',
+
+    // Usage & Budget
+    usageTooltip: 'Estimated AI usage this session',
+    usageTokensShort: 'tok',
+    usageSessionTitle: 'This Session',
+    usageCalls: 'API calls',
+    usageInputTokens: 'Input tokens',
+    usageOutputTokens: 'Output tokens',
+    usageImages: 'Images generated',
+    usageEstimatedCost: 'Estimated cost',
+    usageByOperation: 'By Operation',
+    usageBudgetTitle: 'Session Budget',
+    usageBudgetLimit: 'Limit (USD)',
+    usageBudgetNone: 'None',
+    usageBudgetWarnAt: 'Warn at (%)',
+    usageBudgetWarning: 'Approaching the session budget',
+    usageBudgetExceeded: 'Session budget reached. Raise the limit or reset usage to keep generating.',
+    usageEstimateNote: 'Estimated from list prices; your bill may differ.',
+    usageReset: 'Reset',
+    usageOp_analyzeForCompositeSuggestions: 'Analysis',
+    usageOp_generateImage: 'Design Kit',
+    usageOp_generateDesignKitPrompt: 'Prompt suggestions',
+    usageOp_generateIllustrationPrompts: 'Illustration suggestions',
+    usageOp_generateIllustration: 'Illustration',
+    usageOp_generateRetouchPrompts: 'Retouch suggestions',
+    usageOp_performSmartRetouch: 'Smart Retouch',
+    usageOp_generateEnvironment: 'Environment',
+    usageOp_upscaleImage: 'Upscale',
+    usageOp_outpaintImage: 'Outpaint',
+    usageOp_inpaintImage: 'Region edit',
+    usageOp_refineImage: 'Refinement',
+    usageOp_vectorizeImage: 'Vectorize',
+    cacheTitle: 'Result Cache',
+    cacheBypass: 'Bypass cache',
+    cacheTtlHours: 'Keep results (hours)',
+    cacheStats: '{entries} saved · {size} of {max}',
+    cacheClear: 'Clear',
+
+    // Batch mode
+    batchOpen: 'Batch',
+    batchTitle: 'Batch Design Kit',
+    batchDescription: 'Every product is generated with the current presets, prompt, reference and export settings. Results are named after the product file.',
+    batchAddProducts: 'Add products',
+    batchConcurrency: 'Parallel jobs',
+    batchStart: 'Generate {count}',
+    batchDownloadZip: 'Download zip',
+    batchProgress: '{done} of {total} done · {failed} failed',
+    batchEmpty: 'Drop product images here or use "Add products".',
+    batchRetry: 'Retry',
+    batchRemove: 'Remove',
+    batchNoImage: 'The model returned no image.',
+    batchStatus_queued: 'Queued',
+    batchStatus_running: 'Generating...',
+    batchStatus_done: 'Done',
+    batchStatus_failed: 'Failed',
+
+    // Preset sweep
+    sweepOpen: 'Sweep',
+    sweepTitle: 'Preset Sweep',
+    sweepDescription: 'Generate the current product once per preset combination. Pick presets along one or two axes; every other setting stays as in the Control Panel. Click a result to load its presets.',
+    sweepRows: 'Rows',
+    sweepColumns: 'Columns',
+    sweepNoAxis: 'None',
+    sweepCount: '{count} images',
+    sweepTooMany: '{count} images: a sweep is limited to {max}',
+    sweepNeedsProduct: 'Upload a product image first.',
+    sweepStart: 'Generate sheet',
+    sweepEmpty: 'Choose presets for at least one axis, then generate the contact sheet.',
+    sweepApply: 'Use these presets',
+    firstSceneOnly: '{count} mockup scenes are selected; only the first, "{name}", is used here.',
+
+    // A/B comparison
+    abOpen: 'A/B',
+    abTitle: 'A/B Comparison',
+    abDescription: 'Compare two Design Kit settings on the same product and references. Each side starts from the Control Panel; change its presets, prompt or Magic Composite here, or load a saved recipe. Differences are highlighted in amber.',
+    abSideA: 'A',
+    abSideB: 'B',
+    abLoad: 'Load settings…',
+    abLoadCurrent: 'Current controls',
+    abTransparent: 'transparent',
+    abPrompt: 'Prompt',
+    abDiffers: 'The sides differ here',
+    abDiffSummary: 'Differs in: {list}',
+    abIdentical: 'Both sides are identical.',
+    abStart: 'Generate A and B',
+    abEmpty: 'Adjust the two sides, then generate them to see the results side by side.',
+    abUse: 'Use {side}',
+    abZoom: 'Zoom',
+    abZoomReset: 'Reset',
+    abZoomHint: 'Scroll to zoom and drag to pan; both sides follow. Double-click resets.',
+    abOneScene: 'Each side renders a single image. Keep one scene selected.',
+    abNoVariations: 'Each side renders one image; the variation count ({count}) is not used.',
+
+    // Brand kits
+    brandKitTitle: 'Brand Kits',
+    brandKitChipNone: 'No brand',
+    brandKitLabel: 'Brand',
+    brandKitNone: 'No brand (off)',
+    brandKitNew: '+ New brand',
+    brandKitName: 'Name',
+    brandKitUntitled: 'Untitled brand',
+    brandKitColors: 'Brand colors',
+    brandKitBannedColors: 'Banned colors',
+    brandKitAddColor: 'Add',
+    brandKitRemoveColor: 'Remove color',
+    brandKitMoodWords: 'Mood words',
+    brandKitMoodWordsPlaceholder: 'e.g. warm, playful, premium',
+    brandKitLogo: 'Logo',
+    brandKitUploadLogo: 'Upload logo',
+    brandKitRemoveLogo: 'Remove',
+    brandKitAttachLogo: 'Send the logo with every request',
+    brandKitSave: 'Save',
+    brandKitSaveFailed: 'Could not save the brand kit. The logo may be too large for local storage.',
+    brandKitActivate: 'Use this brand',
+    brandKitActive: 'Active brand',
+    brandKitDelete: 'Delete',
+    brandKitEmpty: 'No brand kits yet. Create one to apply its colors, mood and logo to every generation.',
+
+    // Color compliance
+    complianceTitle: 'Brand color check',
+    compliancePalette: 'Dominant palette',
+    complianceTargets: 'Target colors',
+    complianceEyedropper: 'Pick from product',
+    complianceSamplingHint: 'Click the product image...',
+    complianceUseBrandKit: 'Use brand kit colors',
+    complianceNoTargets: 'Add target colors to check the result against them.',
+    complianceLegend: 'CIEDE2000 to the closest dominant color: pass ≤ {pass}, warn ≤ {warn}, fail above.',
+    complianceStatus_pass: 'Pass',
+    complianceStatus_warn: 'Warn',
+    complianceStatus_fail: 'Fail',
+
+    // Ad layout composer
+    adComposerOpen: 'Add copy & logo',
+    adComposerTitle: 'Ad Layout',
+    adTemplates: 'Templates',
+    adTemplateClassic: 'Classic',
+    adTemplateBanner: 'Bottom banner',
+    adTemplateStory: 'Story',
+    adTemplateLowerThird: 'Lower third',
+    adTemplateSidePanel: 'Side panel',
+    adDefaultHeadline: 'Your headline here',
+    adDefaultCta: 'Shop now',
+    adLayers: 'Layers',
+    adLayerText: 'Text',
+    adLayerShape: 'Shape',
+    adLayerLogo: 'Logo',
+    adLayerUp: 'Move up',
+    adLayerDown: 'Move down',
+    adLayerDelete: 'Delete layer',
+    adShape_rect: 'Rectangle',
+    adShape_pill: 'Pill',
+    adShape_ellipse: 'Ellipse',
+    adFontSize: 'Size',
+    adAlign_left: 'Left',
+    adAlign_center: 'Center',
+    adAlign_right: 'Right',
+    adRtl: 'RTL',
+    adOpacity: 'Opacity',
+    adWidth: 'Width %',
+    adHeight: 'Height %',
+    adUseBrandLogo: 'Use brand logo',
+    adExportLayout: 'Save layout (JSON)',
+    adImportLayout: 'Load layout',
+    adLayoutImportFailed: 'That file is not a valid ad layout.',
+
+    // Campaign pack
+    campaignOpen: 'Campaign pack',
+    campaignTitle: 'Campaign Pack',
+    campaignDescription: 'Turns this result into every format below. Outpaint keeps the hero and extends the frame; Regenerate recreates the scene for the new frame using the hero as reference. The zip includes a manifest.json.',
+    campaignHero: 'Hero image',
+    campaignName: 'Campaign name',
+    campaignStart: 'Render {count} formats',
+    campaignFormatName: 'Format name',
+    campaignAddFormat: 'Add format',
+    campaignRemoveFormat: 'Remove format',
+    campaignMethod_outpaint: 'Outpaint',
+    campaignMethod_regenerate: 'Regenerate',
+    campaignDownloadFailed: 'The zip could not be built. Try again.',
+
+    // Region editing
+    maskEditOpen: 'Edit region',
+    maskEditTitle: 'Region to edit',
+    maskTool_brush: 'Brush',
+    maskTool_lasso: 'Lasso',
+    maskTool_erase: 'Erase',
+    maskBrushSize: 'Size',
+    maskClear: 'Clear',
+    maskInstructionPlaceholder: 'What should change in the marked area? e.g. "remove the cup"',
+    maskApply: 'Apply',
+    maskApplying: 'Editing the marked region...',
+    maskHint: 'Paint over or lasso the part to change. Everything outside the mask stays exactly as it is.',
+
+    // Refinement chat
+    refineTitle: 'Refine',
+    refineVersionCount: '{count} versions',
+    refineOriginal: 'Original',
+    refineShowVersion: 'Show this version',
+    refineEmpty: 'Describe a change, e.g. "warmer background, move the shadow left, less haze". Each message makes a new version and the chat remembers the earlier ones.',
+    refinePlaceholder: 'What should change?',
+    refineSend: 'Send',
+    refineHistoryBadge: 'Refinement version',
+
+    // Mood board
+    moodBoardImage: 'Reference',
+    moodBoardRole: 'Governs',
+    moodBoardRole_style: 'Overall style',
+    moodBoardRole_lighting: 'Lighting',
+    moodBoardRole_palette: 'Color palette',
+    moodBoardRole_composition: 'Composition',
+    moodBoardRole_texture: 'Texture',
+    moodBoardWeight: 'Weight',
+    moodBoardAdd: 'Add reference',
+    moodBoardLimit: '{count} of {max} images',
+
+    // Preset conflicts
+    presetConflictsTitle: 'Resolve these conflicts before generating',
+    presetConflict_incompatible: '{a} conflicts with {b}: {reason}',
+    presetConflict_tooMany: '{count} {category} presets selected. At most {max} combine into one coherent shot.',
+    presetConflict_transparentScene: 'Transparent export removes the background, so the {names} scene would be lost.',
+    presetConflictReason_angle: 'they ask for incompatible camera angles.',
+    presetConflictReason_framing: 'one is a close-up, the other a wide shot.',
+    presetConflictReason_contrast: 'one needs a dark background, the other a bright one.',
+    presetConflictReason_colorTemperature: 'their light colors clash.',
+    presetConflictReason_shadowHardness: 'one asks for soft shadows, the other for hard ones.',
+    presetConflictReason_glare: 'cross-polarizing removes the highlights the other setup creates.',
+    presetConflictReason_setting: 'a black studio setup does not fit an outdoor scene.',
+    presetFix_deselect: 'Remove {names}',
+    presetFix_opaqueExport: 'Turn off transparent export',
+
+    // Custom presets
+    customPresetsOpen: 'Custom presets',
+    customPresetsTitle: 'Custom Presets',
+    customPresetBadge: 'Custom',
+    customPresetCategory: 'Category',
+    customPresetNoneInCategory: 'No custom presets in this category yet.',
+    customPresetNew: '+ New preset',
+    customPresetEmpty: 'Pick a preset to edit, or create a new one. Custom presets appear after the built-in ones in their section.',
+    customPresetName: 'Name',
+    customPresetUntitled: 'Untitled preset',
+    customPresetDescription: 'Description',
+    customPresetDescriptionPlaceholder: 'What the preset does, written as an instruction for the AI.',
+    customPresetMetadata: 'Technical hint',
+    customPresetMetadataPlaceholder: 'e.g. key: 120cm octa 45° left, fill: white bounce, ratio 1:0.5, wb 5200K',
+    customPresetIcon: 'Icon',
+    customPresetSave: 'Save preset',
+    customPresetSaveFailed: 'The preset could not be saved. The browser storage may be full.',
+    customPresetDelete: 'Delete preset',
+    customPresetImport: 'Import pack',
+    customPresetExport: 'Export pack',
+    customPresetImported: 'Imported {count} presets.',
+    customPresetImportFailed: 'This file is not a valid preset pack.',
+
+    // Recipes
+    recipesOpen: 'Recipes',
+    recipesTitle: 'Recipes',
+    recipeNamePlaceholder: 'Recipe name, e.g. "Amber bottle on marble"',
+    recipeSaveCurrent: 'Save current {mode} settings',
+    recipeUntitled: 'Untitled recipe',
+    recipeSaved: 'Recipe saved.',
+    recipeSaveFailed: 'The recipe could not be saved. The browser storage may be full.',
+    recipeEmpty: 'No recipes yet. Save the current settings to reuse them in one click.',
+    recipeApply: 'Apply',
+    recipeApplied: '"{name}" applied.',
+    recipeMissingPresets: 'Applied, but these presets are not available here and were skipped: {ids}',
+    recipeCopyLink: 'Copy link',
+    recipeLinkCopied: 'Link copied. Opening it restores these settings.',
+    recipeLinkFailed: 'The link could not be copied.',
+    recipeLinkInvalid: 'The recipe in this link could not be read.',
+    recipeFromLink: 'The settings of "{name}" were restored from the link.',
+    recipeSaveShared: 'Save to my recipes',
+    recipeExport: 'Export',
+    recipeExportAll: 'Export all',
+    recipeImport: 'Import',
+    recipeImported: 'Imported {count} recipes.',
+    recipeImportFailed: 'This file is not a valid recipe file.',
+    recipeDelete: 'Delete recipe',
 
     // Offline Banner
     offlineMessage: 'You are currently offline. Some features may be unavailable.',
 
+    // AI Errors
+    errorSafety: 'The request was blocked by the safety filter ({category}). Try a different image or rephrase your prompt and presets.',
+    errorSafetyUnknownCategory: 'policy violation',
+    errorQuota: 'The AI rate limit or quota has been reached. Wait a minute before trying again, or check your API plan.',
+    errorNetwork: 'Could not reach the AI service. Check your internet connection and try again.',
+    errorNoImage: 'The AI responded without an image. Try again, or simplify your presets and prompt.',
+    errorInvalidJson: 'The AI returned an unexpected response. Please try again.',
+    errorBudget: 'The session budget of {limit} has been reached. Raise or remove the limit from the usage meter in the header.',
+    errorFinishReason: '(Finish reason: {reason})',
+
     // Preset Names & Descriptions will be translated here using the full English string as the key.
     // Example:
     'None': 'None',
@@ -206,6 +548,8 @@ export const translations = {
     enterFullscreen: 'دخول وضع ملء الشاشة',
     exitFullscreen: 'الخروج من وضع ملء الشاشة',
     exitFullscreenEsc: 'الخروج من وضع ملء الشاشة (Esc)',
+    mockProviderBadge: 'خادم تجريبي',
+    mockProviderTooltip: 'يعمل على الخادم التجريبي دون اتصال. النتائج مولدة إجرائيًا وليست من الذكاء الاصطناعي.',
 
     // Mode Switcher
     designKit: 'مجموعة التصميم',
@@ -214,8 +558,8 @@ export const translations = {
     // Left Panel (Design Kit)
     productImageTitle: '1. صورة المنتج',
     productImageDescription: 'ارفع صورة منتجك الخام.',
-    referenceImageTitle: '2. صورة مرجعية (اختياري)',
-    referenceImageDescription: 'توفر إلهامًا أسلوبيًا للذكاء الاصطناعي لإنشاء خلفية جديدة.',
+    referenceImageTitle: '2. لوحة الإلهام (اختياري)',
+    referenceImageDescription: 'حتى 6 صور مرجعية للخلفية الجديدة. حدّد لكل صورة الجانب الذي تتحكم فيه ومدى قوته.',
     creativePromptTitle: '3. موجه إبداعي',
     creativePromptDescription: 'صف أي تغييرات محددة أو دع الذكاء الاصطناعي يقترح اتجاهًا إبداعيًا لك.',
     promptPlaceholder: "مثال: 'لقطة درامية للمنتج على صخرة بركانية...'",
@@ -227,8 +571,8 @@ export const translations = {
     retouch: 'تعديل الصور',
     baseImageTitle: '1. الصورة الأساسية',
     baseImageDescription: 'ارفع صورة أو رسمًا لتحويله.',
-    styleReferenceTitle: '2. مرجع النمط (اختياري)',
-    styleReferenceDescription: 'يوفر توجيهًا فنيًا للذكاء الاصطناعي.',
+    styleReferenceTitle: '2. مراجع النمط (اختياري)',
+    styleReferenceDescription: 'حتى 6 صور للتوجيه الفني، لكل منها الجانب الذي تتحكم فيه.',
     illustrationStyleTitle: '3. نمط الصورة الفنية',
     useStylePreset: 'استخدام إعداد نمط مسبق',
     useStylePresetOn: "اختر إعدادًا مسبقًا أدناه لتوجيه النمط الفني للذكاء الاصطناعي.",
@@ -320,7 +664,7 @@ export const translations = {
 
     // Magic Composite
     magicCompositeTitle: 'الدمج السحري',
-    magicCompositeDescription: 'عند التمكين، يقوم الذكاء الاصطناعي بتحليل الصورتين وتحديد أفضل إعدادات مجموعة التصميم تلقائيًا للحصول على مزيج مثالي. يؤدي إيقاف التشغيل إلى العودة إلى التحكم اليدوي.',
+    magicCompositeDescription: 'عند التمكين، يقوم الذكاء الاصطناعي بتحليل منتجك (والصورة المرجعية إن أضفتها) وتحديد أفضل إعدادات مجموعة التصميم تلقائيًا. يؤدي إيقاف التشغيل إلى العودة إلى التحكم اليدوي.',
 
     // Prompt Suggestions Modal
     promptSuggestionsTitle: 'اقتراحات موجهات الذكاء الاصطناعي',
@@ -368,6 +712,13 @@ export const translations = {
     aiPick: 'اختيار الذكاء الاصطناعي',
     aiThinking: 'الذكاء الاصطناعي يفكر...',
     generateImage: 'إنشاء صورة',
+    variations: 'التنويعات',
+    variationsTooltip: 'إنشاء عدة نتائج مرشحة بالتوازي بنفس الإعدادات',
+    candidatesTitle: 'النتائج المرشحة',
+    scenesTitle: 'مشاهد العرض',
+    sceneProgress: 'المشهد {current} من {total}: {name}',
+    candidatePromoteTooltip: 'استخدم هذه النتيجة كنتيجة رئيسية',
+    candidateAlt: 'النتيجة المرشحة {index}',
     upscaleTooltip: 'تحسين جودة الصورة',
     upscaling: 'جاري الترقية...',
     upscale: 'ترقية',
@@ -376,14 +727,347 @@ export const translations = {
     aspectRatio: 'نسبة العرض إلى الارتفاع',
     'Portrait': 'عمودي',
     'Landscape': 'أفقي',
+    'Square': 'مربع',
+    'Story': 'قصة',
+    'Photo': 'صورة',
+    'Tall Photo': 'صورة طولية',
+    'Cinematic': 'سينمائي',
+    aspectCustom: 'مخصص',
+    aspectCustomWidth: 'نسبة العرض',
+    aspectCustomHeight: 'نسبة الارتفاع',
+    aspectCustomInvalid: 'استخدم أعدادًا صحيحة من 1 إلى 9999.',
+    aspectFitMode: 'إطار دقيق',
+    aspectFitModeDescription: 'إذا جاءت النتيجة بشكل مختلف، كيف تُضبط على النسبة الدقيقة.',
+    aspectFitPad: 'توسيع المشهد',
+    aspectFitCrop: 'قص حول المنتج',
     transparentBackground: 'خلفية شفافة (PNG)',
     
     // Loader
     'loader.generating': 'جاري إنشاء تحفتك الفنية...',
     'loader.warmingUp': 'الذكاء الاصطناعي يقوم بتسخين وحدات البكسل.',
+    cancelGeneration: 'إلغاء',
+    cancelGenerationTooltip: 'إيقاف هذا الطلب والاحتفاظ بالنتيجة السابقة',
+
+    // Prompt Templates
+    promptTemplatesTitle: 'قوالب الأوامر',
+    templateCustomized: 'مخصص',
+    templateSaveVersion: 'حفظ كإصدار جديد',
+    templateDiscard: 'تجاهل التغييرات',
+    templateResetDefault: 'استعادة الافتراضي',
+    templatePlaceholders: 'المتغيرات',
+    templateSyntaxHelp: 'انقر على متغير لإدراجه. ضع النص داخل {{#name}}...{{/name}} ليظهر فقط عند تعيين القيمة، أو {{^name}}...{{/name}} للعكس، أو {{#name=value}}...{{/name}} لمطابقة قيمة محددة.',
+    templateHistory: 'سجل الإصدارات',
+    templateDefaultVersion: 'الإصدار الافتراضي المدمج',
+    templateActive: 'نشط',
+    templateRestore: 'استعادة',
+    templateUnknownPlaceholder: 'متغير غير معروف "{name}".',
+    templateUnexpectedClose: 'وسم الإغلاق الخاص بـ "{name}" لا يطابق أي قسم مفتوح.',
+    templateUnclosedSection: 'القسم "{name}" غير مغلق.',
+
+    // Prompt Inspector
+    viewPrompt: 'عرض الأمر',
+    promptInspectorTitle: 'فاحص الأوامر',
+    promptImageParts: 'أجزاء الصور',
+    promptTextPart: 'نص التعليمات',
+    promptPartProduct: 'المنتج',
+    promptPartReference: 'مرجع النمط',
+    promptPartBase: 'الصورة الأساسية',
+    promptPartPerson: 'صورة الشخص',
+    promptPartLogo: 'شعار العلامة',
+    promptEdited: 'معدّل',
+    promptRevert: 'العودة إلى النص المُجمّع',
+    promptSend: 'إرسال',
+    promptSendEdited: 'إرسال الأمر المعدّل',
+    promptInspectorFooter: 'تنطبق التعديلات على هذا الطلب فقط ولا تغيّر قوالبك.',
+
+    // Usage & Budget
+    usageTooltip: 'الاستخدام التقديري للذكاء الاصطناعي في هذه الجلسة',
+    usageTokensShort: 'رمز',
+    usageSessionTitle: 'هذه الجلسة',
+    usageCalls: 'طلبات API',
+    usageInputTokens: 'رموز الإدخال',
+    usageOutputTokens: 'رموز الإخراج',
+    usageImages: 'الصور المُنشأة',
+    usageEstimatedCost: 'التكلفة التقديرية',
+    usageByOperation: 'حسب العملية',
+    usageBudgetTitle: 'ميزانية الجلسة',
+    usageBudgetLimit: 'الحد (دولار)',
+    usageBudgetNone: 'بلا',
+    usageBudgetWarnAt: 'التنبيه عند (%)',
+    usageBudgetWarning: 'اقتربت من ميزانية الجلسة',
+    usageBudgetExceeded: 'تم بلوغ ميزانية الجلسة. ارفع الحد أو أعد تعيين الاستخدام لمتابعة الإنشاء.',
+    usageEstimateNote: 'تقدير وفق الأسعار المعلنة؛ قد تختلف فاتورتك.',
+    usageReset: 'إعادة تعيين',
+    usageOp_analyzeForCompositeSuggestions: 'التحليل',
+    usageOp_generateImage: 'مجموعة التصميم',
+    usageOp_generateDesignKitPrompt: 'اقتراحات الأوامر',
+    usageOp_generateIllustrationPrompts: 'اقتراحات الرسم',
+    usageOp_generateIllustration: 'الرسم التوضيحي',
+    usageOp_generateRetouchPrompts: 'اقتراحات التنقيح',
+    usageOp_performSmartRetouch: 'التنقيح الذكي',
+    usageOp_generateEnvironment: 'البيئة',
+    usageOp_upscaleImage: 'تحسين الدقة',
+    usageOp_outpaintImage: 'توسيع الصورة',
+    usageOp_inpaintImage: 'تعديل منطقة',
+    usageOp_refineImage: 'التحسين بالمحادثة',
+    usageOp_vectorizeImage: 'التحويل إلى متجه',
+    cacheTitle: 'ذاكرة النتائج المؤقتة',
+    cacheBypass: 'تجاوز الذاكرة المؤقتة',
+    cacheTtlHours: 'الاحتفاظ بالنتائج (ساعات)',
+    cacheStats: '{entries} محفوظة · {size} من {max}',
+    cacheClear: 'مسح',
+
+    // Batch mode
+    batchOpen: 'دفعة',
+    batchTitle: 'مجموعة التصميم بالدفعات',
+    batchDescription: 'يتم إنشاء كل منتج بالإعدادات المسبقة والوصف والمرجع وإعدادات التصدير الحالية. تُسمّى النتائج باسم ملف المنتج.',
+    batchAddProducts: 'إضافة منتجات',
+    batchConcurrency: 'المهام المتوازية',
+    batchStart: 'إنشاء {count}',
+    batchDownloadZip: 'تنزيل ملف مضغوط',
+    batchProgress: 'اكتمل {done} من {total} · فشل {failed}',
+    batchEmpty: 'أفلت صور المنتجات هنا أو استخدم "إضافة منتجات".',
+    batchRetry: 'إعادة المحاولة',
+    batchRemove: 'إزالة',
+    batchNoImage: 'لم يُرجع النموذج أي صورة.',
+    batchStatus_queued: 'في الانتظار',
+    batchStatus_running: 'جاري الإنشاء...',
+    batchStatus_done: 'تم',
+    batchStatus_failed: 'فشل',
+
+    // Preset sweep
+    sweepOpen: 'استكشاف',
+    sweepTitle: 'استكشاف الإعدادات المسبقة',
+    sweepDescription: 'أنشئ المنتج الحالي مرة لكل تركيبة من الإعدادات المسبقة. اختر الإعدادات على محور أو محورين؛ تبقى بقية الإعدادات كما في لوحة التحكم. انقر على نتيجة لتحميل إعداداتها.',
+    sweepRows: 'الصفوف',
+    sweepColumns: 'الأعمدة',
+    sweepNoAxis: 'بدون',
+    sweepCount: '{count} صور',
+    sweepTooMany: '{count} صور: الحد الأقصى للاستكشاف {max}',
+    sweepNeedsProduct: 'ارفع صورة المنتج أولاً.',
+    sweepStart: 'إنشاء الورقة',
+    sweepEmpty: 'اختر إعدادات لمحور واحد على الأقل، ثم أنشئ ورقة المعاينة.',
+    sweepApply: 'استخدم هذه الإعدادات',
+    firstSceneOnly: 'تم تحديد {count} مشاهد عرض؛ يُستخدم هنا المشهد الأول فقط، "{name}".',
+
+    // A/B comparison
+    abOpen: 'A/B',
+    abTitle: 'مقارنة A/B',
+    abDescription: 'قارن بين إعدادين لمجموعة التصميم على المنتج والمراجع نفسها. يبدأ كل جانب من لوحة التحكم؛ غيّر إعداداته أو الموجه أو الدمج السحري هنا، أو حمّل وصفة محفوظة. تظهر الاختلافات باللون الكهرماني.',
+    abSideA: 'A',
+    abSideB: 'B',
+    abLoad: 'تحميل إعدادات…',
+    abLoadCurrent: 'عناصر التحكم الحالية',
+    abTransparent: 'شفاف',
+    abPrompt: 'الموجه',
+    abDiffers: 'يختلف الجانبان هنا',
+    abDiffSummary: 'الاختلاف في: {list}',
+    abIdentical: 'الجانبان متطابقان.',
+    abStart: 'إنشاء A و B',
+    abEmpty: 'اضبط الجانبين، ثم أنشئهما لرؤية النتائج جنبًا إلى جنب.',
+    abUse: 'استخدم {side}',
+    abZoom: 'تكبير',
+    abZoomReset: 'إعادة ضبط',
+    abZoomHint: 'مرّر للتكبير واسحب للتحريك؛ يتبع الجانبان معًا. انقر نقرًا مزدوجًا لإعادة الضبط.',
+    abOneScene: 'يُنتج كل جانب صورة واحدة. أبقِ مشهدًا واحدًا محددًا.',
+    abNoVariations: 'يُنتج كل جانب صورة واحدة؛ لا يُستخدم عدد التنويعات ({count}).',
+
+    // Brand kits
+    brandKitTitle: 'هويات العلامات',
+    brandKitChipNone: 'بدون علامة',
+    brandKitLabel: 'العلامة',
+    brandKitNone: 'بدون علامة (إيقاف)',
+    brandKitNew: '+ علامة جديدة',
+    brandKitName: 'الاسم',
+    brandKitUntitled: 'علامة بدون اسم',
+    brandKitColors: 'ألوان العلامة',
+    brandKitBannedColors: 'الألوان المحظورة',
+    brandKitAddColor: 'إضافة',
+    brandKitRemoveColor: 'إزالة اللون',
+    brandKitMoodWords: 'كلمات الطابع',
+    brandKitMoodWordsPlaceholder: 'مثال: دافئ، مرح، فاخر',
+    brandKitLogo: 'الشعار',
+    brandKitUploadLogo: 'رفع الشعار',
+    brandKitRemoveLogo: 'إزالة',
+    brandKitAttachLogo: 'إرسال الشعار مع كل طلب',
+    brandKitSave: 'حفظ',
+    brandKitSaveFailed: 'تعذّر حفظ هوية العلامة. قد يكون الشعار أكبر من سعة التخزين المحلي.',
+    brandKitActivate: 'استخدم هذه العلامة',
+    brandKitActive: 'العلامة النشطة',
+    brandKitDelete: 'حذف',
+    brandKitEmpty: 'لا توجد هويات علامات بعد. أنشئ واحدة لتطبيق ألوانها وطابعها وشعارها على كل عملية إنشاء.',
+
+    // Color compliance
+    complianceTitle: 'فحص ألوان العلامة',
+    compliancePalette: 'اللوحة السائدة',
+    complianceTargets: 'الألوان المستهدفة',
+    complianceEyedropper: 'التقاط من المنتج',
+    complianceSamplingHint: 'انقر على صورة المنتج...',
+    complianceUseBrandKit: 'استخدم ألوان هوية العلامة',
+    complianceNoTargets: 'أضف ألوانًا مستهدفة لفحص النتيجة مقارنة بها.',
+    complianceLegend: 'CIEDE2000 مقارنة بأقرب لون سائد: نجاح ≤ {pass}، تحذير ≤ {warn}، فشل فوق ذلك.',
+    complianceStatus_pass: 'نجاح',
+    complianceStatus_warn: 'تحذير',
+    complianceStatus_fail: 'فشل',
+
+    // Ad layout composer
+    adComposerOpen: 'إضافة نص وشعار',
+    adComposerTitle: 'تصميم الإعلان',
+    adTemplates: 'القوالب',
+    adTemplateClassic: 'كلاسيكي',
+    adTemplateBanner: 'شريط سفلي',
+    adTemplateStory: 'ستوري',
+    adTemplateLowerThird: 'الثلث السفلي',
+    adTemplateSidePanel: 'لوحة جانبية',
+    adDefaultHeadline: 'عنوانك هنا',
+    adDefaultCta: 'تسوق الآن',
+    adLayers: 'الطبقات',
+    adLayerText: 'نص',
+    adLayerShape: 'شكل',
+    adLayerLogo: 'شعار',
+    adLayerUp: 'نقل للأعلى',
+    adLayerDown: 'نقل للأسفل',
+    adLayerDelete: 'حذف الطبقة',
+    adShape_rect: 'مستطيل',
+    adShape_pill: 'كبسولة',
+    adShape_ellipse: 'بيضاوي',
+    adFontSize: 'الحجم',
+    adAlign_left: 'يسار',
+    adAlign_center: 'وسط',
+    adAlign_right: 'يمين',
+    adRtl: 'من اليمين لليسار',
+    adOpacity: 'الشفافية',
+    adWidth: 'العرض %',
+    adHeight: 'الارتفاع %',
+    adUseBrandLogo: 'استخدم شعار العلامة',
+    adExportLayout: 'حفظ التخطيط (JSON)',
+    adImportLayout: 'تحميل تخطيط',
+    adLayoutImportFailed: 'هذا الملف ليس تخطيط إعلان صالحًا.',
+
+    // Campaign pack
+    campaignOpen: 'حزمة الحملة',
+    campaignTitle: 'حزمة الحملة',
+    campaignDescription: 'يحوّل هذه النتيجة إلى كل المقاسات أدناه. التوسيع يحافظ على الصورة الرئيسية ويمد الإطار؛ إعادة التوليد تعيد بناء المشهد للإطار الجديد باستخدام الصورة الرئيسية كمرجع. يتضمن الملف المضغوط manifest.json.',
+    campaignHero: 'الصورة الرئيسية',
+    campaignName: 'اسم الحملة',
+    campaignStart: 'إنشاء {count} مقاسات',
+    campaignFormatName: 'اسم المقاس',
+    campaignAddFormat: 'إضافة مقاس',
+    campaignRemoveFormat: 'إزالة المقاس',
+    campaignMethod_outpaint: 'توسيع',
+    campaignMethod_regenerate: 'إعادة توليد',
+    campaignDownloadFailed: 'تعذّر إنشاء الملف المضغوط. حاول مرة أخرى.',
+
+    // Region editing
+    maskEditOpen: 'تعديل منطقة',
+    maskEditTitle: 'المنطقة المراد تعديلها',
+    maskTool_brush: 'فرشاة',
+    maskTool_lasso: 'لاسو',
+    maskTool_erase: 'ممحاة',
+    maskBrushSize: 'الحجم',
+    maskClear: 'مسح',
+    maskInstructionPlaceholder: 'ما الذي يجب تغييره في المنطقة المحددة؟ مثلًا "أزل الكوب"',
+    maskApply: 'تطبيق',
+    maskApplying: 'جارٍ تعديل المنطقة المحددة...',
+    maskHint: 'لوّن أو حدّد بالّلاسو الجزء المراد تغييره. كل ما هو خارج القناع يبقى كما هو تمامًا.',
+
+    // Refinement chat
+    refineTitle: 'تحسين',
+    refineVersionCount: '{count} نسخ',
+    refineOriginal: 'الأصل',
+    refineShowVersion: 'عرض هذه النسخة',
+    refineEmpty: 'صف التغيير المطلوب، مثلًا "خلفية أدفأ، حرّك الظل لليسار، ضباب أقل". كل رسالة تنشئ نسخة جديدة وتتذكر المحادثة النسخ السابقة.',
+    refinePlaceholder: 'ما الذي يجب تغييره؟',
+    refineSend: 'إرسال',
+    refineHistoryBadge: 'نسخة محسّنة',
+
+    // Mood board
+    moodBoardImage: 'مرجع',
+    moodBoardRole: 'يتحكم في',
+    moodBoardRole_style: 'النمط العام',
+    moodBoardRole_lighting: 'الإضاءة',
+    moodBoardRole_palette: 'لوحة الألوان',
+    moodBoardRole_composition: 'التكوين',
+    moodBoardRole_texture: 'الملمس',
+    moodBoardWeight: 'الوزن',
+    moodBoardAdd: 'إضافة مرجع',
+    moodBoardLimit: '{count} من {max} صور',
+
+    // Preset conflicts
+    presetConflictsTitle: 'حُلّ هذه التعارضات قبل الإنشاء',
+    presetConflict_incompatible: '{a} يتعارض مع {b}: {reason}',
+    presetConflict_tooMany: 'تم اختيار {count} من إعدادات {category}. لا يمكن دمج أكثر من {max} في لقطة متماسكة.',
+    presetConflict_transparentScene: 'التصدير الشفاف يزيل الخلفية، لذا سيضيع مشهد {names}.',
+    presetConflictReason_angle: 'يطلبان زوايا تصوير غير متوافقة.',
+    presetConflictReason_framing: 'أحدهما لقطة مقرّبة والآخر لقطة واسعة.',
+    presetConflictReason_contrast: 'أحدهما يحتاج خلفية داكنة والآخر خلفية ساطعة.',
+    presetConflictReason_colorTemperature: 'ألوان الإضاءة فيهما متنافرة.',
+    presetConflictReason_shadowHardness: 'أحدهما يطلب ظلالًا ناعمة والآخر ظلالًا حادة.',
+    presetConflictReason_glare: 'الاستقطاب المتقاطع يزيل اللمعان الذي يصنعه الإعداد الآخر.',
+    presetConflictReason_setting: 'إعداد الاستوديو الأسود لا يناسب مشهدًا خارجيًا.',
+    presetFix_deselect: 'إزالة {names}',
+    presetFix_opaqueExport: 'إيقاف التصدير الشفاف',
+
+    // Custom presets
+    customPresetsOpen: 'إعدادات مخصصة',
+    customPresetsTitle: 'الإعدادات المخصصة',
+    customPresetBadge: 'مخصص',
+    customPresetCategory: 'الفئة',
+    customPresetNoneInCategory: 'لا توجد إعدادات مخصصة في هذه الفئة بعد.',
+    customPresetNew: '+ إعداد جديد',
+    customPresetEmpty: 'اختر إعدادًا لتعديله أو أنشئ إعدادًا جديدًا. تظهر الإعدادات المخصصة بعد الإعدادات المدمجة في قسمها.',
+    customPresetName: 'الاسم',
+    customPresetUntitled: 'إعداد بلا عنوان',
+    customPresetDescription: 'الوصف',
+    customPresetDescriptionPlaceholder: 'ما يفعله الإعداد، مكتوبًا كتعليمات للذكاء الاصطناعي.',
+    customPresetMetadata: 'تلميح تقني',
+    customPresetMetadataPlaceholder: 'مثال: key: 120cm octa 45° left, fill: white bounce, ratio 1:0.5, wb 5200K',
+    customPresetIcon: 'الأيقونة',
+    customPresetSave: 'حفظ الإعداد',
+    customPresetSaveFailed: 'تعذر حفظ الإعداد. قد تكون مساحة تخزين المتصفح ممتلئة.',
+    customPresetDelete: 'حذف الإعداد',
+    customPresetImport: 'استيراد حزمة',
+    customPresetExport: 'تصدير حزمة',
+    customPresetImported: 'تم استيراد {count} إعدادات.',
+    customPresetImportFailed: 'هذا الملف ليس حزمة إعدادات صالحة.',
+
+    // Recipes
+    recipesOpen: 'الوصفات',
+    recipesTitle: 'الوصفات',
+    recipeNamePlaceholder: 'اسم الوصفة، مثل "زجاجة كهرمانية على رخام"',
+    recipeSaveCurrent: 'حفظ إعدادات {mode} الحالية',
+    recipeUntitled: 'وصفة بلا عنوان',
+    recipeSaved: 'تم حفظ الوصفة.',
+    recipeSaveFailed: 'تعذر حفظ الوصفة. قد تكون مساحة تخزين المتصفح ممتلئة.',
+    recipeEmpty: 'لا توجد وصفات بعد. احفظ الإعدادات الحالية لإعادة استخدامها بنقرة واحدة.',
+    recipeApply: 'تطبيق',
+    recipeApplied: 'تم تطبيق "{name}".',
+    recipeMissingPresets: 'تم التطبيق، لكن هذه الإعدادات غير متوفرة هنا وتم تجاوزها: {ids}',
+    recipeCopyLink: 'نسخ الرابط',
+    recipeLinkCopied: 'تم نسخ الرابط. فتحه يستعيد هذه الإعدادات.',
+    recipeLinkFailed: 'تعذر نسخ الرابط.',
+    recipeLinkInvalid: 'تعذرت قراءة الوصفة في هذا الرابط.',
+    recipeFromLink: 'تمت استعادة إعدادات "{name}" من الرابط.',
+    recipeSaveShared: 'حفظ في وصفاتي',
+    recipeExport: 'تصدير',
+    recipeExportAll: 'تصدير الكل',
+    recipeImport: 'استيراد',
+    recipeImported: 'تم استيراد {count} وصفات.',
+    recipeImportFailed: 'هذا الملف ليس ملف وصفات صالحًا.',
+    recipeDelete: 'حذف الوصفة',
 
     // Offline Banner
     offlineMessage: 'أنت غير متصل بالإنترنت حاليًا. قد تكون بعض الميزات غير متوفرة.',
+
+    // AI Errors
+    errorSafety: 'تم حظر الطلب بواسطة فلتر الأمان ({category}). جرّب صورة مختلفة أو أعد صياغة الموجه والإعدادات.',
+    errorSafetyUnknownCategory: 'مخالفة للسياسة',
+    errorQuota: 'تم بلوغ حد الاستخدام أو الحصة للذكاء الاصطناعي. انتظر دقيقة قبل المحاولة مجددًا، أو تحقق من خطة واجهة البرمجة.',
+    errorNetwork: 'تعذر الوصول إلى خدمة الذكاء الاصطناعي. تحقق من اتصالك بالإنترنت وحاول مرة أخرى.',
+    errorNoImage: 'استجاب الذكاء الاصطناعي دون صورة. حاول مجددًا، أو بسّط الإعدادات والموجه.',
+    errorInvalidJson: 'أعاد الذكاء الاصطناعي استجابة غير متوقعة. يرجى المحاولة مرة أخرى.',
+    errorBudget: 'تم بلوغ ميزانية الجلسة البالغة {limit}. ارفع الحد أو أزله من عداد الاستخدام في الأعلى.',
+    errorFinishReason: '(سبب الانتهاء: {reason})',
     
     // Preset Names (Full English string is the key)
     'None': 'لا شيء',
@@ -0,0 +1,72 @@
+import { DesignKitSettings, PresetCategory } from '../types';
+import { PRESET_CATEGORIES } from './presetCatalog';
+import { PresetConflict, PresetConflictFix, PresetSelection, detectPresetConflicts } from './presetRules';
+import { resolvePresetIds } from './recipes';
+
+export type ABSide = 'a' | 'b';
+
+export const AB_SIDES: ABSide[] = ['a', 'b'];
+
+/** What differs between the two sides. `presets` lists, per category, the ids selected on only one side. */
+export interface ABDifference {
+    presets: Partial<Record<PresetCategory, string[]>>;
+    exportSettings: boolean;
+    customPrompt: boolean;
+    useMagicComposite: boolean;
+}
+
+// "none" is how the Control Panel stores an empty selection, so it never counts as a difference.
+const selectedIds = (settings: DesignKitSettings, category: PresetCategory) =>
+    settings.presetIds[category].filter(id => id !== 'none');
+
+export const diffDesignKitSettings = (a: DesignKitSettings, b: DesignKitSettings): ABDifference => {
+    const presets: ABDifference['presets'] = {};
+    for (const category of PRESET_CATEGORIES) {
+        const idsA = selectedIds(a, category);
+        const idsB = selectedIds(b, category);
+        const differing = [...idsA.filter(id => !idsB.includes(id)), ...idsB.filter(id => !idsA.includes(id))];
+        if (differing.length) presets[category] = differing;
+    }
+    const exportA = a.exportSettings;
+    const exportB = b.exportSettings;
+    return {
+        presets,
+        exportSettings: exportA.aspectRatio !== exportB.aspectRatio || exportA.fitMode !== exportB.fitMode || exportA.transparent !== exportB.transparent,
+        customPrompt: a.customPrompt.trim() !== b.customPrompt.trim(),
+        useMagicComposite: a.useMagicComposite !== b.useMagicComposite,
+    };
+};
+
+export const hasDifferences = (difference: ABDifference) =>
+    Object.keys(difference.presets).length > 0 || difference.exportSettings || difference.customPrompt || difference.useMagicComposite;
+
+const withPresetIds = (settings: DesignKitSettings, category: PresetCategory, ids: string[]): DesignKitSettings =>
+    ({ ...settings, presetIds: { ...settings.presetIds, [category]: ids.length ? ids : ['none'] } });
+
+/** Toggles a preset the way the Control Panel does: every category is multi-select and an empty selection becomes "none". */
+export const togglePresetId = (settings: DesignKitSettings, category: PresetCategory, id: string): DesignKitSettings => {
+    const current = selectedIds(settings, category);
+    return withPresetIds(settings, category, current.includes(id) ? current.filter(selected => selected !== id) : [...current, id]);
+};
+
+/** A side renders a single image, so it may select one scene at most. */
+export const sceneCount = (settings: DesignKitSettings) => selectedIds(settings, 'mockup').length;
+
+export const detectSideConflicts = (settings: DesignKitSettings): PresetConflict[] => {
+    const presets = (category: PresetCategory) => resolvePresetIds(category, settings.presetIds[category]).presets;
+    const selection: PresetSelection = {
+        camera: presets('camera'),
+        lighting: presets('lighting'),
+        mockup: presets('mockup'),
+        manipulation: presets('manipulation'),
+        retouch: presets('retouch'),
+        peopleRetouch: presets('peopleRetouch'),
+    };
+    return detectPresetConflicts(selection, settings.exportSettings);
+};
+
+export const applyConflictFix = (settings: DesignKitSettings, fix: PresetConflictFix): DesignKitSettings => {
+    if (fix.type === 'opaqueExport') return { ...settings, exportSettings: { ...settings.exportSettings, transparent: false } };
+    const removed = fix.presets.map(p => p.id);
+    return withPresetIds(settings, fix.category, selectedIds(settings, fix.category).filter(id => !removed.includes(id)));
+};
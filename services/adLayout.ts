@@ -0,0 +1,344 @@
+import { RasterImage, createCanvas, loadImage } from './imageProcessing';
+import { parseAspectRatio } from './aspectRatio';
+
+// Ad copy and logo overlays drawn over a result on a canvas. Positions and sizes are fractions of the
+// canvas, so a layout saved from one result can be reapplied to another of a different resolution.
+
+export const AD_LAYOUT_VERSION = 1;
+
+interface LayerFrame {
+    id: string;
+    /** Left, top, width and height as fractions of the canvas. */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextLayer extends LayerFrame {
+    kind: 'text';
+    text: string;
+    fontFamily: string;
+    /** Fraction of the canvas's shorter side. */
+    fontSize: number;
+    fontWeight: 400 | 700;
+    color: string;
+    align: TextAlign;
+    direction: 'ltr' | 'rtl';
+}
+
+export interface ShapeLayer extends LayerFrame {
+    kind: 'shape';
+    shape: 'rect' | 'pill' | 'ellipse';
+    fill: string;
+    opacity: number;
+}
+
+export interface LogoLayer extends LayerFrame {
+    kind: 'logo';
+    image: RasterImage | null;
+}
+
+export type AdLayer = TextLayer | ShapeLayer | LogoLayer;
+
+export interface AdLayout {
+    version: number;
+    layers: AdLayer[];
+}
+
+export const AD_FONT_FAMILIES = ['Inter', 'Tajawal', 'Georgia', 'Impact', 'Courier New'];
+
+const ARABIC = /[؀-ۿ]/;
+
+let nextId = 0;
+const newId = () => `layer-${Date.now().toString(36)}-${nextId++}`;
+
+export const createTextLayer = (text: string, frame: Omit<LayerFrame, 'id'>, style: Partial<Omit<TextLayer, 'kind' | 'id' | 'text'>> = {}): TextLayer => ({
+    id: newId(),
+    kind: 'text',
+    text,
+    ...frame,
+    fontFamily: ARABIC.test(text) ? 'Tajawal' : 'Inter',
+    fontSize: 0.07,
+    fontWeight: 700,
+    color: '#FFFFFF',
+    align: 'center',
+    direction: ARABIC.test(text) ? 'rtl' : 'ltr',
+    ...style,
+});
+
+export const createShapeLayer = (frame: Omit<LayerFrame, 'id'>, style: Partial<Pick<ShapeLayer, 'shape' | 'fill' | 'opacity'>> = {}): ShapeLayer => ({
+    id: newId(),
+    kind: 'shape',
+    ...frame,
+    shape: 'rect',
+    fill: '#000000',
+    opacity: 0.5,
+    ...style,
+});
+
+export const createLogoLayer = (image: RasterImage | null, frame: Omit<LayerFrame, 'id'>): LogoLayer => ({
+    id: newId(),
+    kind: 'logo',
+    ...frame,
+    image,
+});
+
+// --- Templates ---
+
+export type LayoutOrientation = 'square' | 'portrait' | 'landscape';
+
+export interface AdLayoutTemplate {
+    id: string;
+    /** i18n key of the template name. */
+    nameKey: string;
+    orientation: LayoutOrientation;
+    build: (copy: { headline: string; cta: string; logo: RasterImage | null }) => AdLayer[];
+}
+
+export const orientationOf = (aspectRatio: string): LayoutOrientation => {
+    const terms = parseAspectRatio(aspectRatio);
+    const ratio = terms ? terms.width / terms.height : 1;
+    return ratio > 1.1 ? 'landscape' : ratio < 0.9 ? 'portrait' : 'square';
+};
+
+// `fontSize` is in shorter-side units; about 45% of the button's height in pixels keeps the label centred.
+const ctaButton = (cta: string, x: number, y: number, width: number, height: number, fontSize: number): AdLayer[] => [
+    createShapeLayer({ x, y, width, height }, { shape: 'pill', fill: '#06B6D4', opacity: 1 }),
+    createTextLayer(cta, { x, y: y + height * 0.27, width, height: height * 0.5 }, { fontSize, align: 'center' }),
+];
+
+export const AD_LAYOUT_TEMPLATES: AdLayoutTemplate[] = [
+    {
+        id: 'square-classic',
+        nameKey: 'adTemplateClassic',
+        orientation: 'square',
+        build: ({ headline, cta, logo }) => [
+            createTextLayer(headline, { x: 0.08, y: 0.07, width: 0.84, height: 0.2 }, { fontSize: 0.08 }),
+            ...ctaButton(cta, 0.32, 0.83, 0.36, 0.09, 0.04),
+            createLogoLayer(logo, { x: 0.04, y: 0.86, width: 0.14, height: 0.1 }),
+        ],
+    },
+    {
+        id: 'square-banner',
+        nameKey: 'adTemplateBanner',
+        orientation: 'square',
+        build: ({ headline, cta, logo }) => [
+            createShapeLayer({ x: 0, y: 0.78, width: 1, height: 0.22 }, { fill: '#000000', opacity: 0.55 }),
+            createTextLayer(headline, { x: 0.05, y: 0.81, width: 0.58, height: 0.16 }, { fontSize: 0.055, align: 'left' }),
+            ...ctaButton(cta, 0.66, 0.835, 0.29, 0.09, 0.04),
+            createLogoLayer(logo, { x: 0.04, y: 0.04, width: 0.16, height: 0.1 }),
+        ],
+    },
+    {
+        id: 'portrait-story',
+        nameKey: 'adTemplateStory',
+        orientation: 'portrait',
+        build: ({ headline, cta, logo }) => [
+            createLogoLayer(logo, { x: 0.35, y: 0.04, width: 0.3, height: 0.07 }),
+            createTextLayer(headline, { x: 0.08, y: 0.13, width: 0.84, height: 0.18 }, { fontSize: 0.09 }),
+            ...ctaButton(cta, 0.2, 0.84, 0.6, 0.065, 0.05),
+        ],
+    },
+    {
+        id: 'portrait-lower-third',
+        nameKey: 'adTemplateLowerThird',
+        orientation: 'portrait',
+        build: ({ headline, cta, logo }) => [
+            createShapeLayer({ x: 0, y: 0.68, width: 1, height: 0.32 }, { fill: '#000000', opacity: 0.5 }),
+            createTextLayer(headline, { x: 0.08, y: 0.71, width: 0.84, height: 0.14 }, { fontSize: 0.08 }),
+            ...ctaButton(cta, 0.25, 0.88, 0.5, 0.06, 0.048),
+            createLogoLayer(logo, { x: 0.04, y: 0.03, width: 0.2, height: 0.06 }),
+        ],
+    },
+    {
+        id: 'landscape-side',
+        nameKey: 'adTemplateSidePanel',
+        orientation: 'landscape',
+        build: ({ headline, cta, logo }) => [
+            createShapeLayer({ x: 0, y: 0, width: 0.4, height: 1 }, { fill: '#000000', opacity: 0.5 }),
+            createLogoLayer(logo, { x: 0.04, y: 0.07, width: 0.14, height: 0.14 }),
+            createTextLayer(headline, { x: 0.04, y: 0.3, width: 0.32, height: 0.35 }, { fontSize: 0.09, align: 'left' }),
+            ...ctaButton(cta, 0.04, 0.75, 0.22, 0.12, 0.054),
+        ],
+    },
+    {
+        id: 'landscape-banner',
+        nameKey: 'adTemplateBanner',
+        orientation: 'landscape',
+        build: ({ headline, cta, logo }) => [
+            createShapeLayer({ x: 0, y: 0.8, width: 1, height: 0.2 }, { fill: '#000000', opacity: 0.55 }),
+            createTextLayer(headline, { x: 0.04, y: 0.83, width: 0.6, height: 0.14 }, { fontSize: 0.08, align: 'left' }),
+            ...ctaButton(cta, 0.74, 0.835, 0.22, 0.13, 0.058),
+            createLogoLayer(logo, { x: 0.03, y: 0.05, width: 0.1, height: 0.13 }),
+        ],
+    },
+];
+
+export const getTemplatesFor = (aspectRatio: string) => AD_LAYOUT_TEMPLATES.filter(template => template.orientation === orientationOf(aspectRatio));
+
+// --- Rendering ---
+
+export type LayerImages = Map<string, HTMLImageElement>;
+
+/** Decodes the logo layers' images, keyed by layer id. */
+export const loadLayerImages = async (layout: AdLayout): Promise<LayerImages> => {
+    const images: LayerImages = new Map();
+    await Promise.all(layout.layers.map(async layer => {
+        if (layer.kind === 'logo' && layer.image) images.set(layer.id, await loadImage(layer.image));
+    }));
+    return images;
+};
+
+/** Waits for the web fonts the text layers use, so the first draw does not fall back to a system font. */
+export const loadLayoutFonts = async (layout: AdLayout) => {
+    await Promise.all(layout.layers.map(layer => layer.kind === 'text'
+        ? document.fonts.load(`${layer.fontWeight} 32px "${layer.fontFamily}"`, layer.text).catch(() => [])
+        : Promise.resolve([])));
+};
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] =>
+    text.split('\n').flatMap(paragraph => {
+        const lines: string[] = [];
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+        return lines;
+    });
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: TextLayer, x: number, y: number, width: number, unit: number) => {
+    const size = layer.fontSize * unit;
+    ctx.font = `${layer.fontWeight} ${size}px "${layer.fontFamily}", sans-serif`;
+    ctx.fillStyle = layer.color;
+    ctx.direction = layer.direction;
+    ctx.textBaseline = 'top';
+    ctx.textAlign = layer.align;
+    const anchor = layer.align === 'left' ? x : layer.align === 'right' ? x + width : x + width / 2;
+    wrapLines(ctx, layer.text, width).forEach((line, index) => ctx.fillText(line, anchor, y + index * size * 1.2));
+};
+
+const drawShape = (ctx: CanvasRenderingContext2D, layer: ShapeLayer, x: number, y: number, width: number, height: number) => {
+    ctx.globalAlpha = layer.opacity;
+    ctx.fillStyle = layer.fill;
+    ctx.beginPath();
+    if (layer.shape === 'ellipse') ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+    else if (layer.shape === 'pill') ctx.roundRect(x, y, width, height, Math.min(width, height) / 2);
+    else ctx.rect(x, y, width, height);
+    ctx.fill();
+};
+
+const drawLogo = (ctx: CanvasRenderingContext2D, image: HTMLImageElement | undefined, x: number, y: number, width: number, height: number) => {
+    if (!image) return;
+    const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+    ctx.drawImage(image, x + (width - drawWidth) / 2, y + (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+/** Draws the layers in order, bottom first, onto a canvas of `width` × `height`. */
+export const drawAdLayout = (ctx: CanvasRenderingContext2D, layout: AdLayout, width: number, height: number, images: LayerImages) => {
+    const unit = Math.min(width, height);
+    for (const layer of layout.layers) {
+        const x = layer.x * width;
+        const y = layer.y * height;
+        const w = layer.width * width;
+        const h = layer.height * height;
+        ctx.save();
+        if (layer.kind === 'text') drawText(ctx, layer, x, y, w, unit);
+        else if (layer.kind === 'shape') drawShape(ctx, layer, x, y, w, h);
+        else drawLogo(ctx, images.get(layer.id), x, y, w, h);
+        ctx.restore();
+    }
+};
+
+/** The result with the layout flattened onto it, at the result's own resolution. */
+export const renderAdImage = async (base: RasterImage, layout: AdLayout, format: 'png' | 'jpeg'): Promise<RasterImage> => {
+    const [img, images] = await Promise.all([loadImage(base), loadLayerImages(layout), loadLayoutFonts(layout)]);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    if (format === 'jpeg') {
+        // JPEG has no alpha: transparent areas would otherwise turn black.
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(img, 0, 0);
+    drawAdLayout(ctx, layout, canvas.width, canvas.height, images);
+    const mimeType = format === 'jpeg' ? 'image/jpeg' : 'image/png';
+    return { base64: canvas.toDataURL(mimeType, 0.92).split(',')[1], mimeType };
+};
+
+/** Topmost layer under the point (fractions of the canvas), or undefined. */
+export const hitTestLayer = (layout: AdLayout, x: number, y: number): AdLayer | undefined =>
+    [...layout.layers].reverse().find(layer => x >= layer.x && x <= layer.x + layer.width && y >= layer.y && y <= layer.y + layer.height);
+
+// --- JSON ---
+
+export const serializeAdLayout = (layout: AdLayout): string => JSON.stringify(layout, null, 2);
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw => !!value && typeof value === 'object' && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const text = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+const oneOf = <T extends string | number>(value: unknown, options: readonly T[], fallback: T): T =>
+    options.includes(value as T) ? value as T : fallback;
+const fraction = (value: unknown, fallback: number) => isNumber(value) && value > 0 && value <= 1 ? value : fallback;
+
+const readImage = (value: unknown): RasterImage | null =>
+    isObject(value) && typeof value.base64 === 'string' && typeof value.mimeType === 'string' && value.mimeType.startsWith('image/')
+        ? { base64: value.base64, mimeType: value.mimeType }
+        : null;
+
+const readFrame = ({ x, y, width, height }: Raw): Omit<LayerFrame, 'id'> | null =>
+    isNumber(x) && isNumber(y) && isNumber(width) && isNumber(height) ? { x, y, width, height } : null;
+
+// Style fields that are missing or of the wrong type fall back to the defaults of a new layer.
+const readLayer = (raw: Raw, frame: Omit<LayerFrame, 'id'>): AdLayer => {
+    if (raw.kind === 'text') {
+        const defaults = createTextLayer(text(raw.text, ''), frame);
+        return {
+            ...defaults,
+            fontFamily: text(raw.fontFamily, defaults.fontFamily).trim() || defaults.fontFamily,
+            fontSize: fraction(raw.fontSize, defaults.fontSize),
+            fontWeight: oneOf(raw.fontWeight, [400, 700] as const, defaults.fontWeight),
+            color: text(raw.color, defaults.color),
+            align: oneOf(raw.align, ['left', 'center', 'right'] as const, defaults.align),
+            direction: oneOf(raw.direction, ['ltr', 'rtl'] as const, defaults.direction),
+        };
+    }
+    if (raw.kind === 'shape') {
+        const defaults = createShapeLayer(frame);
+        return {
+            ...defaults,
+            shape: oneOf(raw.shape, ['rect', 'pill', 'ellipse'] as const, defaults.shape),
+            fill: text(raw.fill, defaults.fill),
+            opacity: isNumber(raw.opacity) ? Math.min(1, Math.max(0, raw.opacity)) : defaults.opacity,
+        };
+    }
+    return createLogoLayer(readImage(raw.image), frame);
+};
+
+/** Parses a saved layout. Layers get fresh ids so the same file can be applied more than once. Throws on invalid input. */
+export const parseAdLayout = (json: string): AdLayout => {
+    const raw = JSON.parse(json);
+    if (!isObject(raw) || raw.version !== AD_LAYOUT_VERSION || !Array.isArray(raw.layers)) {
+        throw new Error(`Not a version ${AD_LAYOUT_VERSION} ad layout.`);
+    }
+    const layers = raw.layers.map((layer: unknown) => {
+        const frame = isObject(layer) ? readFrame(layer) : null;
+        if (!isObject(layer) || !frame || !['text', 'shape', 'logo'].includes(text(layer.kind, ''))) {
+            throw new Error('The layout contains an invalid layer.');
+        }
+        return readLayer(layer, frame);
+    });
+    return { version: AD_LAYOUT_VERSION, layers };
+};
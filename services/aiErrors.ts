@@ -0,0 +1,108 @@
+export type AIErrorKind = 'safety' | 'quota' | 'network' | 'no-image' | 'invalid-json' | 'cancelled' | 'budget' | 'unknown';
+
+interface AIErrorOptions {
+    finishReason?: string;
+    cause?: unknown;
+}
+
+/** Base class for every failure surfaced by an AI provider. `kind` drives retry and UI messaging. */
+export class AIError extends Error {
+    readonly kind: AIErrorKind;
+    readonly finishReason?: string;
+
+    constructor(kind: AIErrorKind, message: string, options: AIErrorOptions = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'AIError';
+        this.kind = kind;
+        this.finishReason = options.finishReason;
+    }
+
+    /** Transient failures that are worth retrying with backoff. */
+    get isTransient(): boolean {
+        return this.kind === 'quota' || this.kind === 'network';
+    }
+}
+
+export class SafetyBlockError extends AIError {
+    readonly category?: string;
+
+    constructor(category: string | undefined, options: AIErrorOptions = {}) {
+        super('safety', `The request was blocked by the safety filter${category ? ` (${category})` : ''}.`, options);
+        this.name = 'SafetyBlockError';
+        this.category = category;
+    }
+}
+
+export class QuotaError extends AIError {
+    constructor(options: AIErrorOptions = {}) {
+        super('quota', 'The AI quota or rate limit was exceeded.', options);
+        this.name = 'QuotaError';
+    }
+}
+
+export class NetworkError extends AIError {
+    constructor(options: AIErrorOptions = {}) {
+        super('network', 'The AI service could not be reached.', options);
+        this.name = 'NetworkError';
+    }
+}
+
+export class NoImageError extends AIError {
+    constructor(options: AIErrorOptions = {}) {
+        super('no-image', 'The AI response did not contain an image.', options);
+        this.name = 'NoImageError';
+    }
+}
+
+export class InvalidJsonError extends AIError {
+    constructor(options: AIErrorOptions = {}) {
+        super('invalid-json', 'The AI returned data in an unexpected format.', options);
+        this.name = 'InvalidJsonError';
+    }
+}
+
+/** Thrown when the caller aborts a request through its AbortSignal. Never shown as a failure. */
+export class CancelledError extends AIError {
+    constructor(options: AIErrorOptions = {}) {
+        super('cancelled', 'The request was cancelled.', options);
+        this.name = 'CancelledError';
+    }
+}
+
+/** Thrown before a call is made once the session has spent its configured budget. */
+export class BudgetExceededError extends AIError {
+    readonly limitUsd: number;
+
+    constructor(limitUsd: number, options: AIErrorOptions = {}) {
+        super('budget', `The session budget of $${limitUsd.toFixed(2)} has been reached.`, options);
+        this.name = 'BudgetExceededError';
+        this.limitUsd = limitUsd;
+    }
+}
+
+export const isCancellation = (error: unknown): boolean => error instanceof AIError && error.kind === 'cancelled';
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+export const isSafetyFinishReason = (finishReason?: string): boolean =>
+    !!finishReason && SAFETY_FINISH_REASONS.includes(finishReason);
+
+/** Maps SDK, HTTP and fetch failures onto the taxonomy. AIErrors pass through untouched. */
+export const toAIError = (error: unknown): AIError => {
+    if (error instanceof AIError) return error;
+
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+    const message = error instanceof Error ? error.message : String(error);
+
+    // Only a real abort counts; a server message that merely mentions "aborted" is a failure to report.
+    if ((error as { name?: unknown })?.name === 'AbortError') {
+        return new CancelledError({ cause: error });
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return new QuotaError({ cause: error });
+    }
+    if ((status !== undefined && status >= 500) || /Failed to fetch|NetworkError|Load failed|ECONNRESET|timed? ?out/i.test(message)) {
+        return new NetworkError({ cause: error });
+    }
+    return new AIError('unknown', message || 'An unknown AI error occurred.', { cause: error });
+};
@@ -0,0 +1,44 @@
+import { GenerationParams, ImageFile, UpscaleTarget, PromptSuggestion, RetouchOptions, IllustrationStylePreset, PresetCategory, PresetSuggestion, RefinementTurn, ReferenceImage } from '../types';
+import { AIUsage } from './usage';
+
+export type AnalysisResult = Record<PresetCategory, PresetSuggestion[]>;
+
+export type GeneratedImage = { base64: string; mimeType: string };
+
+export type AIProviderId = 'gemini' | 'mock';
+
+export interface AICallOptions {
+    /** Aborts the request; the call then rejects with a CancelledError. */
+    signal?: AbortSignal;
+    /** Index of this candidate when several are requested with identical inputs. */
+    variation?: number;
+    /** Sent instead of the assembled instruction text. Image parts are unchanged. */
+    promptOverride?: string;
+    /** Called once per provider response, including retried attempts. */
+    onUsage?: (usage: AIUsage) => void;
+}
+
+/**
+ * Everything the app needs from an image-generation backend. The Gemini adapter
+ * talks to the live API; the mock adapter answers locally so the UI can be
+ * developed and demoed without network access or an API key.
+ */
+export interface AIProvider {
+    id: AIProviderId;
+    analyzeForCompositeSuggestions(productImage: ImageFile, references: ReferenceImage[], callOptions?: AICallOptions): Promise<AnalysisResult>;
+    generateImage(productImage: ImageFile, references: ReferenceImage[], useMagicComposite: boolean, params: GenerationParams, callOptions?: AICallOptions): Promise<GeneratedImage | null>;
+    generateDesignKitPrompt(productImage: ImageFile, references: ReferenceImage[], callOptions?: AICallOptions): Promise<PromptSuggestion[]>;
+    generateIllustrationPrompts(baseImage: ImageFile, references: ReferenceImage[], callOptions?: AICallOptions): Promise<PromptSuggestion[]>;
+    generateIllustration(baseImage: ImageFile, style: IllustrationStylePreset, detailFidelity: number, customPrompt: string, references: ReferenceImage[], callOptions?: AICallOptions): Promise<GeneratedImage | null>;
+    generateRetouchPrompts(environmentPreset: string, styleVariety: 'normal' | 'wide', syncWithEnvironment: boolean, callOptions?: AICallOptions): Promise<string[]>;
+    performSmartRetouch(personImage: ImageFile, options: RetouchOptions, callOptions?: AICallOptions): Promise<GeneratedImage | null>;
+    generateEnvironment(personImage: ImageFile, environmentPreset: string, options: RetouchOptions, callOptions?: AICallOptions): Promise<GeneratedImage | null>;
+    upscaleImage(baseImage: GeneratedImage, target: UpscaleTarget, callOptions?: AICallOptions): Promise<GeneratedImage | null>;
+    /** Extends the scene around `baseImage` to fill a `size` canvas; the result may still need resizing to exactly `size`. */
+    outpaintImage(baseImage: GeneratedImage, aspectRatio: string, size: { width: number; height: number }, callOptions?: AICallOptions): Promise<GeneratedImage | null>;
+    /** Edits the white area of `mask` (same size as `baseImage`); pixels outside it may come back altered and are restored by the caller. */
+    inpaintImage(baseImage: GeneratedImage, mask: GeneratedImage, instruction: string, callOptions?: AICallOptions): Promise<GeneratedImage | null>;
+    /** One turn of a refinement chat: `turns` are the earlier turns, oldest first, and the newest image is the one to change. */
+    refineImage(original: GeneratedImage, turns: RefinementTurn[], instruction: string, callOptions?: AICallOptions): Promise<GeneratedImage | null>;
+    vectorizeImage(rasterImage: GeneratedImage, callOptions?: AICallOptions): Promise<string | null>;
+}
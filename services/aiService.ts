@@ -0,0 +1,105 @@
+import { AIProvider, AIProviderId, AICallOptions } from './aiProvider';
+import { BudgetExceededError, CancelledError } from './aiErrors';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+import { withRetry } from './retry';
+import { validateAnalysis } from './presetCatalog';
+import { compositeWithMask } from './imageProcessing';
+import { referenceCacheArgs } from './moodBoard';
+import { computeCacheKey, readCachedResult, writeCachedResult } from './resultCache';
+import { getBudgetStatus, getSessionUsage, recordUsage } from './usage';
+
+export type { AICallOptions, AnalysisResult, GeneratedImage } from './aiProvider';
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+// Selected at build time through the AI_PROVIDER entry in .env.local (see vite.config.ts).
+const resolveProviderId = (): AIProviderId => {
+    const configured = (process.env.AI_PROVIDER || '').trim().toLowerCase();
+    if (configured in PROVIDERS) return configured as AIProviderId;
+    if (configured) console.warn(`Unknown AI_PROVIDER "${configured}", falling back to Gemini.`);
+    return 'gemini';
+};
+
+const activeProviderId = resolveProviderId();
+const activeProvider: AIProvider = PROVIDERS[activeProviderId];
+
+export const getProvider = (): AIProvider => activeProvider;
+
+// Every call goes through here: the session budget is checked before each attempt, usage is recorded
+// against the session, and quota and network hiccups are retried before the UI sees them.
+const run = <T>(operation: string, callOptions: AICallOptions | undefined, call: (options: AICallOptions) => Promise<T>): Promise<T> => {
+    const options: AICallOptions = {
+        ...callOptions,
+        onUsage: usage => {
+            recordUsage(operation, usage);
+            callOptions?.onUsage?.(usage);
+        },
+    };
+    return withRetry(() => {
+        const { budget } = getSessionUsage();
+        if (getBudgetStatus() === 'exceeded') throw new BudgetExceededError(budget.limitUsd!);
+        return call(options);
+    }, callOptions?.signal);
+};
+
+// For calls whose answer only depends on their inputs: a hit is returned without touching the provider,
+// so it costs nothing and never counts against the budget.
+const runCached = async <T>(operation: string, args: unknown[], callOptions: AICallOptions | undefined, call: (options: AICallOptions) => Promise<T>): Promise<T> => {
+    const key = await computeCacheKey(operation, activeProviderId, args);
+    if (!key) return run(operation, callOptions, call);
+    const hit = await readCachedResult<T>(key);
+    if (hit !== undefined) {
+        if (callOptions?.signal?.aborted) throw new CancelledError();
+        return hit;
+    }
+    const result = await run(operation, callOptions, call);
+    await writeCachedResult(key, operation, result);
+    return result;
+};
+
+// Providers may answer with ids that are not in the catalog; those are repaired or dropped here.
+export const analyzeForCompositeSuggestions: AIProvider['analyzeForCompositeSuggestions'] = async (productImage, references, callOptions) =>
+    validateAnalysis(await runCached('analyzeForCompositeSuggestions', [productImage, referenceCacheArgs(references)], callOptions, options => activeProvider.analyzeForCompositeSuggestions(productImage, references, options)));
+
+export const generateImage: AIProvider['generateImage'] = (productImage, references, useMagicComposite, params, callOptions) =>
+    run('generateImage', callOptions, options => activeProvider.generateImage(productImage, references, useMagicComposite, params, options));
+
+export const generateDesignKitPrompt: AIProvider['generateDesignKitPrompt'] = (productImage, references, callOptions) =>
+    runCached('generateDesignKitPrompt', [productImage, referenceCacheArgs(references)], callOptions, options => activeProvider.generateDesignKitPrompt(productImage, references, options));
+
+export const generateIllustrationPrompts: AIProvider['generateIllustrationPrompts'] = (baseImage, references, callOptions) =>
+    runCached('generateIllustrationPrompts', [baseImage, referenceCacheArgs(references)], callOptions, options => activeProvider.generateIllustrationPrompts(baseImage, references, options));
+
+export const generateIllustration: AIProvider['generateIllustration'] = (baseImage, style, detailFidelity, customPrompt, references, callOptions) =>
+    run('generateIllustration', callOptions, options => activeProvider.generateIllustration(baseImage, style, detailFidelity, customPrompt, references, options));
+
+export const generateRetouchPrompts: AIProvider['generateRetouchPrompts'] = (environmentPreset, styleVariety, syncWithEnvironment, callOptions) =>
+    runCached('generateRetouchPrompts', [environmentPreset, styleVariety, syncWithEnvironment], callOptions, options => activeProvider.generateRetouchPrompts(environmentPreset, styleVariety, syncWithEnvironment, options));
+
+export const performSmartRetouch: AIProvider['performSmartRetouch'] = (personImage, options, callOptions) =>
+    run('performSmartRetouch', callOptions, runOptions => activeProvider.performSmartRetouch(personImage, options, runOptions));
+
+export const generateEnvironment: AIProvider['generateEnvironment'] = (personImage, environmentPreset, options, callOptions) =>
+    run('generateEnvironment', callOptions, runOptions => activeProvider.generateEnvironment(personImage, environmentPreset, options, runOptions));
+
+export const upscaleImage: AIProvider['upscaleImage'] = (baseImage, target, callOptions) =>
+    run('upscaleImage', callOptions, options => activeProvider.upscaleImage(baseImage, target, options));
+
+export const outpaintImage: AIProvider['outpaintImage'] = (baseImage, aspectRatio, size, callOptions) =>
+    run('outpaintImage', callOptions, options => activeProvider.outpaintImage(baseImage, aspectRatio, size, options));
+
+// Whatever the provider returns, only the masked region is taken from it.
+export const inpaintImage: AIProvider['inpaintImage'] = async (baseImage, mask, instruction, callOptions) => {
+    const edited = await run('inpaintImage', callOptions, options => activeProvider.inpaintImage(baseImage, mask, instruction, options));
+    return edited && compositeWithMask(baseImage, edited, mask);
+};
+
+export const refineImage: AIProvider['refineImage'] = (original, turns, instruction, callOptions) =>
+    run('refineImage', callOptions, options => activeProvider.refineImage(original, turns, instruction, options));
+
+export const vectorizeImage: AIProvider['vectorizeImage'] = (rasterImage, callOptions) =>
+    runCached('vectorizeImage', [rasterImage], callOptions, options => activeProvider.vectorizeImage(rasterImage, options));
@@ -0,0 +1,93 @@
+import { AspectRatio, ExportSettings } from '../types';
+import { AICallOptions, outpaintImage } from './aiService';
+import { isCancellation } from './aiErrors';
+import { RasterImage, cropImage, findSubjectCenter, measureImage, padImage, resizeToCover } from './imageProcessing';
+
+export interface RatioTerms {
+    width: number;
+    height: number;
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/** Parses "W:H" into reduced positive integer terms, or null when it is not a usable ratio. */
+export const parseAspectRatio = (ratio: string): RatioTerms | null => {
+    const match = /^\s*(\d{1,4})\s*:\s*(\d{1,4})\s*$/.exec(ratio);
+    if (!match) return null;
+    const width = Number(match[1]);
+    const height = Number(match[2]);
+    if (!width || !height) return null;
+    const divisor = gcd(width, height);
+    return { width: width / divisor, height: height / divisor };
+};
+
+export const matchesAspectRatio = (width: number, height: number, terms: RatioTerms) =>
+    width * terms.height === height * terms.width;
+
+// Integer multiples of the reduced terms keep the ratio exact to the pixel.
+const largestInside = (width: number, height: number, terms: RatioTerms): RatioTerms => {
+    const k = Math.min(width / terms.width, height / terms.height);
+    if (k >= 1) return { width: Math.floor(k) * terms.width, height: Math.floor(k) * terms.height };
+    // Terms larger than the image itself: exactness gives way to a rounded fit.
+    return { width: Math.max(1, Math.round(terms.width * k)), height: Math.max(1, Math.round(terms.height * k)) };
+};
+
+const smallestAround = (width: number, height: number, terms: RatioTerms): RatioTerms => {
+    const k = Math.ceil(Math.max(width / terms.width, height / terms.height));
+    return { width: k * terms.width, height: k * terms.height };
+};
+
+// Differences this small are trimmed even in pad mode; an outpaint request would cost more than it adds.
+const CROP_TOLERANCE = 0.03;
+
+const cropAroundSubject = async (image: RasterImage, width: number, height: number, terms: RatioTerms): Promise<RasterImage> => {
+    const target = largestInside(width, height, terms);
+    const scaleToTarget = Math.min(width / target.width, height / target.height);
+    const cropWidth = target.width * scaleToTarget;
+    const cropHeight = target.height * scaleToTarget;
+    const center = await findSubjectCenter(image);
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+    const rect = {
+        x: clamp(center.x * width - cropWidth / 2, width - cropWidth),
+        y: clamp(center.y * height - cropHeight / 2, height - cropHeight),
+        width: cropWidth,
+        height: cropHeight,
+    };
+    return cropImage(image, rect, target.width, target.height);
+};
+
+/**
+ * Makes the image match the export aspect ratio exactly. Images that already match are returned as is.
+ * Otherwise it is either cropped around the product or padded: transparent exports get empty margins,
+ * others are outpainted by the provider. A failed outpaint falls back to cropping.
+ */
+export const enforceAspectRatio = async (
+    image: RasterImage,
+    settings: Pick<ExportSettings, 'aspectRatio' | 'fitMode' | 'transparent'>,
+    callOptions?: AICallOptions,
+): Promise<RasterImage> => {
+    const terms = parseAspectRatio(settings.aspectRatio);
+    if (!terms) return image;
+    const { width, height } = await measureImage(image);
+    if (matchesAspectRatio(width, height, terms)) return image;
+
+    const mismatch = Math.abs((width / height) / (terms.width / terms.height) - 1);
+    if (settings.fitMode === 'crop' || mismatch < CROP_TOLERANCE) return cropAroundSubject(image, width, height, terms);
+
+    const target = smallestAround(width, height, terms);
+    if (settings.transparent) return padImage(image, target.width, target.height, null);
+    try {
+        const extended = await outpaintImage(image, settings.aspectRatio, target, callOptions);
+        if (extended) return resizeToCover(extended, target.width, target.height);
+        console.warn('Outpainting returned no image; cropping instead.');
+    } catch (error) {
+        if (isCancellation(error)) throw error;
+        console.warn('Outpainting failed; cropping instead:', error);
+    }
+    return cropAroundSubject(image, width, height, terms);
+};
+
+export const aspectRatioToCss = (ratio: AspectRatio): string => {
+    const terms = parseAspectRatio(ratio) ?? { width: 4, height: 5 };
+    return `${terms.width} / ${terms.height}`;
+};
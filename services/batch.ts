@@ -0,0 +1,48 @@
+import { ImageFile } from '../types';
+import { GeneratedImage } from './aiService';
+import { base64ToBytes, createZip, extensionForMimeType, uniqueFileName } from './zip';
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchJob {
+    id: string;
+    /** Taken from the product file name; used for the file name inside the zip. */
+    sku: string;
+    product: ImageFile;
+    status: BatchJobStatus;
+    result?: GeneratedImage;
+    error?: string;
+}
+
+export const BATCH_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+export const skuFromFileName = (fileName: string) => fileName.replace(/\.[^.]+$/, '').trim() || 'product';
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` in flight, in order of the list.
+ * A worker is expected to handle its own errors; the first uncaught one stops every lane from starting new items
+ * and is rethrown at once, while the items already in flight run to completion.
+ */
+export const runWithConcurrency = async <T>(items: readonly T[], concurrency: number, worker: (item: T) => Promise<void>): Promise<void> => {
+    let next = 0;
+    let failed = false;
+    const lanes = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+        while (!failed && next < items.length) {
+            try {
+                await worker(items[next++]);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    });
+    await Promise.all(lanes);
+};
+
+export const buildBatchZip = (jobs: BatchJob[]): Blob => {
+    const taken = new Set<string>();
+    return createZip(jobs.filter(job => job.result).map(job => ({
+        name: uniqueFileName(taken, job.sku, extensionForMimeType(job.result!.mimeType)),
+        data: base64ToBytes(job.result!.base64),
+    })));
+};
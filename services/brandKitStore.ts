@@ -0,0 +1,92 @@
+import { BrandKit } from '../types';
+import { createLocalStore, readStoredList } from './localStore';
+
+export interface BrandKitState {
+    kits: BrandKit[];
+    activeId: string | null;
+}
+
+export const normalizeHexColor = (value: string): string | null => {
+    const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+    if (!match) return null;
+    const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+    return `#${hex.toUpperCase()}`;
+};
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const strings = (value: unknown): string[] => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const colors = (value: unknown): string[] => strings(value).flatMap(color => normalizeHexColor(color) ?? []);
+
+const readLogo = (value: unknown): BrandKit['logo'] =>
+    isObject(value) && typeof value.base64 === 'string' && typeof value.mimeType === 'string' && value.mimeType.startsWith('image/')
+        ? { base64: value.base64, mimeType: value.mimeType }
+        : null;
+
+// Unreadable colors and logos are dropped; a kit without an id or a name is dropped as a whole.
+const readStoredBrandKit = (raw: unknown): BrandKit => {
+    if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !raw.name.trim()) throw new Error('Not a valid brand kit.');
+    return {
+        id: raw.id,
+        name: raw.name.trim(),
+        colors: colors(raw.colors),
+        bannedColors: colors(raw.bannedColors),
+        moodWords: strings(raw.moodWords).map(word => word.trim()).filter(Boolean),
+        logo: readLogo(raw.logo),
+        attachLogo: raw.attachLogo !== false,
+    };
+};
+
+const store = createLocalStore<BrandKitState>('ddStudio.brandKits', stored => {
+    const { kits: rawKits, activeId } = isObject(stored) ? stored : {};
+    const kits = readStoredList(rawKits, readStoredBrandKit, 'brand kit');
+    return { kits, activeId: kits.some(kit => kit.id === activeId) ? activeId as string : null };
+}, { kits: [], activeId: null }, 'brand kits');
+
+// A logo too large for localStorage makes `update` throw and leaves the state as it was.
+const update = store.set;
+
+export const getBrandKitState = store.get;
+
+export const subscribeToBrandKits = store.subscribe;
+
+/** The kit injected into generation prompts, or null when no brand is selected. */
+export const getActiveBrandKit = (): BrandKit | null => {
+    const { kits, activeId } = store.get();
+    return kits.find(kit => kit.id === activeId) ?? null;
+};
+
+/** What a history item records about the active kit. */
+export const getActiveBrandKitRef = (): { id: string; name: string } | undefined => {
+    const kit = getActiveBrandKit();
+    return kit ? { id: kit.id, name: kit.name } : undefined;
+};
+
+export const createBrandKit = (name: string): BrandKit => ({
+    id: `brand-${Date.now().toString(36)}`,
+    name,
+    colors: [],
+    bannedColors: [],
+    moodWords: [],
+    logo: null,
+    attachLogo: true,
+});
+
+/** Adds the kit, or replaces the one with the same id. */
+export const saveBrandKit = (kit: BrandKit) => {
+    const state = store.get();
+    const exists = state.kits.some(k => k.id === kit.id);
+    update({ ...state, kits: exists ? state.kits.map(k => k.id === kit.id ? kit : k) : [...state.kits, kit] });
+};
+
+export const deleteBrandKit = (id: string) => {
+    const { kits, activeId } = store.get();
+    update({ kits: kits.filter(kit => kit.id !== id), activeId: activeId === id ? null : activeId });
+};
+
+export const setActiveBrandKit = (id: string | null) => {
+    update({ ...store.get(), activeId: id });
+};
@@ -0,0 +1,106 @@
+import { AspectRatio, GenerationParams, ImageFile } from '../types';
+import { AICallOptions, GeneratedImage, generateImage } from './aiService';
+import { enforceAspectRatio, parseAspectRatio } from './aspectRatio';
+import { createLocalStore, readStoredList } from './localStore';
+import { measureImage, toImageFile } from './imageProcessing';
+import { createReference } from './moodBoard';
+import { buildCampaignReframePrompt } from './promptBuilder';
+import { base64ToBytes, createZip, extensionForMimeType, uniqueFileName, ZipEntry } from './zip';
+
+export type CampaignMethod = 'outpaint' | 'regenerate';
+
+export interface CampaignFormat {
+    id: string;
+    name: string;
+    aspectRatio: AspectRatio;
+    /** Outpaint keeps the hero pixels and extends the frame; regenerate re-renders the scene with the hero as reference. */
+    method: CampaignMethod;
+}
+
+export interface CampaignOutput {
+    format: CampaignFormat;
+    image: GeneratedImage;
+}
+
+export const CAMPAIGN_METHODS: CampaignMethod[] = ['outpaint', 'regenerate'];
+
+export const DEFAULT_CAMPAIGN_FORMATS: CampaignFormat[] = [
+    { id: 'feed', name: 'Feed', aspectRatio: '4:5', method: 'outpaint' },
+    { id: 'story', name: 'Story', aspectRatio: '9:16', method: 'outpaint' },
+    { id: 'landscape', name: 'Landscape', aspectRatio: '16:9', method: 'outpaint' },
+    { id: 'square', name: 'Square', aspectRatio: '1:1', method: 'outpaint' },
+];
+
+// A stored format has to name a ratio that parses and a known method; the others are dropped.
+const readStoredFormat = (raw: unknown): CampaignFormat => {
+    const format = (raw ?? {}) as Partial<Record<keyof CampaignFormat, unknown>>;
+    const method = CAMPAIGN_METHODS.find(m => m === format.method);
+    if (typeof format.id !== 'string' || typeof format.aspectRatio !== 'string' || !parseAspectRatio(format.aspectRatio) || !method) {
+        throw new Error('Not a valid campaign format.');
+    }
+    return {
+        id: format.id,
+        name: typeof format.name === 'string' ? format.name : '',
+        aspectRatio: format.aspectRatio.replace(/\s/g, '') as AspectRatio,
+        method,
+    };
+};
+
+const store = createLocalStore<CampaignFormat[]>('ddStudio.campaignFormats',
+    stored => Array.isArray(stored) ? readStoredList(stored, readStoredFormat, 'campaign format') : DEFAULT_CAMPAIGN_FORMATS,
+    DEFAULT_CAMPAIGN_FORMATS, 'campaign formats');
+
+export const getCampaignFormats = store.get;
+
+export const saveCampaignFormats = store.set;
+
+export const createCampaignFormat = (): CampaignFormat => ({
+    id: `format-${Date.now().toString(36)}`,
+    name: '',
+    aspectRatio: '1:1',
+    method: 'outpaint',
+});
+
+export interface CampaignSource {
+    hero: GeneratedImage;
+    productImage: ImageFile;
+    params: GenerationParams;
+}
+
+/** Produces one format of the pack. Either way the result is brought to the exact aspect ratio. */
+export const renderCampaignFormat = async ({ hero, productImage, params }: CampaignSource, format: CampaignFormat, callOptions?: AICallOptions): Promise<GeneratedImage> => {
+    const exportSettings = { ...params.exportSettings, aspectRatio: format.aspectRatio, fitMode: 'pad' as const };
+    if (format.method === 'outpaint') return enforceAspectRatio(hero, exportSettings, callOptions);
+
+    // The hero goes in as the reference so the scene and product placement carry over.
+    const reframeParams: GenerationParams = {
+        ...params,
+        exportSettings,
+        customPrompt: [params.customPrompt, buildCampaignReframePrompt(format.aspectRatio)].filter(Boolean).join('\n\n'),
+    };
+    const heroReference = { ...createReference(toImageFile(hero, 'hero.png')), weight: 100 };
+    const image = await generateImage(productImage, [heroReference], false, reframeParams, callOptions);
+    if (!image) throw new Error(`No image was returned for the ${format.aspectRatio} format.`);
+    return enforceAspectRatio(image, exportSettings, callOptions);
+};
+
+/** The hero, every finished format and a manifest.json describing them. */
+export const buildCampaignZip = async (hero: GeneratedImage, outputs: CampaignOutput[], campaignName: string): Promise<Blob> => {
+    const taken = new Set<string>();
+    const entries: ZipEntry[] = [];
+    const addImage = async (base: string, image: GeneratedImage) => {
+        const name = uniqueFileName(taken, base, extensionForMimeType(image.mimeType));
+        entries.push({ name, data: base64ToBytes(image.base64) });
+        return { file: name, ...(await measureImage(image)) };
+    };
+
+    const heroEntry = await addImage(`${campaignName}-hero`, hero);
+    const formats = [];
+    for (const { format, image } of outputs) {
+        const entry = await addImage(`${campaignName}-${format.name || 'format'}-${format.aspectRatio.replace(':', 'x')}`, image);
+        formats.push({ name: format.name, aspectRatio: format.aspectRatio, method: format.method, ...entry });
+    }
+    const manifest = { campaign: campaignName, createdAt: new Date().toISOString(), hero: heroEntry, formats };
+    entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+    return createZip(entries);
+};
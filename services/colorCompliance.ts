@@ -0,0 +1,208 @@
+import { RasterImage, readPixels } from './imageProcessing';
+
+// Client-side check of how closely a result's dominant colors match a set of target colors.
+
+export type Lab = [number, number, number];
+
+export interface PaletteColor {
+    hex: string;
+    lab: Lab;
+    /** Fraction of the (opaque) pixels closest to this color. */
+    share: number;
+}
+
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+export interface ColorMatch {
+    target: string;
+    closest: PaletteColor | null;
+    deltaE: number;
+    status: ComplianceStatus;
+}
+
+export interface ComplianceReport {
+    palette: PaletteColor[];
+    matches: ColorMatch[];
+    status: ComplianceStatus;
+}
+
+// ΔE00 around 2 is the just-noticeable difference; beyond 6 the colors read as different.
+export const DELTA_E_PASS = 3;
+export const DELTA_E_WARN = 6;
+// Palette colors covering less than this are specks, not part of the image's look.
+const MIN_SHARE = 0.02;
+const PALETTE_SIZE = 6;
+const ANALYSIS_SIZE = 64;
+const KMEANS_ITERATIONS = 8;
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return [(value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF];
+};
+
+export const rgbToHex = (r: number, g: number, b: number) =>
+    `#${[r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+
+/** sRGB (0-255) to CIELAB under D65. */
+export const rgbToLab = (r: number, g: number, b: number): Lab => {
+    const linear = (c: number) => {
+        const v = c / 255;
+        return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+    };
+    const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+    const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+    const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750;
+    const z = (lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041) / 1.08883;
+    const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+    const [fx, fy, fz] = [f(x), f(y), f(z)];
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const labToRgb = ([l, a, b]: Lab): [number, number, number] => {
+    const fy = (l + 16) / 116;
+    const fx = fy + a / 500;
+    const fz = fy - b / 200;
+    const inverse = (t: number) => (t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27));
+    const [x, y, z] = [inverse(fx) * 0.95047, inverse(fy), inverse(fz) * 1.08883];
+    const gamma = (v: number) => 255 * Math.min(1, Math.max(0, v <= 0.0031308 ? 12.92 * v : 1.055 * v ** (1 / 2.4) - 0.055));
+    return [
+        gamma(x * 3.2404542 - y * 1.5371385 - z * 0.4985314),
+        gamma(-x * 0.9692660 + y * 1.8760108 + z * 0.0415560),
+        gamma(x * 0.0556434 - y * 0.2040259 + z * 1.0572252),
+    ];
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/** CIEDE2000 color difference (Sharma, Wu & Dalal 2005), with kL = kC = kH = 1. */
+export const deltaE2000 = ([l1, a1, b1]: Lab, [l2, a2, b2]: Lab): number => {
+    const c1 = Math.hypot(a1, b1);
+    const c2 = Math.hypot(a2, b2);
+    const cMean7 = ((c1 + c2) / 2) ** 7;
+    const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7)));
+    const a1p = (1 + g) * a1;
+    const a2p = (1 + g) * a2;
+    const c1p = Math.hypot(a1p, b1);
+    const c2p = Math.hypot(a2p, b2);
+    const hue = (b: number, a: number) => (b === 0 && a === 0 ? 0 : (toDegrees(Math.atan2(b, a)) + 360) % 360);
+    const h1p = hue(b1, a1p);
+    const h2p = hue(b2, a2p);
+
+    const dLp = l2 - l1;
+    const dCp = c2p - c1p;
+    let dhp = 0;
+    if (c1p * c2p !== 0) {
+        dhp = h2p - h1p;
+        if (dhp > 180) dhp -= 360;
+        else if (dhp < -180) dhp += 360;
+    }
+    const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(dhp / 2));
+
+    const lMean = (l1 + l2) / 2;
+    const cMeanP = (c1p + c2p) / 2;
+    let hMean = h1p + h2p;
+    if (c1p * c2p !== 0) {
+        if (Math.abs(h1p - h2p) <= 180) hMean /= 2;
+        else hMean = h1p + h2p < 360 ? (h1p + h2p + 360) / 2 : (h1p + h2p - 360) / 2;
+    }
+    const t = 1
+        - 0.17 * Math.cos(toRadians(hMean - 30))
+        + 0.24 * Math.cos(toRadians(2 * hMean))
+        + 0.32 * Math.cos(toRadians(3 * hMean + 6))
+        - 0.20 * Math.cos(toRadians(4 * hMean - 63));
+    const sl = 1 + (0.015 * (lMean - 50) ** 2) / Math.sqrt(20 + (lMean - 50) ** 2);
+    const sc = 1 + 0.045 * cMeanP;
+    const sh = 1 + 0.015 * cMeanP * t;
+    const cMeanP7 = cMeanP ** 7;
+    const rt = -2 * Math.sqrt(cMeanP7 / (cMeanP7 + 25 ** 7)) * Math.sin(toRadians(60 * Math.exp(-(((hMean - 275) / 25) ** 2))));
+
+    return Math.sqrt(
+        (dLp / sl) ** 2 + (dCp / sc) ** 2 + (dHp / sh) ** 2 + rt * (dCp / sc) * (dHp / sh),
+    );
+};
+
+const squaredDistance = (p: Lab, q: Lab) => (p[0] - q[0]) ** 2 + (p[1] - q[1]) ** 2 + (p[2] - q[2]) ** 2;
+
+/**
+ * Dominant colors by k-means in Lab space over a downscaled copy, largest share first. The clusters start
+ * from the most populated cells of a coarse RGB histogram, so the same image always gives the same palette.
+ */
+export const extractPalette = async (image: RasterImage, size = PALETTE_SIZE): Promise<PaletteColor[]> => {
+    const { data } = await readPixels(image, ANALYSIS_SIZE);
+    const pixels: Lab[] = [];
+    const bins = new Map<number, { count: number; lab: Lab }>();
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] < 128) continue;
+        const lab = rgbToLab(data[i], data[i + 1], data[i + 2]);
+        pixels.push(lab);
+        const bin = ((data[i] >> 5) << 6) | ((data[i + 1] >> 5) << 3) | (data[i + 2] >> 5);
+        const entry = bins.get(bin);
+        if (entry) entry.count++;
+        else bins.set(bin, { count: 1, lab });
+    }
+    if (pixels.length === 0) return [];
+
+    let centers = [...bins.values()].sort((a, b) => b.count - a.count).slice(0, size).map(bin => bin.lab);
+    let counts: number[] = [];
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+        const sums = centers.map((): Lab => [0, 0, 0]);
+        counts = centers.map(() => 0);
+        for (const pixel of pixels) {
+            let best = 0;
+            for (let c = 1; c < centers.length; c++) {
+                if (squaredDistance(pixel, centers[c]) < squaredDistance(pixel, centers[best])) best = c;
+            }
+            sums[best][0] += pixel[0]; sums[best][1] += pixel[1]; sums[best][2] += pixel[2];
+            counts[best]++;
+        }
+        centers = centers.map((center, c) => counts[c] ? [sums[c][0] / counts[c], sums[c][1] / counts[c], sums[c][2] / counts[c]] : center);
+    }
+
+    return centers
+        .map((lab, c) => ({ hex: rgbToHex(...labToRgb(lab)), lab, share: counts[c] / pixels.length }))
+        .filter(color => color.share > 0)
+        .sort((a, b) => b.share - a.share);
+};
+
+const statusFor = (deltaE: number): ComplianceStatus =>
+    deltaE <= DELTA_E_PASS ? 'pass' : deltaE <= DELTA_E_WARN ? 'warn' : 'fail';
+
+const STATUS_RANK: Record<ComplianceStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+/** Matches every target against the closest palette color that covers a meaningful part of the image. */
+export const checkColorCompliance = (palette: PaletteColor[], targets: string[]): ComplianceReport => {
+    const present = palette.filter(color => color.share >= MIN_SHARE);
+    const matches = targets.map((target): ColorMatch => {
+        const targetLab = rgbToLab(...hexToRgb(target));
+        let closest: PaletteColor | null = null;
+        let deltaE = Infinity;
+        for (const color of present) {
+            const distance = deltaE2000(targetLab, color.lab);
+            if (distance < deltaE) {
+                deltaE = distance;
+                closest = color;
+            }
+        }
+        return { target, closest, deltaE, status: statusFor(deltaE) };
+    });
+    const status = matches.reduce<ComplianceStatus>((worst, match) => STATUS_RANK[match.status] > STATUS_RANK[worst] ? match.status : worst, 'pass');
+    return { palette, matches, status };
+};
+
+/** Average color of a small square around (x, y), given as fractions of the width and height. */
+export const sampleColor = async (image: RasterImage, x: number, y: number, radius = 2): Promise<string> => {
+    const { data, width, height } = await readPixels(image);
+    const cx = Math.min(width - 1, Math.max(0, Math.floor(x * width)));
+    const cy = Math.min(height - 1, Math.max(0, Math.floor(y * height)));
+    const sum = [0, 0, 0];
+    let count = 0;
+    for (let py = Math.max(0, cy - radius); py <= Math.min(height - 1, cy + radius); py++) {
+        for (let px = Math.max(0, cx - radius); px <= Math.min(width - 1, cx + radius); px++) {
+            const i = (py * width + px) * 4;
+            sum[0] += data[i]; sum[1] += data[i + 1]; sum[2] += data[i + 2];
+            count++;
+        }
+    }
+    return rgbToHex(sum[0] / count, sum[1] / count, sum[2] / count);
+};
@@ -0,0 +1,74 @@
+import { CustomPresetDefinition, PresetCategory, PresetIconId } from '../types';
+import { PRESET_ICONS } from '../constants';
+import { createLocalStore, readStoredList } from './localStore';
+
+/** The icon a new preset starts with: the one the category's section uses. */
+export const DEFAULT_PRESET_ICONS: Record<PresetCategory, PresetIconId> = {
+    camera: 'camera',
+    lighting: 'sun',
+    mockup: 'cube',
+    manipulation: 'layers',
+    retouch: 'wand',
+    peopleRetouch: 'user',
+};
+
+// The prefix keeps user ids apart from the built-in ones, also in packs imported from someone else.
+export const CUSTOM_PRESET_ID_PREFIX = 'custom-';
+
+export const createCustomPresetId = () => `${CUSTOM_PRESET_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const PRESET_CATEGORIES = Object.keys(DEFAULT_PRESET_ICONS) as PresetCategory[];
+const PRESET_ICON_IDS = Object.keys(PRESET_ICONS) as PresetIconId[];
+
+const optionalText = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+/**
+ * Checks one preset from a pack or from storage. Ids outside the custom range get a fresh one,
+ * and unknown icons fall back to the category's. Throws when the category or name is missing.
+ */
+export const readCustomPreset = (raw: unknown): CustomPresetDefinition => {
+    const preset = (raw ?? {}) as Partial<Record<keyof CustomPresetDefinition, unknown>>;
+    const category = PRESET_CATEGORIES.find(c => c === preset.category);
+    if (!category || !optionalText(preset.name)) throw new Error('Not a valid custom preset.');
+    return {
+        id: typeof preset.id === 'string' && preset.id.startsWith(CUSTOM_PRESET_ID_PREFIX) ? preset.id : createCustomPresetId(),
+        category,
+        name: optionalText(preset.name),
+        description: optionalText(preset.description),
+        metadata: optionalText(preset.metadata),
+        icon: PRESET_ICON_IDS.find(icon => icon === preset.icon) ?? DEFAULT_PRESET_ICONS[category],
+    };
+};
+
+const store = createLocalStore<CustomPresetDefinition[]>('ddStudio.customPresets', stored => readStoredList(stored, readCustomPreset, 'custom preset'), [], 'custom presets');
+const update = store.set;
+
+export const getCustomPresets = store.get;
+
+export const subscribeToCustomPresets = store.subscribe;
+
+export const createCustomPreset = (category: PresetCategory): CustomPresetDefinition => ({
+    id: createCustomPresetId(),
+    category,
+    name: '',
+    description: '',
+    metadata: '',
+    icon: DEFAULT_PRESET_ICONS[category],
+});
+
+/** Adds the preset, or replaces the one with the same id. */
+export const saveCustomPreset = (preset: CustomPresetDefinition) => {
+    const presets = store.get();
+    const exists = presets.some(p => p.id === preset.id);
+    update(exists ? presets.map(p => p.id === preset.id ? preset : p) : [...presets, preset]);
+};
+
+export const deleteCustomPreset = (id: string) => {
+    update(store.get().filter(preset => preset.id !== id));
+};
+
+/** Saves every imported preset; one with an id that already exists replaces the stored copy. */
+export const importCustomPresets = (imported: CustomPresetDefinition[]) => {
+    const ids = new Set(imported.map(preset => preset.id));
+    update([...store.get().filter(preset => !ids.has(preset.id)), ...imported]);
+};
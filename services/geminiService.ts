@@ -1,214 +1,201 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { GenerationParams, ImageFile, UpscaleTarget, PromptSuggestion, RetouchOptions, IllustrationStylePreset } from '../types';
-
-// According to guidelines, API key must be from process.env.API_KEY
-const genAI = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-
-export interface AnalysisResult {
-    // FIX: Added an index signature to make the type compatible with Record<string, string[]>.
-    [key: string]: string[];
-    camera: string[];
-    lighting: string[];
-    mockup: string[];
-    manipulation: string[];
-    retouch: string[];
-    peopleRetouch: string[];
-}
-
-export const analyzeForCompositeSuggestions = async (productImage: ImageFile, referenceImage: ImageFile): Promise<AnalysisResult> => {
+import { GoogleGenAI, GenerateContentResponse, Type, Modality } from "@google/genai";
+import { GenerationParams, ImageFile, UpscaleTarget, PromptSuggestion, RetouchOptions, IllustrationStylePreset, PresetCategory, RefinementTurn, ReferenceImage } from '../types';
+import { AIProvider, AICallOptions, AnalysisResult, GeneratedImage } from './aiProvider';
+import { AIError, InvalidJsonError, NoImageError, SafetyBlockError, isSafetyFinishReason, toAIError } from './aiErrors';
+import { describeCatalogForPrompt, getSelectablePresetIds } from './presetCatalog';
+import { padImage } from './imageProcessing';
+import { CompiledRequest, buildInpaintPrompt, buildOutpaintPrompt, buildRefinePrompt, buildUpscalePrompt, compileDesignKitRequest, describeReferences, compileEnvironmentRequest, compileIllustrationRequest, compileSmartRetouchRequest } from './promptBuilder';
+
+// According to guidelines, API key must be from process.env.API_KEY.
+// The client is created on first use so the app can boot with another provider and no key.
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    }
+    return client;
+};
+
+// Throws a SafetyBlockError when either the prompt or the first candidate was blocked.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const feedback = response.promptFeedback;
+    if (feedback?.blockReason) {
+        const category = feedback.safetyRatings?.find(r => r.blocked)?.category;
+        throw new SafetyBlockError(category, { finishReason: feedback.blockReason });
+    }
+    const candidate = response.candidates?.[0];
+    if (candidate && isSafetyFinishReason(candidate.finishReason)) {
+        const category = candidate.safetyRatings?.find(r => r.blocked)?.category;
+        throw new SafetyBlockError(category, { finishReason: candidate.finishReason });
+    }
+};
+
+// Reported before any validation: blocked and malformed responses are billed too.
+const reportUsage = (response: GenerateContentResponse, model: string, callOptions?: AICallOptions) => {
+    const usage = response.usageMetadata;
+    callOptions?.onUsage?.({
+        model,
+        inputTokens: usage?.promptTokenCount ?? 0,
+        // Thinking tokens are billed as output.
+        outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+        images: response.candidates?.[0]?.content?.parts?.filter(part => part.inlineData?.data).length ?? 0,
+    });
+};
+
+const extractImage = (response: GenerateContentResponse): GeneratedImage => {
+    assertNotBlocked(response);
+    const candidate = response.candidates?.[0];
+    for (const part of candidate?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+            return {
+                base64: part.inlineData.data,
+                mimeType: part.inlineData.mimeType || 'image/png',
+            };
+        }
+    }
+    throw new NoImageError({ finishReason: candidate?.finishReason });
+};
+
+const parseJson = <T>(response: GenerateContentResponse): T => {
+    assertNotBlocked(response);
+    try {
+        return JSON.parse((response.text ?? '').trim()) as T;
+    } catch (error) {
+        throw new InvalidJsonError({ finishReason: response.candidates?.[0]?.finishReason, cause: error });
+    }
+};
+
+const toContentParts = (request: CompiledRequest, callOptions?: AICallOptions) => [
+    ...request.imageParts.map(({ image }) => ({ inlineData: { data: image.base64, mimeType: image.mimeType } })),
+    { text: callOptions?.promptOverride ?? request.text },
+];
+
+const toReferenceParts = (references: ReferenceImage[]) =>
+    references.map(({ image }) => ({ inlineData: { mimeType: image.mimeType, data: image.base64 } }));
+
+// Spelled out for the hand-written prompts below; the generation templates carry the same lines.
+const referenceRoles = (references: ReferenceImage[]) =>
+    `Each reference governs only one aspect:\n${describeReferences(references).join('\n')}`;
+
+export const analyzeForCompositeSuggestions = async (productImage: ImageFile, references: ReferenceImage[], callOptions?: AICallOptions): Promise<AnalysisResult> => {
     const model = 'gemini-2.5-flash';
 
     const productPart = { inlineData: { mimeType: productImage.mimeType, data: productImage.base64 } };
-    const referencePart = { inlineData: { mimeType: referenceImage.mimeType, data: referenceImage.base64 } };
+    const hasReferences = references.length > 0;
 
-    const prompt = `You are a professional art director. Analyze the provided product image (first) and the reference/style image (second).
+    // Without a reference, the suggestions come from the product alone.
+    const task = hasReferences
+        ? `Analyze the provided product image (first) and the reference images that follow it.
+    ${referenceRoles(references)}
     
-    Your goal is to suggest the best technical and creative presets to create a high-end advertisement by placing the product into a NEW scene that is HEAVILY INSPIRED by the reference image's style, mood, and lighting. Do NOT suggest simply putting the product into the reference image.
+    Your goal is to suggest the best technical and creative presets to create a high-end advertisement by placing the product into a NEW scene that takes each aspect from its reference. Do NOT suggest simply putting the product into a reference image.`
+        : `Analyze the provided product image. Identify its materials and finish (glass, metal, plastic, fabric, paper, liquid; matte or glossy), its shape and size, whether it is a flat logo/graphic or a physical object, and what kind of product it is.
     
-    Your response MUST be in JSON format. Provide suggestions for the following categories by returning the preset 'id's.
-    - "camera": Suggest 1-2 camera presets that would best frame the product in a scene like the reference.
-    - "lighting": Suggest 1-2 lighting presets that mimic the reference image's mood.
-    - "manipulation": Suggest 2-3 manipulation/FX presets to seamlessly blend the product and achieve the desired style (e.g., atmospheric effects, reflections).
+    Your goal is to suggest the best technical and creative presets to create a high-end advertisement that shows off exactly these qualities.`;
+    const fit = hasReferences ? 'this product and these references' : 'this product';
+
+    const prompt = `You are a professional art director. ${task}
+    
+    Your response MUST be in JSON format. For each category below, return objects with the preset "id" (only ids from the list for that category) and a "rationale": one short sentence on why it suits ${fit}.
+    - "camera": Suggest 1-2 camera presets that would best frame the product${hasReferences ? ' in a scene like the references' : ' and its shape'}.
+${describeCatalogForPrompt('camera')}
+    - "lighting": Suggest 1-2 lighting presets that ${hasReferences ? "mimic the references' lighting and mood" : 'suit its materials (e.g., rim light for glass, hard specular for metal, soft light for matte packaging)'}.
+${describeCatalogForPrompt('lighting')}
+    - "manipulation": Suggest 2-3 manipulation/FX presets to seamlessly ${hasReferences ? 'blend the product and achieve the desired style' : 'place the product in its scene'} (e.g., atmospheric effects, reflections).
+${describeCatalogForPrompt('manipulation')}
     - "retouch": Suggest 1-2 essential product retouching presets.
-    - "peopleRetouch": If the product is for people (e.g., makeup) or the reference has people, suggest 1 preset. Otherwise, return an empty array.
-    - "mockup": Return an empty array. Mockups are not used with reference images.
+${describeCatalogForPrompt('retouch')}
+    - "peopleRetouch": If the product is for people (e.g., makeup)${hasReferences ? ' or the references show people' : ''}, suggest 1 preset. Otherwise, return an empty array.
+${describeCatalogForPrompt('peopleRetouch')}
+    - "mockup": ${hasReferences ? 'If the references clearly show one of these settings, suggest that 1 mockup scene.' : 'Suggest the 1 mockup scene where this kind of product would naturally be advertised, if any fits well.'} Otherwise, return an empty array.
+${describeCatalogForPrompt('mockup')}
     
     Example response:
     {
-      "camera": ["hero-45"],
-      "lighting": ["day-02"],
+      "camera": [{ "id": "hero-45", "rationale": "The reference is shot slightly from above, which shows off the cap and label." }],
+      "lighting": [{ "id": "day-02", "rationale": "Warm low backlight matches the sunset glow in the reference." }],
       "mockup": [],
-      "manipulation": ["shadow-synthesis", "atmospheric-fx", "ibl-match"],
-      "retouch": ["cleanup", "specular-control"],
+      "manipulation": [{ "id": "shadow-synthesis", "rationale": "Grounds the product on the new surface." }],
+      "retouch": [{ "id": "cleanup", "rationale": "The product photo shows dust on the glass." }],
       "peopleRetouch": []
     }`;
 
+    const suggestionList = (category: PresetCategory) => ({
+        type: Type.ARRAY,
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                id: { type: Type.STRING, enum: getSelectablePresetIds(category) },
+                rationale: { type: Type.STRING },
+            },
+            required: ['id', 'rationale'],
+        },
+    });
+
 
     try {
-        const response = await genAI.models.generateContent({
+        const response = await getClient().models.generateContent({
             model: model,
-            contents: { parts: [productPart, referencePart, { text: prompt }] },
+            contents: { parts: [productPart, ...toReferenceParts(references), { text: prompt }] },
             config: {
+                abortSignal: callOptions?.signal,
                 responseMimeType: "application/json",
                 responseSchema: {
                     type: Type.OBJECT,
                     properties: {
-                        camera: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        lighting: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        mockup: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        manipulation: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        retouch: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        peopleRetouch: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        camera: suggestionList('camera'),
+                        lighting: suggestionList('lighting'),
+                        mockup: suggestionList('mockup'),
+                        manipulation: suggestionList('manipulation'),
+                        retouch: suggestionList('retouch'),
+                        peopleRetouch: suggestionList('peopleRetouch'),
                     },
                     required: ["camera", "lighting", "mockup", "manipulation", "retouch", "peopleRetouch"]
                 }
             }
         });
+        reportUsage(response, model, callOptions);
 
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as AnalysisResult;
+        return parseJson<AnalysisResult>(response);
     } catch (error) {
         console.error("Error analyzing composite image:", error);
-        throw new Error("Failed to get composite suggestions from AI.");
+        throw toAIError(error);
     }
 };
 
 export const generateImage = async (
     productImage: ImageFile,
-    referenceImage: ImageFile | null,
+    references: ReferenceImage[],
     useMagicComposite: boolean,
     params: GenerationParams,
+    callOptions?: AICallOptions,
 ): Promise<{ base64: string; mimeType: string } | null> => {
     
-    const {
-        cameraPresets,
-        lightingPresets,
-        mockupPreset,
-        manipulationPresets,
-        retouchPresets,
-        peopleRetouchPresets,
-        exportSettings,
-        customPrompt,
-    } = params;
-
     const model = 'gemini-2.5-flash-image';
-    
-    let prompt = `You are an expert product photographer and digital artist.
-Your task is to create a dynamic, professional advertisement image. The FIRST image is the primary subject (a product, logo, or graphic). You will place this subject into a newly generated, photorealistic scene.
-
---- MOST IMPORTANT RULE ---
-The final output image's dimensions MUST strictly follow a ${exportSettings.aspectRatio} aspect ratio. This is a non-negotiable requirement.
-
---- PRIMARY SCENE GOAL ---\n`;
-
-    if (mockupPreset && mockupPreset.id !== 'none') {
-        prompt += `Place the subject from the FIRST image within a photorealistic "${mockupPreset.name}" environment. The subject must be integrated naturally into this scene. For context, a "${mockupPreset.name}" is: ${mockupPreset.description}.\n\n`;
-    } else {
-        prompt += "Place the subject from the FIRST image on a clean, elegant, professional studio backdrop that complements its style and the instructions below.\n\n";
-    }
-
-    prompt += `--- LOGO & GRAPHIC APPLICATION (VERY IMPORTANT) ---\n`;
-    prompt += `If the subject in the FIRST image is a logo, sticker, text, or flat graphic, your primary task is NOT just to place it in the scene, but to **apply it realistically onto a surface within the scene**.
-- If a mockup is selected (e.g., 'T-Shirt Model', 'Cafe Table' which implies a cup, 'Supermarket Shelf' which implies packaging), you MUST apply the logo to the relevant object in that mockup scene.
-- The application must be realistic: the logo should wrap around curved surfaces, match the lighting and shadows of the object, and adopt the texture of the surface it's on (e.g., look like it's printed on fabric, etched on glass, etc.).
-- The logo itself should remain clear and preserve its original colors and form.\n\n`;
-
-    if (referenceImage) {
-        prompt += `--- SCENE STYLE INSPIRATION ---\n`;
-        prompt += `The SECOND image provided is a reference for the overall style and mood.
-**IMPORTANT:** Do NOT composite the subject directly into the reference image.
-Instead, the entire new scene you generate (whether it's the mockup or the studio backdrop) must be heavily INSPIRED by the reference image. Capture its atmosphere, lighting, color palette, and aesthetic. The final result must be a completely new and unique image that combines the product, the mockup scene, and the reference style.\n\n`;
-    }
-    
-    prompt += "--- CREATIVE & TECHNICAL INSTRUCTIONS ---\n";
-    prompt += "- **Composition**: If the subject is a physical product, it is CRITICAL to keep its exact composition, camera angle, and perspective from the original input image. Build the new scene *around* the product as it is. HOWEVER, if the subject is a logo/graphic being applied to a mockup surface, you should instead focus on placing the logo naturally on the mockup's surface, adjusting its perspective and wrapping it as needed for realism. Do not change the logo's core design.\n";
-    prompt += `${useMagicComposite ? "**Magic Composite Mode is ON**: You have creative freedom to interpret these instructions to create the most stunning image possible.\n" : "**Manual Design Kit Mode is ON**: Strictly adhere to the following instructions.\n"}`;
-
-    if (customPrompt) {
-        prompt += `\n- **Creative Direction**: "${customPrompt}"\n`;
-    }
-
-    if (cameraPresets.length > 0 && cameraPresets.some(p => p.id !== 'none')) {
-        prompt += `- **Camera Instructions**:\n`;
-        cameraPresets.forEach(p => { if (p.id !== 'none') prompt += `  - ${p.name}: ${p.description}. Technical hint: ${p.metadata}\n`; });
-    }
-    
-    if (lightingPresets.length > 0 && lightingPresets.some(p => p.id !== 'none')) {
-        prompt += `- **Lighting Instructions**:\n`;
-        lightingPresets.forEach(p => { if (p.id !== 'none') prompt += `  - ${p.name}: ${p.description}. Technical hint: ${p.metadata}\n`; });
-    }
-    
-    prompt += "\n\n--- POST-PRODUCTION & RETOUCHING ---";
-
-    if (retouchPresets.length > 0 && retouchPresets.some(p => p.id !== 'none')) {
-        prompt += `\n- **Product Retouching**:\n`;
-        retouchPresets.forEach(p => { if (p.id !== 'none') prompt += `  - ${p.name}: ${p.description}.\n`; });
-    }
-
-    if (peopleRetouchPresets.length > 0 && peopleRetouchPresets.some(p => p.id !== 'none')) {
-        prompt += `- **People Retouching**:\n`;
-        peopleRetouchPresets.forEach(p => { if (p.id !== 'none') prompt += `  - ${p.name}: ${p.description}.\n`; });
-    }
-
-    if (manipulationPresets.length > 0 && manipulationPresets.some(p => p.id !== 'none')) {
-        prompt += `- **Creative Manipulations & FX**:\n`;
-        manipulationPresets.forEach(p => { if (p.id !== 'none') prompt += `  - ${p.name}: ${p.description}.\n`; });
-    }
-    
-    prompt += "\n--- FINAL EXPORT REQUIREMENTS ---\n";
-    prompt += `- **Background**: ${exportSettings.transparent ? "The final image MUST have a transparent background (PNG format). If compositing, this means removing the original background but keeping all generated shadows and reflections for placing on another backdrop." : "The final image must have a fully rendered, opaque background."}\n`;
-    prompt += "- **Output**: The final output must be ONLY the generated image. Do not add any text, watermarks, or annotations. The product is the hero.";
-    
-    const imagePart = {
-        inlineData: {
-            data: productImage.base64,
-            mimeType: productImage.mimeType,
-        },
-    };
-    
-    const parts: any[] = [imagePart];
-
-    if (referenceImage) {
-        const referencePart = {
-            inlineData: {
-                data: referenceImage.base64,
-                mimeType: referenceImage.mimeType,
-            },
-        };
-        parts.push(referencePart);
-    }
-
-    parts.push({ text: prompt });
+    const parts = toContentParts(compileDesignKitRequest(productImage, references, useMagicComposite, params), callOptions);
 
     try {
-        const response = await genAI.models.generateContent({
+        const response = await getClient().models.generateContent({
             model,
             contents: { parts },
             config: {
                 responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: callOptions?.signal,
             },
         });
-        
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                return {
-                    base64: part.inlineData.data,
-                    mimeType: part.inlineData.mimeType,
-                };
-            }
-        }
-        console.error("No image found in Gemini response.");
-        return null;
+        reportUsage(response, model, callOptions);
+        return extractImage(response);
 
     } catch (error) {
         console.error("Error generating image:", error);
-        throw new Error("The AI failed to generate an image. This could be due to a safety policy violation or an internal error.");
+        throw toAIError(error);
     }
 };
 
 export const generateDesignKitPrompt = async (
     productImage: ImageFile,
-    referenceImage: ImageFile | null
+    references: ReferenceImage[],
+    callOptions?: AICallOptions
 ): Promise<PromptSuggestion[]> => {
     const model = 'gemini-2.5-flash';
     
@@ -216,13 +203,14 @@ export const generateDesignKitPrompt = async (
     
     let promptText = '';
 
-    if (referenceImage) {
-        parts.push({ inlineData: { mimeType: referenceImage.mimeType, data: referenceImage.base64 } });
+    if (references.length > 0) {
+        parts.push(...toReferenceParts(references));
         promptText = `You are a world-class creative director specializing in high-end advertising. Your task is to generate 3 distinct and creative prompt variations for an AI image generator.
 
-Analyze the provided product image (first) and the style reference image (second).
+Analyze the provided product image (first) and the reference images that follow it.
+${referenceRoles(references)}
 
-The goal is to place the product from the first image into a completely new, photorealistic scene that is heavily inspired by the style, mood, composition, camera angle, and lighting of the second image.
+The goal is to place the product from the first image into a completely new, photorealistic scene that takes each aspect from its reference.
 
 Each prompt variation must be a complete, detailed instruction for the AI. Give each variation a short, catchy title that reflects its creative direction. For example, a title could be "Cinematic Drama" or "Minimalist Serenity". The prompt itself should be descriptive and evocative.
 
@@ -240,10 +228,11 @@ Your response MUST be in JSON format. Do not output anything else.`;
     parts.push({ text: promptText });
 
     try {
-        const response = await genAI.models.generateContent({
+        const response = await getClient().models.generateContent({
             model: model,
             contents: { parts: parts },
             config: {
+                abortSignal: callOptions?.signal,
                 responseMimeType: "application/json",
                 responseSchema: {
                     type: Type.ARRAY,
@@ -258,25 +247,26 @@ Your response MUST be in JSON format. Do not output anything else.`;
                 }
             }
         });
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as PromptSuggestion[];
+        reportUsage(response, model, callOptions);
+        return parseJson<PromptSuggestion[]>(response);
     } catch (error) {
         console.error("Error generating Design Kit prompt suggestions:", error);
-        throw new Error("AI failed to generate creative prompt suggestions.");
+        throw toAIError(error);
     }
 };
 
-export const generateIllustrationPrompts = async (baseImage: ImageFile, referenceImage: ImageFile | null): Promise<PromptSuggestion[]> => {
+export const generateIllustrationPrompts = async (baseImage: ImageFile, references: ReferenceImage[], callOptions?: AICallOptions): Promise<PromptSuggestion[]> => {
     const model = 'gemini-2.5-flash';
     
     const parts: any[] = [{ inlineData: { mimeType: baseImage.mimeType, data: baseImage.base64 } }];
     let promptText = '';
 
-    if (referenceImage) {
-        parts.push({ inlineData: { mimeType: referenceImage.mimeType, data: referenceImage.base64 } });
-        promptText = `You are a creative art director. Analyze the two provided images. The first is the 'base image' (the subject), and the second is the 'style reference'. Your task is to generate 3 distinct and creative prompts that describe how the base image could be re-imagined as an illustration in the artistic style of the reference image.
+    if (references.length > 0) {
+        parts.push(...toReferenceParts(references));
+        promptText = `You are a creative art director. Analyze the provided images. The first is the 'base image' (the subject), and the ones after it are 'style references'. Your task is to generate 3 distinct and creative prompts that describe how the base image could be re-imagined as an illustration in the artistic style of the references.
+${referenceRoles(references)}
 
-Each prompt should be a complete instruction for an illustration AI. Capture the mood, color palette, texture, and overall art direction from the style reference and apply it to the subject of the base image.
+Each prompt should be a complete instruction for an illustration AI. Take each aspect of the art direction from its reference and apply it to the subject of the base image.
 
 Give each variation a short, catchy title (e.g., "Gouache Storybook", "Cyberpunk Ink"). The prompt itself should be descriptive and evocative. Your response MUST be in JSON format. Do not output anything else.`;
     } else {
@@ -293,10 +283,11 @@ Give each variation a short, catchy title (e.g., "Cosmic Discovery", "Storybook
     parts.push({ text: promptText });
 
     try {
-        const response = await genAI.models.generateContent({
+        const response = await getClient().models.generateContent({
             model: model,
             contents: { parts: parts },
             config: {
+                abortSignal: callOptions?.signal,
                 responseMimeType: "application/json",
                 responseSchema: {
                     type: Type.ARRAY,
@@ -311,11 +302,11 @@ Give each variation a short, catchy title (e.g., "Cosmic Discovery", "Storybook
                 }
             }
         });
-        const jsonText = response.text.trim();
-        return JSON.parse(jsonText) as PromptSuggestion[];
+        reportUsage(response, model, callOptions);
+        return parseJson<PromptSuggestion[]>(response);
     } catch (error) {
         console.error("Error generating illustration prompts:", error);
-        throw new Error("AI failed to generate illustration prompts.");
+        throw toAIError(error);
     }
 };
 
@@ -324,76 +315,27 @@ export const generateIllustration = async (
     style: IllustrationStylePreset,
     detailFidelity: number,
     customPrompt: string,
-    referenceImage: ImageFile | null
+    references: ReferenceImage[],
+    callOptions?: AICallOptions
 ): Promise<{ base64: string; mimeType: string } | null> => {
     const model = 'gemini-2.5-flash-image';
     
-    const parts: any[] = [{ inlineData: { data: baseImage.base64, mimeType: baseImage.mimeType } }];
-    
-    let promptText = `Act as a master illustrator with expertise in a wide range of artistic styles. Your task is to transform the provided base image into a high-quality illustration.`;
-
-    let styleReferenceInstruction = '';
-    if (referenceImage) {
-        parts.push({ inlineData: { data: referenceImage.base64, mimeType: referenceImage.mimeType } });
-        styleReferenceInstruction = `--- STYLE REFERENCE (TOP PRIORITY) ---
-A style reference image has been provided. The final illustration's art direction—including color palette, mood, texture, and overall aesthetic—should be **heavily inspired by this reference image**. This is a higher priority than the style preset or custom prompt if they conflict.`;
-    }
-    
-    let fidelityInstruction = '';
-    if (detailFidelity > 80) {
-        fidelityInstruction = "It is absolutely critical that you create a faithful illustration. The composition, subject, pose, and all key details from the original image MUST be preserved. This is a stylistic transformation, not a re-imagination.";
-    } else if (detailFidelity > 40) {
-        fidelityInstruction = "Preserve the main subject, composition, and key elements from the original image, but feel free to interpret the finer details and background in the chosen artistic style.";
-    } else {
-        fidelityInstruction = "Use the original image as a loose inspiration for a new illustration in the chosen style. The core subject should be recognizable, but you have creative freedom with the composition and details.";
-    }
-
-    let primaryStyleGoal = '';
-    if (style.id === 'none') {
-        primaryStyleGoal = `The illustration style should be guided primarily by the user's custom prompt. If the prompt is empty and no style reference is given, you have creative freedom to choose a suitable, beautiful illustration style.`;
-    } else {
-        primaryStyleGoal = `The illustration must be in the style of **${style.name}**. For context, this style is described as: "${style.description}".`;
-    }
-
-    promptText += `
-${styleReferenceInstruction}
-
---- PRESET STYLE GOAL ---
-${primaryStyleGoal}
-
---- DETAIL & COMPOSITION ---
-**Fidelity Level: ${detailFidelity}/100.** ${fidelityInstruction}
-
---- ADDITIONAL CREATIVE DIRECTION ---
-${customPrompt ? `The user has provided this specific direction: "${customPrompt}". Integrate this into your final artwork.` : "No additional creative direction was provided."}
-
---- FINAL OUTPUT REQUIREMENTS ---
-- The final image must strictly adhere to the requested illustration style and reference.
-- Maintain the aspect ratio of the original source image.
-- The output must be ONLY the generated illustration. Do not add any text, watermarks, or annotations.`;
-
-    parts.push({ text: promptText });
+    const parts = toContentParts(compileIllustrationRequest(baseImage, style, detailFidelity, customPrompt, references), callOptions);
 
     try {
-        const response = await genAI.models.generateContent({
+        const response = await getClient().models.generateContent({
             model,
             contents: { parts: parts },
             config: {
                 responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: callOptions?.signal,
             },
         });
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                return {
-                    base64: part.inlineData.data,
-                    mimeType: part.inlineData.mimeType,
-                };
-            }
-        }
-        return null;
+        reportUsage(response, model, callOptions);
+        return extractImage(response);
     } catch (error) {
         console.error("Error generating illustration:", error);
-        throw new Error("The AI failed to generate the illustration.");
+        throw toAIError(error);
     }
 };
 
@@ -401,7 +343,8 @@ ${customPrompt ? `The user has provided this specific direction: "${customPrompt
 export const generateRetouchPrompts = async (
     environmentPreset: string,
     styleVariety: 'normal' | 'wide',
-    syncWithEnvironment: boolean
+    syncWithEnvironment: boolean,
+    callOptions?: AICallOptions
 ): Promise<string[]> => {
     const model = 'gemini-2.5-flash';
 
@@ -431,10 +374,11 @@ export const generateRetouchPrompts = async (
 **Output Format:** Your response MUST be a JSON object with a single key "prompts" which is an array containing exactly three string elements. Example: {"prompts": ["First prompt text...", "Second prompt text...", "Third prompt text..."]}`;
 
     try {
-        const response = await genAI.models.generateContent({
+        const response = await getClient().models.generateContent({
             model: model,
             contents: { parts: [{ text: promptText }] },
             config: {
+                abortSignal: callOptions?.signal,
                 responseMimeType: "application/json",
                 responseSchema: {
                     type: Type.OBJECT,
@@ -448,179 +392,68 @@ export const generateRetouchPrompts = async (
                 }
             }
         });
-        const jsonText = response.text.trim();
-        const result = JSON.parse(jsonText);
+        reportUsage(response, model, callOptions);
+        const result = parseJson<{ prompts?: string[] }>(response);
         if (result.prompts && result.prompts.length === 3) {
             return result.prompts;
         } else {
-            throw new Error("AI did not return 3 prompts in the expected format.");
+            throw new InvalidJsonError({ finishReason: response.candidates?.[0]?.finishReason });
         }
     } catch (error) {
         console.error("Error generating retouch prompts:", error);
-        throw new Error("AI failed to generate retouch prompts.");
+        throw toAIError(error);
     }
 };
 
 
 export const performSmartRetouch = async (
     personImage: ImageFile,
-    options: RetouchOptions
+    options: RetouchOptions,
+    callOptions?: AICallOptions
 ): Promise<{ base64: string; mimeType: string } | null> => {
     const model = 'gemini-2.5-flash-image';
-    const imagePart = { inlineData: { data: personImage.base64, mimeType: personImage.mimeType } };
-    
-    let promptText = `Act as a senior portrait retoucher and colorist. Your task is to perform a high-end, face-priority portrait retouch on the provided image. The goal is a natural, cinematic, and professional result, preserving the subject's identity and character. Adhere to the following professional studio standards:
-
---- PRIMARY DIRECTIVE: FACE QUALITY & NATURALISM ---
-- **Face Priority is Always On:** The quality of the facial retouch is the highest priority. Ignore outfit or background corrections if they compromise facial realism.
-- **Preserve Skin Texture:** This is non-negotiable. You must preserve natural skin texture, including pores and fine lines that define character. The final result must NOT look waxy, plastic, or overly smoothed. Your process should emulate frequency separation, correcting color and tone without destroying micro-texture.
-- **Identity Preservation:** You must perfectly preserve the person's core facial features, structure, likeness, and identity.
-
---- STUDIO RETOUCHING PIPELINE ---
-1.  **Cleanup (Blemishes & Distractions):**
-    - ${options.removeBlemishes ? "Subtly remove temporary blemishes, pimples, redness, and minor scars. Gently reduce under-eye discoloration, but do not completely remove it to maintain realism." : ""}
-    - Clean up distracting stray hairs/flyaways around the head without altering the hairstyle.
-2.  **Tonal & Dimensional Enhancement (Dodge & Burn):**
-    - Apply subtle, localized dodging and burning to enhance facial contours.
-    - Gently lift midtones on the forehead, cheekbones, and the bridge of the nose to add dimension.
-    - Delicately burn to add definition to the jawline and cheekbones. Avoid harsh, obvious contouring.
-    - Control specular highlights to prevent hotspots, keeping them elegant and photographic.
-3.  **Color & Tone Harmonization:**
-    - Correct any white balance issues and neutralize unnatural color casts from the environment.
-    - ${options.correctSkinTones ? "Even out skin tone variations for a healthy, unified complexion. Ensure skin tones look realistic and vibrant." : ""}
-4.  **Detail & Clarity Enhancement:**
-    - ${options.sharpen ? "Apply micro-contrast enhancement to eyes, eyebrows, and lips to make them pop subtly. Sharpen eyelashes and hair details without creating halos or artifacts." : ""}
-5.  **Eyes & Teeth:**
-    - Gently brighten the sclera (whites of the eyes) to remove slight redness.
-    - Add a touch of clarity and light to the irises.
-    - Subtly reduce yellowness in teeth if present. Do NOT over-whiten.
-6.  **Background & Artistic Effects:**
-    - **Background Blur (Bokeh):** Apply a background blur with an intensity of ${options.backgroundBlur}%. A value of 0 means no blur. Higher values create a stronger depth-of-field effect, drawing focus to the subject.
-    - **HDR Effect:** Apply a subtle HDR effect with an intensity of ${options.hdrEffect}%. This should enhance detail in both shadows and highlights without looking unnatural.
-    - **Vintage Fade:** Apply a vintage film color fade effect with an intensity of ${options.vintageFade}%. This should gently reduce contrast in the blacks and add a slight warm color cast.
-    - ${options.glossySkin ? "**Glossy Skin:** Add a tasteful, high-fashion glossy sheen to skin highlights (e.g., cheekbones, bridge of the nose). This should look like a professional makeup effect, not oily skin." : ""}
-
---- ADVANCED USER CONTROLS ---
-- **Smoothness Intensity:** ${options.smoothness}%. This controls the blending of skin tones. A higher value means smoother transitions, but be extremely careful not to lose pore texture.
-- **Light Balance:** ${options.lightBalance}%. This adjusts the overall exposure and tonal balance. Harmonize the light to be cinematic and flattering.
-
---- FINAL OUTPUT ---
-- The result must be a single, retouched image. Do not add text or watermarks.
-- Uphold the highest standards of professional portrait retouching, avoiding all common artifacts like plastic skin, over-sharpening, crushed blacks, or clipped highlights.`;
-
-    const prompt = { text: promptText };
+    const parts = toContentParts(compileSmartRetouchRequest(personImage, options), callOptions);
 
     try {
-        const response = await genAI.models.generateContent({
+        const response = await getClient().models.generateContent({
             model,
-            contents: { parts: [imagePart, prompt] },
+            contents: { parts },
             config: {
                 responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: callOptions?.signal,
             },
         });
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                return {
-                    base64: part.inlineData.data,
-                    mimeType: part.inlineData.mimeType,
-                };
-            }
-        }
-        return null;
+        reportUsage(response, model, callOptions);
+        return extractImage(response);
     } catch (error) {
         console.error("Error performing smart retouch:", error);
-        throw new Error("The AI failed to retouch the image.");
+        throw toAIError(error);
     }
 };
 
 export const generateEnvironment = async (
     personImage: ImageFile,
     environmentPreset: string,
-    options: RetouchOptions
+    options: RetouchOptions,
+    callOptions?: AICallOptions
 ): Promise<{ base64: string; mimeType: string } | null> => {
     const model = 'gemini-2.5-flash-image';
-    const personPart = { inlineData: { data: personImage.base64, mimeType: personImage.mimeType } };
-
-    let promptText = `Act as a senior portrait retoucher and colorist. Your task is a two-part, high-end compositing job.
-    
---- PERSONA & OVERARCHING RULE ---
-Preserve natural skin texture and pores, apply subtle Dodge & Burn for sculpting, correct blemishes tastefully, protect skin tones during grading, and always balance lighting to match the selected environment.
-
---- PART 1: HIGH-END FACE RETOUCH (TOP PRIORITY) ---
-Before compositing, you MUST apply a professional studio-grade retouch to the person's face.
-- **Face Priority is Always On:** The quality of the facial retouch is paramount.
-- **Naturalism:** Preserve skin texture (pores) and the subject's identity perfectly. Emulate frequency separation. The result must not look plastic.
-- **Cleanup:** ${options.removeBlemishes ? "Remove temporary blemishes, reduce under-eye discoloration." : ""}
-- **Dodge & Burn:** Apply subtle D&B for sculpting and dimension.
-- **Detail:** ${options.sharpen ? "Enhance micro-contrast in eyes/brows/lips." : ""}
-- **Color:** ${options.correctSkinTones ? "Correct skin tones for a unified, healthy look." : ""}
-
---- PART 2: ENVIRONMENT HARMONIZATION & COMPOSITING ---
-After the face retouch is complete, place the subject into the environment described below. The integration must be FLAWLESS and photorealistic.
-
-- **Environment Goal:** `;
-
-    if (environmentPreset === 'Auto-Match') {
-        promptText += `Analyze the retouched person's clothing, expression, and mood to generate the most fitting, trendy, and photorealistic environment for them. The result should look like a genuine, high-end photograph taken on location.`;
-    } else {
-        promptText += `Generate a photorealistic "${environmentPreset}" environment.`;
-    }
-
-    if (options.environmentHarmony) {
-        promptText += `
-        
-- **Harmonization Pipeline (Enabled):** You must perfectly harmonize the subject with the new scene.
-  - **Light Direction:** The key light direction for the subject MUST be from the **${options.lightDirection}**. If 'Auto', detect the main light source in the generated environment and match it perfectly.
-  - **Intensity & Ratio:** The key/fill ratio should be approximately ${options.keyFillRatio / 100}. A lower value means higher contrast. Ensure the subject's lighting intensity matches the scene to avoid a 'pasted on' look.
-  - **Color Temperature & Grading:** The subject's white balance and color grade must align with the environment. Use the **'${options.wbAndGrade}'** preset as your guide. If 'Auto', select the most appropriate grade. For example, use a warm grade for interiors, a cool grade for neon scenes, or a cinematic teal-orange look where appropriate. Protect skin tones from unnatural color casts.
-  - **Shadows & Grounding:** Generate a soft, grounded contact shadow consistent with the primary light source. The shadow softness should be around ${options.shadowSoftness}%. Add subtle ambient occlusion to avoid halos.
-  - **Depth & Atmosphere:** When relevant to the preset (e.g., haze in Neon Alley, bokeh in outdoor shots), add gentle atmospheric depth to seat the subject realistically into the scene.
-  `;
-    } else {
-        promptText += `\n- **Harmonization Pipeline (Disabled):** Perform a standard composite without advanced light matching. Attempt a basic integration.`;
-    }
-
-    promptText += `
-- **Final Artistic Grade & Effects:** After compositing and harmonization, apply these final artistic adjustments to the entire image for a cohesive look:
-  - **HDR Effect:** Apply a subtle HDR effect with an intensity of ${options.hdrEffect}%.
-  - **Vintage Fade:** Apply a vintage film color fade with an intensity of ${options.vintageFade}%.
-  - **Background Blur (Bokeh):** The environment you generate should naturally have a depth of field, but you can enhance this with an additional blur intensity of ${options.backgroundBlur}%. This will further separate the subject.
-  - ${options.glossySkin ? "**Glossy Skin:** Ensure the high-fashion glossy sheen on the subject's skin highlights is preserved and looks natural within the new lighting." : ""}
-    `;
-    
-    if (options.artistCommand) {
-        promptText += `
-- **Artist Command (Final Adjustment):** After all other steps, apply this subtle adjustment: "${options.artistCommand}". This command should refine, not override, the core instructions. Do not let it break skin realism.`;
-    }
-
-    promptText += `
-
---- FINAL OUTPUT ---
-- The final composite must be indistinguishable from a real photograph. Avoid all artifacts (halos, perspective mismatch, etc.).
-- The output must be ONLY the final generated image. Do not add text or watermarks.`;
-    
-    const textPart = { text: promptText };
+    const parts = toContentParts(compileEnvironmentRequest(personImage, environmentPreset, options), callOptions);
 
     try {
-        const response = await genAI.models.generateContent({
+        const response = await getClient().models.generateContent({
             model,
-            contents: { parts: [personPart, textPart] },
+            contents: { parts },
             config: {
                 responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: callOptions?.signal,
             },
         });
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                return {
-                    base64: part.inlineData.data,
-                    mimeType: part.inlineData.mimeType,
-                };
-            }
-        }
-        return null;
+        reportUsage(response, model, callOptions);
+        return extractImage(response);
     } catch (error) {
         console.error("Error generating environment:", error);
-        throw new Error("The AI failed to generate the environment.");
+        throw toAIError(error);
     }
 };
 
@@ -628,6 +461,7 @@ After the face retouch is complete, place the subject into the environment descr
 export const upscaleImage = async (
     baseImage: { base64: string, mimeType: string },
     target: UpscaleTarget,
+    callOptions?: AICallOptions,
 ): Promise<{ base64: string; mimeType: string } | null> => {
     const model = 'gemini-2.5-flash-image';
 
@@ -638,43 +472,127 @@ export const upscaleImage = async (
         },
     };
     
-    const targetResolutionText = target === 'hd'
-        ? 'a high-definition resolution, approximately 2K (2048px on its longest side)'
-        // NOTE: Request specifies "Upscale HD", 4K logic is kept for potential future use
-        : 'an ultra-high-definition 4K resolution (4096px on its longest side)';
-    
-    const textPart = { text: `Please upscale this image to ${targetResolutionText}. 
-    **Crucial instruction:** Preserve all original details, textures, sharpness, and lighting perfectly. Do not add, remove, or alter any elements or the style of the image. Avoid over-sharpening or creating edge halos. The goal is a clean, high-fidelity upscale for professional use. The output must be only the upscaled image.` };
+    const textPart = { text: buildUpscalePrompt(target) };
 
     try {
-        const response = await genAI.models.generateContent({
+        const response = await getClient().models.generateContent({
             model,
             contents: { parts: [imagePart, textPart] },
             config: {
                 responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: callOptions?.signal,
             },
         });
-        
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                return {
-                    base64: part.inlineData.data,
-                    mimeType: part.inlineData.mimeType,
-                };
-            }
-        }
-        
-        console.error("No image found in upscale response.");
-        return null;
+        reportUsage(response, model, callOptions);
+        return extractImage(response);
 
     } catch (error) {
         console.error("Error upscaling image:", error);
-        throw new Error("The AI failed to upscale the image. This could be due to a safety policy violation or an internal error.");
+        throw toAIError(error);
+    }
+};
+
+export const outpaintImage = async (
+    baseImage: GeneratedImage,
+    aspectRatio: string,
+    size: { width: number; height: number },
+    callOptions?: AICallOptions,
+): Promise<GeneratedImage | null> => {
+    const model = 'gemini-2.5-flash-image';
+    // The model sees the margins it has to fill as flat gray around the untouched original.
+    const padded = await padImage(baseImage, size.width, size.height, '#808080');
+
+    try {
+        const response = await getClient().models.generateContent({
+            model,
+            contents: { parts: [{ inlineData: { data: padded.base64, mimeType: padded.mimeType } }, { text: callOptions?.promptOverride ?? buildOutpaintPrompt(aspectRatio) }] },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: callOptions?.signal,
+            },
+        });
+        reportUsage(response, model, callOptions);
+        return extractImage(response);
+    } catch (error) {
+        console.error("Error outpainting image:", error);
+        throw toAIError(error);
+    }
+};
+
+export const inpaintImage = async (
+    baseImage: GeneratedImage,
+    mask: GeneratedImage,
+    instruction: string,
+    callOptions?: AICallOptions,
+): Promise<GeneratedImage | null> => {
+    const model = 'gemini-2.5-flash-image';
+    const parts = [
+        { inlineData: { data: baseImage.base64, mimeType: baseImage.mimeType } },
+        { inlineData: { data: mask.base64, mimeType: mask.mimeType } },
+        { text: callOptions?.promptOverride ?? buildInpaintPrompt(instruction) },
+    ];
+
+    try {
+        const response = await getClient().models.generateContent({
+            model,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: callOptions?.signal,
+            },
+        });
+        reportUsage(response, model, callOptions);
+        return extractImage(response);
+    } catch (error) {
+        console.error("Error inpainting image:", error);
+        throw toAIError(error);
+    }
+};
+
+// Earlier turns beyond this are dropped; the session then starts from the image of the last dropped turn.
+const REFINEMENT_CONTEXT_TURNS = 4;
+
+export const refineImage = async (
+    original: GeneratedImage,
+    turns: RefinementTurn[],
+    instruction: string,
+    callOptions?: AICallOptions,
+): Promise<GeneratedImage | null> => {
+    const model = 'gemini-2.5-flash-image';
+    const kept = turns.slice(-REFINEMENT_CONTEXT_TURNS);
+    const start = kept.length < turns.length ? turns[turns.length - kept.length - 1].image : original;
+    const instructions = [...kept.map(turn => turn.instruction), instruction];
+    const contents = instructions.flatMap((text, index) => {
+        const userParts = [
+            ...(index === 0 ? [{ inlineData: { data: start.base64, mimeType: start.mimeType } }] : []),
+            { text: index === instructions.length - 1 && callOptions?.promptOverride ? callOptions.promptOverride : buildRefinePrompt(text, index === 0) },
+        ];
+        const reply = kept[index];
+        return reply
+            ? [{ role: 'user', parts: userParts }, { role: 'model', parts: [{ inlineData: { data: reply.image.base64, mimeType: reply.image.mimeType } }] }]
+            : [{ role: 'user', parts: userParts }];
+    });
+
+    try {
+        const response = await getClient().models.generateContent({
+            model,
+            contents,
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                abortSignal: callOptions?.signal,
+            },
+        });
+        reportUsage(response, model, callOptions);
+        return extractImage(response);
+    } catch (error) {
+        console.error("Error refining image:", error);
+        throw toAIError(error);
     }
 };
 
 export const vectorizeImage = async (
-    rasterImage: { base64: string; mimeType: string }
+    rasterImage: { base64: string; mimeType: string },
+    callOptions?: AICallOptions
 ): Promise<string | null> => {
     const model = 'gemini-2.5-flash';
     const imagePart = { inlineData: { data: rasterImage.base64, mimeType: rasterImage.mimeType } };
@@ -688,21 +606,41 @@ export const vectorizeImage = async (
     - The output must be ONLY the raw SVG code, starting with '<svg ...>' and ending with '</svg>'. Do not wrap it in markdown, comments, or any other text.`;
 
     try {
-        const response = await genAI.models.generateContent({
+        const response = await getClient().models.generateContent({
             model,
-            contents: { parts: [imagePart, { text: promptText }] }
+            contents: { parts: [imagePart, { text: promptText }] },
+            config: { abortSignal: callOptions?.signal },
         });
+        reportUsage(response, model, callOptions);
 
         // Basic validation to ensure we got something that looks like SVG
-        const svgText = response.text.trim();
+        assertNotBlocked(response);
+        const svgText = (response.text ?? '').trim();
         if (svgText.startsWith('<svg') && svgText.endsWith('</svg>')) {
             return svgText;
         } else {
             console.error("AI response did not look like valid SVG:", svgText);
-            throw new Error("The AI failed to generate valid SVG code.");
+            throw new AIError('invalid-json', "The AI failed to generate valid SVG code.", { finishReason: response.candidates?.[0]?.finishReason });
         }
     } catch (error) {
         console.error("Error vectorizing image:", error);
-        throw new Error("The AI failed to convert the image to vector format.");
+        throw toAIError(error);
     }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+    analyzeForCompositeSuggestions,
+    generateImage,
+    generateDesignKitPrompt,
+    generateIllustrationPrompts,
+    generateIllustration,
+    generateRetouchPrompts,
+    performSmartRetouch,
+    generateEnvironment,
+    upscaleImage,
+    outpaintImage,
+    inpaintImage,
+    refineImage,
+    vectorizeImage,
+};
@@ -0,0 +1,160 @@
+// Canvas helpers shared by the post-processing steps. Everything works on base64 images and returns PNGs.
+
+import { ImageFile } from '../types';
+import { base64ToBytes } from './zip';
+
+export type RasterImage = { base64: string; mimeType: string };
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const readImageFile = (file: File): Promise<ImageFile> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ file, base64: (reader.result as string).split(',')[1], mimeType: file.type });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+/** Wraps a generated image as an upload, for calls that take an input image. */
+export const toImageFile = (image: RasterImage, name: string): ImageFile => {
+    const file = new File([base64ToBytes(image.base64) as BlobPart], name, { type: image.mimeType });
+    return { file, base64: image.base64, mimeType: image.mimeType };
+};
+
+export const loadImage = (image: RasterImage): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode the image.'));
+    img.src = `data:${image.mimeType};base64,${image.base64}`;
+});
+
+export const measureImage = async (image: RasterImage): Promise<{ width: number; height: number }> => {
+    const img = await loadImage(image);
+    return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+export const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+const toImage = (canvas: HTMLCanvasElement): RasterImage => ({
+    base64: canvas.toDataURL('image/png').split(',')[1],
+    mimeType: 'image/png',
+});
+
+/** Centres the image on a larger canvas. A null fill leaves the margins transparent. */
+export const padImage = async (image: RasterImage, width: number, height: number, fill: string | null): Promise<RasterImage> => {
+    const img = await loadImage(image);
+    const { canvas, ctx } = createCanvas(width, height);
+    if (fill) {
+        ctx.fillStyle = fill;
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(img, Math.round((width - img.naturalWidth) / 2), Math.round((height - img.naturalHeight) / 2));
+    return toImage(canvas);
+};
+
+/** Cuts `rect` out of the image and scales it to exactly `width` × `height`. */
+export const cropImage = async (image: RasterImage, rect: Rect, width = rect.width, height = rect.height): Promise<RasterImage> => {
+    const img = await loadImage(image);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height, 0, 0, width, height);
+    return toImage(canvas);
+};
+
+/** Scales the image to cover `width` × `height` and trims the overflow evenly. */
+export const resizeToCover = async (image: RasterImage, width: number, height: number): Promise<RasterImage> => {
+    const { width: sourceWidth, height: sourceHeight } = await measureImage(image);
+    const scale = Math.max(width / sourceWidth, height / sourceHeight);
+    const cropWidth = width / scale;
+    const cropHeight = height / scale;
+    return cropImage(image, { x: (sourceWidth - cropWidth) / 2, y: (sourceHeight - cropHeight) / 2, width: cropWidth, height: cropHeight }, width, height);
+};
+
+/** The image's pixels, scaled down so its longer side is at most `maxSize`. */
+export const readPixels = async (image: RasterImage, maxSize = Infinity): Promise<ImageData> => {
+    const img = await loadImage(image);
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Takes `edited` only where `mask` is white, blending proportionally on grey edge pixels; everywhere the mask
+ * is black the base is left untouched. The edited image and mask are scaled to the base size.
+ */
+export const compositeWithMask = async (base: RasterImage, edited: RasterImage, mask: RasterImage): Promise<RasterImage> => {
+    const [baseImg, editedImg, maskImg] = await Promise.all([loadImage(base), loadImage(edited), loadImage(mask)]);
+    const width = baseImg.naturalWidth;
+    const height = baseImg.naturalHeight;
+
+    // The mask's brightness becomes the alpha of a white layer, which then cuts the edited image out.
+    const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(width, height);
+    maskCtx.drawImage(maskImg, 0, 0, width, height);
+    const maskPixels = maskCtx.getImageData(0, 0, width, height);
+    const maskData = maskPixels.data;
+    for (let i = 0; i < maskData.length; i += 4) {
+        maskData[i + 3] = maskData[i];
+        maskData[i] = maskData[i + 1] = maskData[i + 2] = 255;
+    }
+    maskCtx.putImageData(maskPixels, 0, 0);
+
+    const { canvas: layerCanvas, ctx: layerCtx } = createCanvas(width, height);
+    layerCtx.drawImage(editedImg, 0, 0, width, height);
+    layerCtx.globalCompositeOperation = 'destination-in';
+    layerCtx.drawImage(maskCanvas, 0, 0);
+
+    // The base pixels are only ever drawn, never read back, so unmasked areas keep their exact values.
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(baseImg, 0, 0);
+    ctx.drawImage(layerCanvas, 0, 0);
+    return toImage(canvas);
+};
+
+// Work on a small copy: the estimate only needs to be roughly right.
+const ANALYSIS_SIZE = 96;
+
+/**
+ * Estimates where the product sits: the backdrop colour is taken from the border pixels, and every
+ * pixel is weighted by how far its colour is from it. Returns the weighted centre as fractions of
+ * the width and height; a uniform image yields the middle.
+ */
+export const findSubjectCenter = async (image: RasterImage): Promise<{ x: number; y: number }> => {
+    const { data, width, height } = await readPixels(image, ANALYSIS_SIZE);
+
+    const border = [0, 0, 0];
+    let borderCount = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (x !== 0 && y !== 0 && x !== width - 1 && y !== height - 1) continue;
+            const i = (y * width + x) * 4;
+            border[0] += data[i]; border[1] += data[i + 1]; border[2] += data[i + 2];
+            borderCount++;
+        }
+    }
+    const [br, bg, bb] = border.map(sum => sum / borderCount);
+
+    let total = 0, cx = 0, cy = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const weight = Math.hypot(data[i] - br, data[i + 1] - bg, data[i + 2] - bb) * (data[i + 3] / 255);
+            total += weight;
+            cx += x * weight;
+            cy += y * weight;
+        }
+    }
+    if (total === 0) return { x: 0.5, y: 0.5 };
+    return { x: (cx / total + 0.5) / width, y: (cy / total + 0.5) / height };
+};
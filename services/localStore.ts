@@ -0,0 +1,52 @@
+/** A value persisted in localStorage and kept in memory, replaced on every change so React can subscribe to it. */
+export interface LocalStore<T> {
+    get: () => T;
+    subscribe: (listener: () => void) => () => void;
+    /** Writes to localStorage before the in-memory copy changes: when storage is full this throws and leaves the value as it was. */
+    set: (next: T) => void;
+}
+
+/**
+ * Loads the value stored under `key` through `read`, which receives the parsed JSON and returns a valid value.
+ * A missing or unreadable entry yields `fallback`; `label` names the data in the warning.
+ */
+export const createLocalStore = <T>(key: string, read: (stored: unknown) => T, fallback: T, label: string): LocalStore<T> => {
+    const load = (): T => {
+        try {
+            const stored = localStorage.getItem(key);
+            return stored === null ? fallback : read(JSON.parse(stored));
+        } catch (error) {
+            console.warn(`Ignoring unreadable ${label}:`, error);
+            return fallback;
+        }
+    };
+
+    let value = load();
+    const listeners = new Set<() => void>();
+
+    return {
+        get: () => value,
+        subscribe: listener => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        set: next => {
+            localStorage.setItem(key, JSON.stringify(next));
+            value = next;
+            listeners.forEach(listener => listener());
+        },
+    };
+};
+
+/** Reads a stored list entry by entry, dropping (with a warning) the entries `readEntry` rejects by throwing. */
+export const readStoredList = <T>(stored: unknown, readEntry: (raw: unknown) => T, label: string): T[] => {
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap(raw => {
+        try {
+            return [readEntry(raw)];
+        } catch (error) {
+            console.warn(`Ignoring an invalid stored ${label}:`, error);
+            return [];
+        }
+    });
+};
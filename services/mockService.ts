@@ -0,0 +1,346 @@
+import { GenerationParams, ImageFile, UpscaleTarget, PromptSuggestion, RetouchOptions, IllustrationStylePreset, RefinementTurn, ReferenceImage } from '../types';
+import { CAMERA_PRESETS, LIGHTING_PRESETS, MOCKUP_PRESETS, MANIPULATION_PRESETS, RETOUCH_PRESETS } from '../constants';
+import { AIProvider, AICallOptions, AnalysisResult, GeneratedImage } from './aiProvider';
+import { CancelledError } from './aiErrors';
+
+// The mock backend never touches the network. Every answer is derived from a hash of the
+// inputs, so the same images and settings always produce the same output.
+const MOCK_LATENCY_MS = 900;
+
+const hashString = (value: string): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+};
+
+// Sampling keeps hashing cheap for multi-megabyte base64 payloads while still telling images apart.
+const fingerprint = (base64: string): string => {
+    const step = Math.max(1, Math.floor(base64.length / 256));
+    let sample = `${base64.length}:`;
+    for (let i = 0; i < base64.length; i += step) sample += base64[i];
+    return sample;
+};
+
+const createRandom = (seed: number) => {
+    let state = seed || 1;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const pick = <T,>(items: readonly T[], count: number, random: () => number): T[] => {
+    const pool = [...items];
+    const picked: T[] = [];
+    while (picked.length < count && pool.length > 0) {
+        picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+    }
+    return picked;
+};
+
+const delay = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const handleAbort = () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+    }, MOCK_LATENCY_MS);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+// Token counts mirror what the live API typically reports, so the usage meter can be exercised offline. Mock calls cost nothing.
+const reportUsage = (callOptions: AICallOptions | undefined, inputImages: number, outputImages: number) => {
+    callOptions?.onUsage?.({ model: 'mock', inputTokens: 400 + inputImages * 258, outputTokens: outputImages * 1290, images: outputImages });
+};
+
+const loadImage = (image: { base64: string; mimeType: string }): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Mock provider could not decode the input image."));
+    img.src = `data:${image.mimeType};base64,${image.base64}`;
+});
+
+const canvasToImage = (canvas: HTMLCanvasElement): GeneratedImage => ({
+    base64: canvas.toDataURL('image/png').split(',')[1],
+    mimeType: 'image/png',
+});
+
+// Deliberately not exact for every ratio, so the client-side aspect ratio enforcement gets exercised offline.
+const ASPECT_SIZES: Record<string, [number, number]> = {
+    '1:1': [1024, 1024],
+    '4:5': [1024, 1280],
+    '9:16': [720, 1280],
+    '16:9': [1280, 720],
+    '3:2': [1248, 832],
+    '2:3': [832, 1248],
+    '21:9': [1536, 672],
+};
+
+interface MockSceneOptions {
+    width: number;
+    height: number;
+    seed: number;
+    filter?: string;
+    label: string;
+}
+
+/** Draws the subject centred on a seeded gradient backdrop with a soft contact shadow. */
+const drawScene = async (subject: { base64: string; mimeType: string }, { width, height, seed, filter, label }: MockSceneOptions): Promise<GeneratedImage> => {
+    const random = createRandom(seed);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    const hue = Math.floor(random() * 360);
+    const gradient = ctx.createLinearGradient(0, 0, width * random(), height);
+    gradient.addColorStop(0, `hsl(${hue}, 45%, ${20 + random() * 20}%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 40 + random() * 80) % 360}, 55%, ${45 + random() * 25}%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const img = await loadImage(subject);
+    const scale = Math.min((width * 0.6) / img.width, (height * 0.6) / img.height);
+    const w = img.width * scale;
+    const h = img.height * scale;
+    const x = (width - w) / 2;
+    const y = (height - h) / 2;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    ctx.beginPath();
+    ctx.ellipse(width / 2, y + h, w * 0.45, h * 0.06, 0, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.filter = filter || 'none';
+    ctx.drawImage(img, x, y, w, h);
+    ctx.filter = 'none';
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.font = `${Math.round(height * 0.025)}px Inter, sans-serif`;
+    ctx.fillText(`MOCK · ${label}`, width * 0.03, height * 0.96);
+
+    return canvasToImage(canvas);
+};
+
+// Roles and weights go into the seed as well, so retagging the mood board changes the mock output.
+const referencesFingerprint = (references: ReferenceImage[]) =>
+    references.map(({ image, role, weight }) => `${fingerprint(image.base64)}:${role}:${weight}`).join('|');
+
+const presetSuggestions = (presets: { id: string; name: string }[], count: number, random: () => number) =>
+    pick(presets.filter(p => p.id !== 'none'), count, random).map(p => ({ id: p.id, rationale: `Mock pick: ${p.name} suits this product.` }));
+
+export const analyzeForCompositeSuggestions = async (productImage: ImageFile, references: ReferenceImage[], callOptions?: AICallOptions): Promise<AnalysisResult> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 1 + references.length, 0);
+    const random = createRandom(hashString(fingerprint(productImage.base64) + referencesFingerprint(references)));
+    return {
+        camera: presetSuggestions(CAMERA_PRESETS, 1, random),
+        lighting: presetSuggestions(LIGHTING_PRESETS, 2, random),
+        mockup: presetSuggestions(MOCKUP_PRESETS, random() < 0.5 ? 1 : 0, random),
+        manipulation: presetSuggestions(MANIPULATION_PRESETS, 3, random),
+        retouch: presetSuggestions(RETOUCH_PRESETS, 2, random),
+        peopleRetouch: [],
+    };
+};
+
+export const generateImage = async (
+    productImage: ImageFile,
+    references: ReferenceImage[],
+    useMagicComposite: boolean,
+    params: GenerationParams,
+    callOptions?: AICallOptions,
+): Promise<GeneratedImage | null> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 1 + references.length, 1);
+    const [width, height] = ASPECT_SIZES[params.exportSettings.aspectRatio] || ASPECT_SIZES['4:5'];
+    const seed = hashString(fingerprint(productImage.base64) + referencesFingerprint(references) + useMagicComposite + JSON.stringify({
+        camera: params.cameraPresets.map(p => p.id),
+        lighting: params.lightingPresets.map(p => p.id),
+        mockup: params.mockupPreset?.id,
+        manipulation: params.manipulationPresets.map(p => p.id),
+        retouch: params.retouchPresets.map(p => p.id),
+        peopleRetouch: params.peopleRetouchPresets.map(p => p.id),
+        exportSettings: params.exportSettings,
+        customPrompt: params.customPrompt,
+        variation: callOptions?.variation || 0,
+    }));
+    const label = params.mockupPreset?.name || 'Studio';
+    return drawScene(productImage, { width, height, seed, label: callOptions?.variation ? `${label} #${callOptions.variation + 1}` : label });
+};
+
+const CANNED_DESIGN_KIT_PROMPTS: PromptSuggestion[] = [
+    { title: 'Cinematic Drama', prompt: 'The product rests on a slab of wet black basalt, lit by a single hard rim light with drifting haze and deep teal shadows.' },
+    { title: 'Minimalist Serenity', prompt: 'The product stands on a pale travertine plinth in soft morning window light, surrounded by generous negative space.' },
+    { title: 'Neon Futurism', prompt: 'The product floats above a glossy floor reflecting cyan and magenta neon tubes in a dark, rain-soaked studio.' },
+];
+
+const CANNED_ILLUSTRATION_PROMPTS: PromptSuggestion[] = [
+    { title: 'Storybook Charm', prompt: 'A vintage storybook illustration of this scene, with soft watercolors and charming, simple lines.' },
+    { title: 'Cosmic Discovery', prompt: 'A lone astronaut discovering this scene on a forgotten, alien planet, with two moons in the sky.' },
+    { title: 'Technical Breakdown', prompt: 'A detailed technical blueprint of the subject, showing its inner workings with annotations.' },
+];
+
+export const generateDesignKitPrompt = async (productImage: ImageFile, references: ReferenceImage[], callOptions?: AICallOptions): Promise<PromptSuggestion[]> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 1 + references.length, 0);
+    return CANNED_DESIGN_KIT_PROMPTS;
+};
+
+export const generateIllustrationPrompts = async (baseImage: ImageFile, references: ReferenceImage[], callOptions?: AICallOptions): Promise<PromptSuggestion[]> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 1 + references.length, 0);
+    return CANNED_ILLUSTRATION_PROMPTS;
+};
+
+export const generateIllustration = async (
+    baseImage: ImageFile,
+    style: IllustrationStylePreset,
+    detailFidelity: number,
+    customPrompt: string,
+    references: ReferenceImage[],
+    callOptions?: AICallOptions
+): Promise<GeneratedImage | null> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 1 + references.length, 1);
+    const img = await loadImage(baseImage);
+    const seed = hashString(fingerprint(baseImage.base64) + style.id + detailFidelity + customPrompt + referencesFingerprint(references));
+    return drawScene(baseImage, { width: img.width, height: img.height, seed, filter: 'contrast(1.6) saturate(1.8)', label: style.name });
+};
+
+export const generateRetouchPrompts = async (
+    environmentPreset: string,
+    styleVariety: 'normal' | 'wide',
+    syncWithEnvironment: boolean,
+    callOptions?: AICallOptions
+): Promise<string[]> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 0, 0);
+    const scene = syncWithEnvironment ? environmentPreset : 'a softly lit editorial studio';
+    return [
+        `Refined, natural editorial portrait shot at a 45° angle in ${scene}. Lighting: soft key with gentle fill; shadows soft with subtle contact shadow. Focus on face, pores preserved, subtle dodge & burn. — 85mm, f/2, ISO 100, 1/200s, shallow DOF, neutral grade, high-resolution render.`,
+        `Moody, cinematic fashion shot from a low angle in ${scene}. Lighting: hard rim with a faint fill; shadows defined with light halation. Natural skin texture retained. — 50mm, f/1.8, ISO 400, 1/125s, controlled DOF, teal-orange grade, high-resolution render.`,
+        `Bright, airy beauty portrait shot top-down in ${scene}. Lighting: high-key wrap with clean highlights; shadows feather-soft. Subtle dodge & burn, no plastic smoothing. — 100mm, f/4, ISO 100, 1/250s, controlled DOF, ${styleVariety === 'wide' ? 'cross-process' : 'filmic'} grade, high-resolution render.`,
+    ];
+};
+
+export const performSmartRetouch = async (personImage: ImageFile, options: RetouchOptions, callOptions?: AICallOptions): Promise<GeneratedImage | null> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 1, 1);
+    const img = await loadImage(personImage);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.filter = `brightness(${1 + (options.lightBalance - 50) / 250}) contrast(${1 + options.hdrEffect / 200}) sepia(${options.vintageFade / 200})`;
+    ctx.drawImage(img, 0, 0);
+    return canvasToImage(canvas);
+};
+
+export const generateEnvironment = async (personImage: ImageFile, environmentPreset: string, options: RetouchOptions, callOptions?: AICallOptions): Promise<GeneratedImage | null> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 1, 1);
+    const img = await loadImage(personImage);
+    const seed = hashString(fingerprint(personImage.base64) + environmentPreset + JSON.stringify(options));
+    return drawScene(personImage, { width: img.width, height: img.height, seed, label: environmentPreset });
+};
+
+export const upscaleImage = async (baseImage: GeneratedImage, target: UpscaleTarget, callOptions?: AICallOptions): Promise<GeneratedImage | null> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 1, 1);
+    const img = await loadImage(baseImage);
+    const longSide = target === 'hd' ? 2048 : 4096;
+    const scale = longSide / Math.max(img.width, img.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvasToImage(canvas);
+};
+
+// Stands in for outpainting with a blurred, enlarged copy of the image behind the untouched original.
+export const outpaintImage = async (baseImage: GeneratedImage, aspectRatio: string, size: { width: number; height: number }, callOptions?: AICallOptions): Promise<GeneratedImage | null> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 1, 1);
+    const img = await loadImage(baseImage);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d')!;
+    const cover = Math.max(size.width / img.width, size.height / img.height);
+    ctx.filter = 'blur(24px) brightness(0.85)';
+    ctx.drawImage(img, (size.width - img.width * cover) / 2, (size.height - img.height * cover) / 2, img.width * cover, img.height * cover);
+    ctx.filter = 'none';
+    ctx.drawImage(img, Math.round((size.width - img.width) / 2), Math.round((size.height - img.height) / 2));
+    return canvasToImage(canvas);
+};
+
+// Stands in for inpainting by re-tinting the whole picture; the facade then keeps only the masked part.
+export const inpaintImage = async (baseImage: GeneratedImage, mask: GeneratedImage, instruction: string, callOptions?: AICallOptions): Promise<GeneratedImage | null> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 2, 1);
+    const img = await loadImage(baseImage);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.filter = `hue-rotate(${hashString(instruction) % 360}deg) saturate(1.4)`;
+    ctx.drawImage(img, 0, 0);
+    return canvasToImage(canvas);
+};
+
+// Stands in for a refinement turn with a small, instruction-dependent color shift of the newest version.
+export const refineImage = async (original: GeneratedImage, turns: RefinementTurn[], instruction: string, callOptions?: AICallOptions): Promise<GeneratedImage | null> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, turns.length + 1, 1);
+    const img = await loadImage(turns.length ? turns[turns.length - 1].image : original);
+    const seed = hashString(instruction);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.filter = `hue-rotate(${(seed % 41) - 20}deg) brightness(${0.95 + (seed % 11) / 100})`;
+    ctx.drawImage(img, 0, 0);
+    return canvasToImage(canvas);
+};
+
+export const vectorizeImage = async (rasterImage: GeneratedImage, callOptions?: AICallOptions): Promise<string | null> => {
+    await delay(callOptions?.signal);
+    reportUsage(callOptions, 1, 0);
+    const random = createRandom(hashString(fingerprint(rasterImage.base64)));
+    const img = await loadImage(rasterImage);
+    const shapes = Array.from({ length: 12 }, () => {
+        const hue = Math.floor(random() * 360);
+        const cx = Math.round(random() * img.width);
+        const cy = Math.round(random() * img.height);
+        const r = Math.round((0.05 + random() * 0.2) * Math.min(img.width, img.height));
+        return `<path d="M${cx - r} ${cy}a${r} ${r} 0 1 0 ${r * 2} 0a${r} ${r} 0 1 0 ${-r * 2} 0" fill="hsl(${hue}, 60%, 55%)"/>`;
+    });
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${img.width} ${img.height}">${shapes.join('')}</svg>`;
+};
+
+export const mockProvider: AIProvider = {
+    id: 'mock',
+    analyzeForCompositeSuggestions,
+    generateImage,
+    generateDesignKitPrompt,
+    generateIllustrationPrompts,
+    generateIllustration,
+    generateRetouchPrompts,
+    performSmartRetouch,
+    generateEnvironment,
+    upscaleImage,
+    outpaintImage,
+    inpaintImage,
+    refineImage,
+    vectorizeImage,
+};
@@ -0,0 +1,18 @@
+import { ImageFile, ReferenceImage, ReferenceRole } from '../types';
+
+export const MAX_REFERENCES = 6;
+export const DEFAULT_REFERENCE_WEIGHT = 70;
+
+// 'style' is the catch-all a single reference used to have: atmosphere, light and color together.
+export const REFERENCE_ROLES: ReferenceRole[] = ['style', 'lighting', 'palette', 'composition', 'texture'];
+
+export const createReference = (image: ImageFile, role: ReferenceRole = 'style'): ReferenceImage => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    image,
+    role,
+    weight: DEFAULT_REFERENCE_WEIGHT,
+});
+
+/** What the cache key needs: the ids change on every upload, the images and their tags do not. */
+export const referenceCacheArgs = (references: ReferenceImage[]) =>
+    references.map(({ image, role, weight }) => ({ image, role, weight }));
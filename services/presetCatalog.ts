@@ -0,0 +1,154 @@
+import { CustomPresetDefinition, Preset, PresetCategory, PresetSuggestion } from '../types';
+import { CAMERA_PRESETS, LIGHTING_PRESETS, MOCKUP_PRESETS, MANIPULATION_PRESETS, RETOUCH_PRESETS, PEOPLE_RETOUCH_PRESETS, PRESET_ICONS } from '../constants';
+import { AnalysisResult } from './aiProvider';
+import { CUSTOM_PRESET_ID_PREFIX, DEFAULT_PRESET_ICONS, getCustomPresets, readCustomPreset } from './customPresetStore';
+
+/** The built-in presets. Use `getPresets` for everything a user can pick, including their own presets. */
+export const PRESET_CATALOG: Record<PresetCategory, readonly Preset[]> = {
+    camera: CAMERA_PRESETS,
+    lighting: LIGHTING_PRESETS,
+    mockup: MOCKUP_PRESETS,
+    manipulation: MANIPULATION_PRESETS,
+    retouch: RETOUCH_PRESETS,
+    peopleRetouch: PEOPLE_RETOUCH_PRESETS,
+};
+
+export const PRESET_CATEGORIES = Object.keys(PRESET_CATALOG) as PresetCategory[];
+
+/** i18n keys of the Control Panel section titles. */
+export const PRESET_CATEGORY_LABEL_KEYS: Record<PresetCategory, string> = {
+    camera: 'camera',
+    lighting: 'lighting',
+    mockup: 'mockup',
+    manipulation: 'manipulation',
+    retouch: 'productRetouch',
+    peopleRetouch: 'peopleRetouch',
+};
+
+// Every selected scene is a separate generation, so the analysis suggests one at most.
+const MAX_SUGGESTIONS: Partial<Record<PresetCategory, number>> = { mockup: 1 };
+
+const toPreset = (definition: CustomPresetDefinition): Preset & { metadata: string } => ({
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    metadata: definition.metadata,
+    icon: PRESET_ICONS[definition.icon] ?? PRESET_ICONS[DEFAULT_PRESET_ICONS[definition.category]],
+});
+
+// Rebuilt only when the stored custom presets change, so the arrays stay stable between renders.
+let merged: { source: CustomPresetDefinition[]; catalog: Record<PresetCategory, readonly Preset[]> } | null = null;
+
+/** Built-in presets of the category followed by the user's own. */
+export const getPresets = (category: PresetCategory): readonly Preset[] => {
+    const custom = getCustomPresets();
+    if (merged?.source !== custom) {
+        const catalog = {} as Record<PresetCategory, readonly Preset[]>;
+        for (const c of PRESET_CATEGORIES) {
+            catalog[c] = [...PRESET_CATALOG[c], ...custom.filter(p => p.category === c).map(toPreset)];
+        }
+        merged = { source: custom, catalog };
+    }
+    return merged.catalog[category];
+};
+
+export const isCustomPreset = (preset: Preset) => preset.id.startsWith(CUSTOM_PRESET_ID_PREFIX);
+
+export const findPreset = (category: PresetCategory, id: string): Preset | undefined =>
+    getPresets(category).find(p => p.id === id);
+
+export const getSelectablePresetIds = (category: PresetCategory): string[] =>
+    getPresets(category).filter(p => p.id !== 'none').map(p => p.id);
+
+/** `- id: Name — description` lines, so a model can answer with ids that exist. */
+export const describeCatalogForPrompt = (category: PresetCategory): string =>
+    getPresets(category).filter(p => p.id !== 'none').map(p => `  - ${p.id}: ${p.name} — ${p.description}`).join('\n');
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Maps an id the model made up onto the catalog: first by a punctuation- and case-insensitive match
+// against ids and names, then by the closest id within a small edit distance.
+const repairId = (category: PresetCategory, rawId: string): string | null => {
+    const presets = getPresets(category).filter(p => p.id !== 'none');
+    if (presets.some(p => p.id === rawId)) return rawId;
+    const wanted = normalize(rawId);
+    if (!wanted) return null;
+    const byName = presets.find(p => normalize(p.id) === wanted || normalize(p.name) === wanted);
+    if (byName) return byName.id;
+    let best: { id: string; distance: number } | null = null;
+    for (const preset of presets) {
+        const distance = editDistance(wanted, normalize(preset.id));
+        if (!best || distance < best.distance) best = { id: preset.id, distance };
+    }
+    return best && best.distance <= Math.max(2, Math.floor(wanted.length / 4)) ? best.id : null;
+};
+
+/**
+ * Checks every suggested id against the preset catalog. Unknown ids are repaired where a close match
+ * exists and dropped otherwise; duplicates and `none` are removed. Older answers that are bare id
+ * strings are accepted without a rationale.
+ */
+export const validateAnalysis = (raw: Partial<Record<PresetCategory, (PresetSuggestion | string)[]>>): AnalysisResult => {
+    const dropped: string[] = [];
+    const result = {} as AnalysisResult;
+    for (const category of PRESET_CATEGORIES) {
+        const suggestions: PresetSuggestion[] = [];
+        for (const entry of Array.isArray(raw?.[category]) ? raw[category] : []) {
+            const suggestion = typeof entry === 'string' ? { id: entry, rationale: '' } : entry;
+            if (!suggestion || typeof suggestion.id !== 'string' || suggestion.id === 'none') continue;
+            const id = repairId(category, suggestion.id);
+            if (!id) {
+                dropped.push(`${category}:${suggestion.id}`);
+                continue;
+            }
+            if (suggestions.some(s => s.id === id)) continue;
+            suggestions.push({ id, rationale: typeof suggestion.rationale === 'string' ? suggestion.rationale.trim() : '' });
+        }
+        result[category] = suggestions.slice(0, MAX_SUGGESTIONS[category] ?? suggestions.length);
+    }
+    if (dropped.length) console.warn('Dropped preset suggestions with no matching preset:', dropped.join(', '));
+    return result;
+};
+
+// --- Preset packs ---
+
+export const PRESET_PACK_SCHEMA_VERSION = 1;
+
+export interface PresetPack {
+    schemaVersion: number;
+    exportedAt: string;
+    presets: CustomPresetDefinition[];
+}
+
+export const serializePresetPack = (presets: CustomPresetDefinition[]): string =>
+    JSON.stringify({ schemaVersion: PRESET_PACK_SCHEMA_VERSION, exportedAt: new Date().toISOString(), presets } satisfies PresetPack, null, 2);
+
+/**
+ * Parses a shared preset pack. Ids are kept so recipes that use a preset keep working on a teammate's machine;
+ * ids outside the custom range get a fresh one, and unknown icons fall back to the category's. Throws on invalid input.
+ */
+export const parsePresetPack = (json: string): CustomPresetDefinition[] => {
+    const raw = JSON.parse(json) as Partial<PresetPack>;
+    if (!raw || raw.schemaVersion !== PRESET_PACK_SCHEMA_VERSION || !Array.isArray(raw.presets)) {
+        throw new Error(`Not a version ${PRESET_PACK_SCHEMA_VERSION} preset pack.`);
+    }
+    return raw.presets.map(preset => {
+        try {
+            return readCustomPreset(preset);
+        } catch {
+            throw new Error('The pack contains an invalid preset.');
+        }
+    });
+};
@@ -0,0 +1,126 @@
+import { ExportSettings, Preset, PresetCategory } from '../types';
+
+export type PresetSelection = Record<PresetCategory, readonly Preset[]>;
+
+/** Why two presets cannot be combined; each reason has a `presetConflictReason_<reason>` i18n key. */
+export type ConflictReason = 'angle' | 'framing' | 'contrast' | 'colorTemperature' | 'shadowHardness' | 'glare' | 'setting';
+
+export type PresetConflictFix =
+    | { type: 'deselect'; category: PresetCategory; presets: Preset[] }
+    | { type: 'opaqueExport' };
+
+export interface SelectedPreset {
+    category: PresetCategory;
+    preset: Preset;
+}
+
+export type PresetConflict =
+    | { kind: 'incompatible'; reason: ConflictReason; first: SelectedPreset; second: SelectedPreset; fixes: PresetConflictFix[] }
+    | { kind: 'tooMany'; category: PresetCategory; max: number; presets: Preset[]; fixes: PresetConflictFix[] }
+    | { kind: 'transparentScene'; scenes: Preset[]; fixes: PresetConflictFix[] };
+
+interface PresetGroup {
+    category: PresetCategory;
+    ids: string[];
+}
+
+interface IncompatibilityRule {
+    reason: ConflictReason;
+    between: [PresetGroup, PresetGroup];
+}
+
+const TOP_DOWN_CAMERAS = ['lay-flat-top-down', 'swatch-tiles', 'geometric-top'];
+const LOW_KEY_LIGHTING = ['night-01', 'night-02'];
+const OUTDOOR_SCENES = ['beach', 'mountain', 'forest', 'garden', 'billboard', 'outdoor_billboard'];
+
+// Any preset of the first group is incompatible with any preset of the second.
+const INCOMPATIBILITIES: IncompatibilityRule[] = [
+    { reason: 'angle', between: [{ category: 'camera', ids: TOP_DOWN_CAMERAS }, { category: 'camera', ids: ['worms-eye', 'hero-45', 'product-portrait', 'in-hand-pov'] }] },
+    { reason: 'angle', between: [{ category: 'camera', ids: ['worms-eye'] }, { category: 'camera', ids: ['hero-45', 'product-portrait', 'in-hand-pov'] }] },
+    { reason: 'angle', between: [{ category: 'camera', ids: TOP_DOWN_CAMERAS }, { category: 'mockup', ids: ['shelf', 'bookshelf', 'billboard', 'outdoor_billboard'] }] },
+    { reason: 'framing', between: [{ category: 'camera', ids: ['macro-edge-detail'] }, { category: 'camera', ids: ['negative-space', 'exploded-view'] }] },
+    { reason: 'contrast', between: [{ category: 'lighting', ids: LOW_KEY_LIGHTING }, { category: 'lighting', ids: ['day-03', 'night-03'] }] },
+    { reason: 'colorTemperature', between: [{ category: 'lighting', ids: ['day-02', 'day-03'] }, { category: 'lighting', ids: ['night-05'] }] },
+    { reason: 'shadowHardness', between: [{ category: 'lighting', ids: ['day-01', 'day-03'] }, { category: 'lighting', ids: ['night-04', 'night-06', 'night-09'] }] },
+    { reason: 'glare', between: [{ category: 'lighting', ids: ['night-08'] }, { category: 'lighting', ids: ['night-04'] }] },
+    { reason: 'setting', between: [{ category: 'mockup', ids: OUTDOOR_SCENES }, { category: 'lighting', ids: [...LOW_KEY_LIGHTING, 'night-07'] }] },
+];
+
+// Above these counts the prompt asks for several shots at once. Mockups are absent: each scene is generated on its own.
+export const MAX_PRESETS_PER_CATEGORY: Partial<Record<PresetCategory, number>> = {
+    camera: 2,
+    lighting: 2,
+    manipulation: 4,
+    retouch: 5,
+    peopleRetouch: 3,
+};
+
+const selected = (selection: PresetSelection, category: PresetCategory) => selection[category].filter(p => p.id !== 'none');
+
+/**
+ * Checks a Design Kit selection against the declared rules. Every conflict comes with the changes that
+ * would resolve it; the selection order is kept, so "too many" drops the most recently added presets.
+ */
+export const detectPresetConflicts = (selection: PresetSelection, exportSettings: ExportSettings): PresetConflict[] => {
+    const conflicts: PresetConflict[] = [];
+
+    const scenes = selected(selection, 'mockup');
+    if (exportSettings.transparent && scenes.length > 0) {
+        conflicts.push({ kind: 'transparentScene', scenes, fixes: [{ type: 'opaqueExport' }, { type: 'deselect', category: 'mockup', presets: scenes }] });
+    }
+
+    for (const [category, max] of Object.entries(MAX_PRESETS_PER_CATEGORY) as [PresetCategory, number][]) {
+        const presets = selected(selection, category);
+        if (presets.length > max) {
+            conflicts.push({ kind: 'tooMany', category, max, presets, fixes: [{ type: 'deselect', category, presets: presets.slice(max) }] });
+        }
+    }
+
+    for (const { reason, between: [groupA, groupB] } of INCOMPATIBILITIES) {
+        for (const a of selected(selection, groupA.category).filter(p => groupA.ids.includes(p.id))) {
+            for (const b of selected(selection, groupB.category).filter(p => groupB.ids.includes(p.id))) {
+                conflicts.push({
+                    kind: 'incompatible',
+                    reason,
+                    first: { category: groupA.category, preset: a },
+                    second: { category: groupB.category, preset: b },
+                    fixes: [
+                        { type: 'deselect', category: groupA.category, presets: [a] },
+                        { type: 'deselect', category: groupB.category, presets: [b] },
+                    ],
+                });
+            }
+        }
+    }
+    return conflicts;
+};
+
+/**
+ * Drops presets from an automatic selection, such as the Magic Composite suggestions, until no rule is broken.
+ * Presets earlier in a category are kept over later ones, and the export settings are left as the user chose them.
+ */
+export const withoutConflicts = (selection: PresetSelection, exportSettings: ExportSettings): PresetSelection => {
+    let current = selection;
+    for (;;) {
+        const [conflict] = detectPresetConflicts(current, exportSettings);
+        if (!conflict) return current;
+        // The last fix of every conflict deselects presets: the surplus, the scenes, or the second preset of a clashing pair.
+        const fix = conflict.fixes[conflict.fixes.length - 1];
+        if (fix.type !== 'deselect') return current;
+        let dropped = fix.presets;
+        if (conflict.kind === 'incompatible' && conflict.first.category === conflict.second.category) {
+            const order = current[conflict.first.category];
+            dropped = [order.indexOf(conflict.first.preset) > order.indexOf(conflict.second.preset) ? conflict.first.preset : conflict.second.preset];
+        }
+        current = { ...current, [fix.category]: current[fix.category].filter(p => !dropped.includes(p)) };
+    }
+};
+
+/** The categories a conflict touches, for marking their sections. */
+export const conflictCategories = (conflict: PresetConflict): PresetCategory[] => {
+    switch (conflict.kind) {
+        case 'incompatible': return [conflict.first.category, conflict.second.category];
+        case 'tooMany': return [conflict.category];
+        case 'transparentScene': return ['mockup'];
+    }
+};
@@ -0,0 +1,154 @@
+import { GenerationParams, IllustrationStylePreset, ImageFile, Preset, ReferenceImage, ReferenceRole, RetouchOptions, UpscaleTarget } from '../types';
+import { FidelityTier, PromptTemplateId, PromptTemplateValues } from './promptTemplates';
+import { getActiveTemplateBody } from './promptTemplateStore';
+import { getActiveBrandKit } from './brandKitStore';
+import { renderTemplate, TemplateValuesOf } from './templateEngine';
+
+// Provider-agnostic prompt assembly: gathers the typed values for a template and renders its active body.
+export const renderPrompt = <K extends PromptTemplateId, V extends PromptTemplateValues[K] & TemplateValuesOf<V>>(id: K, values: V): string =>
+    renderTemplate(getActiveTemplateBody(id), values);
+
+// Built-in camera and lighting presets always carry a hint; user presets of any category may.
+const technicalHint = (preset: Preset & { metadata?: string }) => preset.metadata?.trim() ? ` Technical hint: ${preset.metadata.trim()}` : '';
+
+const describePresets = (presets: Preset[]) =>
+    presets.filter(p => p.id !== 'none').map(p => `  - ${p.name}: ${p.description}.${technicalHint(p)}`);
+
+const REFERENCE_ASPECTS: Record<ReferenceRole, string> = {
+    style: 'the overall style and mood: atmosphere, lighting, color palette and aesthetic',
+    lighting: 'the lighting: direction, softness, contrast and shadows',
+    palette: 'the color palette and color grading',
+    composition: 'the composition: framing, camera angle, layout and negative space',
+    texture: 'the textures, materials and surface finish',
+};
+
+const influenceFor = (weight: number) => weight >= 70 ? 'strong' : weight >= 40 ? 'moderate' : 'light';
+
+/** One line per reference; `firstImageNumber` is the position of the first reference among the image parts. */
+export const describeReferences = (references: ReferenceImage[], firstImageNumber = 2): string[] =>
+    references.map((reference, index) =>
+        `  - Image ${firstImageNumber + index} governs ${REFERENCE_ASPECTS[reference.role]} (${influenceFor(reference.weight)} influence, weight ${reference.weight}/100).`);
+
+export const buildDesignKitPrompt = (references: ReferenceImage[], useMagicComposite: boolean, params: GenerationParams): string => {
+    const { mockupPreset, exportSettings } = params;
+    const hasMockup = !!mockupPreset && mockupPreset.id !== 'none';
+    return renderPrompt('designKit', {
+        aspectRatio: exportSettings.aspectRatio,
+        hasMockup,
+        mockupName: hasMockup ? mockupPreset.name : '',
+        mockupDescription: hasMockup ? mockupPreset.description : '',
+        hasReference: references.length > 0,
+        referenceGuide: describeReferences(references),
+        magicComposite: useMagicComposite,
+        customPrompt: params.customPrompt,
+        cameraInstructions: describePresets(params.cameraPresets),
+        lightingInstructions: describePresets(params.lightingPresets),
+        productRetouching: describePresets(params.retouchPresets),
+        peopleRetouching: describePresets(params.peopleRetouchPresets),
+        manipulations: describePresets(params.manipulationPresets),
+        transparentBackground: exportSettings.transparent,
+    });
+};
+
+export const getFidelityTier = (detailFidelity: number): FidelityTier =>
+    detailFidelity > 80 ? 'faithful' : detailFidelity > 40 ? 'balanced' : 'loose';
+
+export const buildIllustrationPrompt = (style: IllustrationStylePreset, detailFidelity: number, customPrompt: string, references: ReferenceImage[]): string =>
+    renderPrompt('illustration', {
+        hasReference: references.length > 0,
+        referenceGuide: describeReferences(references),
+        hasStylePreset: style.id !== 'none',
+        styleName: style.name,
+        styleDescription: style.description,
+        detailFidelity,
+        fidelityTier: getFidelityTier(detailFidelity),
+        customPrompt,
+    });
+
+const retouchFlags = (options: RetouchOptions) => ({
+    removeBlemishes: options.removeBlemishes,
+    correctSkinTones: options.correctSkinTones,
+    sharpen: options.sharpen,
+    glossySkin: options.glossySkin,
+    backgroundBlur: options.backgroundBlur,
+    hdrEffect: options.hdrEffect,
+    vintageFade: options.vintageFade,
+});
+
+export const buildSmartRetouchPrompt = (options: RetouchOptions): string =>
+    renderPrompt('smartRetouch', {
+        ...retouchFlags(options),
+        smoothness: options.smoothness,
+        lightBalance: options.lightBalance,
+    });
+
+export const buildEnvironmentPrompt = (environmentPreset: string, options: RetouchOptions): string =>
+    renderPrompt('environment', {
+        ...retouchFlags(options),
+        environmentPreset,
+        environmentHarmony: options.environmentHarmony,
+        lightDirection: options.lightDirection,
+        keyFillRatio: options.keyFillRatio / 100,
+        shadowSoftness: options.shadowSoftness,
+        wbAndGrade: options.wbAndGrade,
+        artistCommand: options.artistCommand,
+    });
+
+export const buildUpscalePrompt = (target: UpscaleTarget): string => renderPrompt('upscale', { target });
+
+export const buildOutpaintPrompt = (aspectRatio: string): string => renderPrompt('outpaint', { aspectRatio });
+
+export const buildInpaintPrompt = (instruction: string): string => renderPrompt('inpaint', { instruction: instruction.trim() });
+
+export const buildRefinePrompt = (instruction: string, isFirstTurn: boolean): string => renderPrompt('refine', { instruction: instruction.trim(), isFirstTurn });
+
+export const buildCampaignReframePrompt = (aspectRatio: string): string => renderPrompt('campaignReframe', { aspectRatio });
+
+export type PromptImageRole = 'product' | 'reference' | 'base' | 'person' | 'logo';
+
+/** Everything a generation call sends: the image parts in order, followed by the instruction text. */
+export interface CompiledRequest {
+    imageParts: { role: PromptImageRole; image: Pick<ImageFile, 'base64' | 'mimeType'> }[];
+    text: string;
+}
+
+// The active brand kit, if any, adds its guidelines after the instructions and its logo as the last image.
+const withBrandKit = (request: CompiledRequest): CompiledRequest => {
+    const kit = getActiveBrandKit();
+    if (!kit) return request;
+    const hasLogo = !!kit.logo && kit.attachLogo;
+    const section = renderPrompt('brand', {
+        brandName: kit.name,
+        colors: kit.colors.map(color => `  - ${color}`),
+        bannedColors: kit.bannedColors.map(color => `  - ${color}`),
+        moodWords: kit.moodWords.join(', '),
+        hasLogo,
+    });
+    return {
+        imageParts: hasLogo ? [...request.imageParts, { role: 'logo', image: kit.logo! }] : request.imageParts,
+        text: `${request.text}\n\n${section}`,
+    };
+};
+
+const referenceParts = (references: ReferenceImage[]): CompiledRequest['imageParts'] =>
+    references.map(reference => ({ role: 'reference', image: reference.image }));
+
+export const compileDesignKitRequest = (productImage: ImageFile, references: ReferenceImage[], useMagicComposite: boolean, params: GenerationParams): CompiledRequest => withBrandKit({
+    imageParts: [{ role: 'product', image: productImage }, ...referenceParts(references)],
+    text: buildDesignKitPrompt(references, useMagicComposite, params),
+});
+
+export const compileIllustrationRequest = (baseImage: ImageFile, style: IllustrationStylePreset, detailFidelity: number, customPrompt: string, references: ReferenceImage[]): CompiledRequest => withBrandKit({
+    imageParts: [{ role: 'base', image: baseImage }, ...referenceParts(references)],
+    text: buildIllustrationPrompt(style, detailFidelity, customPrompt, references),
+});
+
+export const compileSmartRetouchRequest = (personImage: ImageFile, options: RetouchOptions): CompiledRequest => ({
+    imageParts: [{ role: 'person', image: personImage }],
+    text: buildSmartRetouchPrompt(options),
+});
+
+export const compileEnvironmentRequest = (personImage: ImageFile, environmentPreset: string, options: RetouchOptions): CompiledRequest => withBrandKit({
+    imageParts: [{ role: 'person', image: personImage }],
+    text: buildEnvironmentPrompt(environmentPreset, options),
+});
@@ -0,0 +1,79 @@
+import { PROMPT_TEMPLATES, PROMPT_TEMPLATE_IDS, PromptTemplateId } from './promptTemplates';
+import { createLocalStore } from './localStore';
+
+export interface PromptTemplateVersion {
+    body: string;
+    savedAt: string;
+}
+
+interface StoredTemplate {
+    versions: PromptTemplateVersion[];
+    // Index into `versions`, or null while the built-in default is in use.
+    activeVersion: number | null;
+}
+
+type TemplateStore = Partial<Record<PromptTemplateId, StoredTemplate>>;
+
+const MAX_VERSIONS = 20;
+
+const readVersion = (raw: unknown): PromptTemplateVersion => {
+    const version = (raw ?? {}) as Partial<Record<keyof PromptTemplateVersion, unknown>>;
+    if (typeof version.body !== 'string') throw new Error('Not a valid template version.');
+    return { body: version.body, savedAt: typeof version.savedAt === 'string' ? version.savedAt : '' };
+};
+
+const readStoredTemplate = (raw: unknown): StoredTemplate => {
+    const { versions, activeVersion } = (raw ?? {}) as Partial<Record<keyof StoredTemplate, unknown>>;
+    if (!Array.isArray(versions)) throw new Error('The template has no version list.');
+    const read = versions.map(readVersion);
+    const isInRange = typeof activeVersion === 'number' && Number.isInteger(activeVersion) && activeVersion >= 0 && activeVersion < read.length;
+    if (activeVersion != null && !isInRange) throw new Error('The active template version is out of range.');
+    return { versions: read, activeVersion: isInRange ? activeVersion : null };
+};
+
+// A template that does not check out is dropped, so prompts fall back to its built-in default.
+const readTemplateStore = (stored: unknown): TemplateStore => {
+    const entries = (typeof stored === 'object' && stored !== null ? stored : {}) as Record<string, unknown>;
+    const templates: TemplateStore = {};
+    for (const id of PROMPT_TEMPLATE_IDS) {
+        if (entries[id] === undefined) continue;
+        try {
+            templates[id] = readStoredTemplate(entries[id]);
+        } catch (error) {
+            console.warn(`Ignoring the stored "${id}" prompt template:`, error);
+        }
+    }
+    return templates;
+};
+
+const store = createLocalStore<TemplateStore>('ddStudio.promptTemplates', readTemplateStore, {}, 'prompt template overrides');
+
+const update = (id: PromptTemplateId, template: StoredTemplate) => store.set({ ...store.get(), [id]: template });
+
+/** The body prompts are currently rendered from: the active saved version, or the built-in default. */
+export const getActiveTemplateBody = (id: PromptTemplateId): string => {
+    const stored = store.get()[id];
+    const active = stored && stored.activeVersion !== null ? stored.versions[stored.activeVersion] : undefined;
+    return active?.body ?? PROMPT_TEMPLATES[id].body;
+};
+
+export const getTemplateHistory = (id: PromptTemplateId): StoredTemplate => store.get()[id] ?? { versions: [], activeVersion: null };
+
+/** Saves `body` as a new version and makes it active. Oldest versions drop off past MAX_VERSIONS. */
+export const saveTemplateVersion = (id: PromptTemplateId, body: string) => {
+    const versions = [...(store.get()[id]?.versions ?? []), { body, savedAt: new Date().toISOString() }].slice(-MAX_VERSIONS);
+    update(id, { versions, activeVersion: versions.length - 1 });
+};
+
+export const activateTemplateVersion = (id: PromptTemplateId, index: number) => {
+    const stored = store.get()[id];
+    if (!stored?.versions[index]) return;
+    update(id, { ...stored, activeVersion: index });
+};
+
+/** Switches back to the built-in default. Saved versions are kept so they can be restored later. */
+export const resetTemplateToDefault = (id: PromptTemplateId) => {
+    const stored = store.get()[id];
+    if (!stored) return;
+    update(id, { ...stored, activeVersion: null });
+};
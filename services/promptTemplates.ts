@@ -0,0 +1,455 @@
+import { RetouchOptions, UpscaleTarget } from '../types';
+
+export type FidelityTier = 'faithful' | 'balanced' | 'loose';
+
+type RetouchFlags = Pick<RetouchOptions, 'removeBlemishes' | 'correctSkinTones' | 'sharpen' | 'glossySkin' | 'backgroundBlur' | 'hdrEffect' | 'vintageFade'>;
+
+// The values each template is rendered with. Adding a field here forces a matching placeholder entry below.
+export interface PromptTemplateValues {
+    designKit: {
+        aspectRatio: string;
+        hasMockup: boolean;
+        mockupName: string;
+        mockupDescription: string;
+        hasReference: boolean;
+        referenceGuide: string[];
+        magicComposite: boolean;
+        customPrompt: string;
+        cameraInstructions: string[];
+        lightingInstructions: string[];
+        productRetouching: string[];
+        peopleRetouching: string[];
+        manipulations: string[];
+        transparentBackground: boolean;
+    };
+    illustration: {
+        hasReference: boolean;
+        referenceGuide: string[];
+        hasStylePreset: boolean;
+        styleName: string;
+        styleDescription: string;
+        detailFidelity: number;
+        fidelityTier: FidelityTier;
+        customPrompt: string;
+    };
+    smartRetouch: RetouchFlags & Pick<RetouchOptions, 'smoothness' | 'lightBalance'>;
+    environment: RetouchFlags & Pick<RetouchOptions, 'environmentHarmony' | 'lightDirection' | 'shadowSoftness' | 'wbAndGrade' | 'artistCommand'> & {
+        environmentPreset: string;
+        keyFillRatio: number;
+    };
+    upscale: {
+        target: UpscaleTarget;
+    };
+    outpaint: {
+        aspectRatio: string;
+    };
+    campaignReframe: {
+        aspectRatio: string;
+    };
+    inpaint: {
+        instruction: string;
+    };
+    refine: {
+        instruction: string;
+        isFirstTurn: boolean;
+    };
+    brand: {
+        brandName: string;
+        colors: string[];
+        bannedColors: string[];
+        moodWords: string;
+        hasLogo: boolean;
+    };
+}
+
+export type PromptTemplateId = keyof PromptTemplateValues;
+
+type PlaceholderType<V> = V extends boolean ? 'boolean' : V extends number ? 'number' : V extends string[] ? 'list' : 'text';
+
+export interface PlaceholderSpec<V = unknown> {
+    type: PlaceholderType<V>;
+    description: string;
+}
+
+export interface PromptTemplateDefinition<K extends PromptTemplateId = PromptTemplateId> {
+    id: K;
+    name: string;
+    description: string;
+    placeholders: { [P in keyof PromptTemplateValues[K]]: PlaceholderSpec<PromptTemplateValues[K][P]> };
+    body: string;
+}
+
+const RETOUCH_FLAG_PLACEHOLDERS: { [P in keyof RetouchFlags]: PlaceholderSpec<RetouchFlags[P]> } = {
+    removeBlemishes: { type: 'boolean', description: 'Remove blemishes is switched on.' },
+    correctSkinTones: { type: 'boolean', description: 'Correct skin tones is switched on.' },
+    sharpen: { type: 'boolean', description: 'Sharpen details is switched on.' },
+    glossySkin: { type: 'boolean', description: 'Glossy skin is switched on.' },
+    backgroundBlur: { type: 'number', description: 'Background blur intensity, 0-100.' },
+    hdrEffect: { type: 'number', description: 'HDR effect intensity, 0-100.' },
+    vintageFade: { type: 'number', description: 'Vintage fade intensity, 0-100.' },
+};
+
+const DESIGN_KIT_BODY = `You are an expert product photographer and digital artist.
+Your task is to create a dynamic, professional advertisement image. The FIRST image is the primary subject (a product, logo, or graphic). You will place this subject into a newly generated, photorealistic scene.
+
+--- MOST IMPORTANT RULE ---
+The final output image's dimensions MUST strictly follow a {{aspectRatio}} aspect ratio. This is a non-negotiable requirement.
+
+--- PRIMARY SCENE GOAL ---
+{{#hasMockup}}
+Place the subject from the FIRST image within a photorealistic "{{mockupName}}" environment. The subject must be integrated naturally into this scene. For context, a "{{mockupName}}" is: {{mockupDescription}}.
+{{/hasMockup}}
+{{^hasMockup}}
+Place the subject from the FIRST image on a clean, elegant, professional studio backdrop that complements its style and the instructions below.
+{{/hasMockup}}
+
+--- LOGO & GRAPHIC APPLICATION (VERY IMPORTANT) ---
+If the subject in the FIRST image is a logo, sticker, text, or flat graphic, your primary task is NOT just to place it in the scene, but to **apply it realistically onto a surface within the scene**.
+- If a mockup is selected (e.g., 'T-Shirt Model', 'Cafe Table' which implies a cup, 'Supermarket Shelf' which implies packaging), you MUST apply the logo to the relevant object in that mockup scene.
+- The application must be realistic: the logo should wrap around curved surfaces, match the lighting and shadows of the object, and adopt the texture of the surface it's on (e.g., look like it's printed on fabric, etched on glass, etc.).
+- The logo itself should remain clear and preserve its original colors and form.
+
+{{#hasReference}}
+--- MOOD BOARD REFERENCES ---
+The images after the FIRST one are references. Each governs only the aspect listed for it; the higher its weight, the more closely that aspect should follow it:
+{{referenceGuide}}
+**IMPORTANT:** Do NOT composite the subject directly into any reference image.
+Instead, the entire new scene you generate (whether it's the mockup or the studio backdrop) must take each aspect from its reference. The final result must be a completely new and unique image that combines the product, the mockup scene, and the references.
+
+{{/hasReference}}
+--- CREATIVE & TECHNICAL INSTRUCTIONS ---
+- **Composition**: If the subject is a physical product, it is CRITICAL to keep its exact composition, camera angle, and perspective from the original input image. Build the new scene *around* the product as it is. HOWEVER, if the subject is a logo/graphic being applied to a mockup surface, you should instead focus on placing the logo naturally on the mockup's surface, adjusting its perspective and wrapping it as needed for realism. Do not change the logo's core design.
+{{#magicComposite}}
+**Magic Composite Mode is ON**: You have creative freedom to interpret these instructions to create the most stunning image possible.
+{{/magicComposite}}
+{{^magicComposite}}
+**Manual Design Kit Mode is ON**: Strictly adhere to the following instructions.
+{{/magicComposite}}
+{{#customPrompt}}
+
+- **Creative Direction**: "{{customPrompt}}"
+{{/customPrompt}}
+{{#cameraInstructions}}
+- **Camera Instructions**:
+{{cameraInstructions}}
+{{/cameraInstructions}}
+{{#lightingInstructions}}
+- **Lighting Instructions**:
+{{lightingInstructions}}
+{{/lightingInstructions}}
+
+
+--- POST-PRODUCTION & RETOUCHING ---
+{{#productRetouching}}
+- **Product Retouching**:
+{{productRetouching}}
+{{/productRetouching}}
+{{#peopleRetouching}}
+- **People Retouching**:
+{{peopleRetouching}}
+{{/peopleRetouching}}
+{{#manipulations}}
+- **Creative Manipulations & FX**:
+{{manipulations}}
+{{/manipulations}}
+
+--- FINAL EXPORT REQUIREMENTS ---
+{{#transparentBackground}}
+- **Background**: The final image MUST have a transparent background (PNG format). If compositing, this means removing the original background but keeping all generated shadows and reflections for placing on another backdrop.
+{{/transparentBackground}}
+{{^transparentBackground}}
+- **Background**: The final image must have a fully rendered, opaque background.
+{{/transparentBackground}}
+- **Output**: The final output must be ONLY the generated image. Do not add any text, watermarks, or annotations. The product is the hero.`;
+
+const ILLUSTRATION_BODY = `Act as a master illustrator with expertise in a wide range of artistic styles. Your task is to transform the provided base image into a high-quality illustration.
+{{#hasReference}}
+--- STYLE REFERENCES (TOP PRIORITY) ---
+The images after the base image are style references. Each governs only the aspect listed for it; the higher its weight, the more closely that aspect should follow it:
+{{referenceGuide}}
+These references take priority over the style preset or custom prompt if they conflict.
+{{/hasReference}}
+
+--- PRESET STYLE GOAL ---
+{{#hasStylePreset}}
+The illustration must be in the style of **{{styleName}}**. For context, this style is described as: "{{styleDescription}}".
+{{/hasStylePreset}}
+{{^hasStylePreset}}
+The illustration style should be guided primarily by the user's custom prompt. If the prompt is empty and no style reference is given, you have creative freedom to choose a suitable, beautiful illustration style.
+{{/hasStylePreset}}
+
+--- DETAIL & COMPOSITION ---
+**Fidelity Level: {{detailFidelity}}/100.** {{#fidelityTier=faithful}}It is absolutely critical that you create a faithful illustration. The composition, subject, pose, and all key details from the original image MUST be preserved. This is a stylistic transformation, not a re-imagination.{{/fidelityTier}}{{#fidelityTier=balanced}}Preserve the main subject, composition, and key elements from the original image, but feel free to interpret the finer details and background in the chosen artistic style.{{/fidelityTier}}{{#fidelityTier=loose}}Use the original image as a loose inspiration for a new illustration in the chosen style. The core subject should be recognizable, but you have creative freedom with the composition and details.{{/fidelityTier}}
+
+--- ADDITIONAL CREATIVE DIRECTION ---
+{{#customPrompt}}
+The user has provided this specific direction: "{{customPrompt}}". Integrate this into your final artwork.
+{{/customPrompt}}
+{{^customPrompt}}
+No additional creative direction was provided.
+{{/customPrompt}}
+
+--- FINAL OUTPUT REQUIREMENTS ---
+- The final image must strictly adhere to the requested illustration style and reference.
+- Maintain the aspect ratio of the original source image.
+- The output must be ONLY the generated illustration. Do not add any text, watermarks, or annotations.`;
+
+const SMART_RETOUCH_BODY = `Act as a senior portrait retoucher and colorist. Your task is to perform a high-end, face-priority portrait retouch on the provided image. The goal is a natural, cinematic, and professional result, preserving the subject's identity and character. Adhere to the following professional studio standards:
+
+--- PRIMARY DIRECTIVE: FACE QUALITY & NATURALISM ---
+- **Face Priority is Always On:** The quality of the facial retouch is the highest priority. Ignore outfit or background corrections if they compromise facial realism.
+- **Preserve Skin Texture:** This is non-negotiable. You must preserve natural skin texture, including pores and fine lines that define character. The final result must NOT look waxy, plastic, or overly smoothed. Your process should emulate frequency separation, correcting color and tone without destroying micro-texture.
+- **Identity Preservation:** You must perfectly preserve the person's core facial features, structure, likeness, and identity.
+
+--- STUDIO RETOUCHING PIPELINE ---
+1.  **Cleanup (Blemishes & Distractions):**
+{{#removeBlemishes}}
+    - Subtly remove temporary blemishes, pimples, redness, and minor scars. Gently reduce under-eye discoloration, but do not completely remove it to maintain realism.
+{{/removeBlemishes}}
+    - Clean up distracting stray hairs/flyaways around the head without altering the hairstyle.
+2.  **Tonal & Dimensional Enhancement (Dodge & Burn):**
+    - Apply subtle, localized dodging and burning to enhance facial contours.
+    - Gently lift midtones on the forehead, cheekbones, and the bridge of the nose to add dimension.
+    - Delicately burn to add definition to the jawline and cheekbones. Avoid harsh, obvious contouring.
+    - Control specular highlights to prevent hotspots, keeping them elegant and photographic.
+3.  **Color & Tone Harmonization:**
+    - Correct any white balance issues and neutralize unnatural color casts from the environment.
+{{#correctSkinTones}}
+    - Even out skin tone variations for a healthy, unified complexion. Ensure skin tones look realistic and vibrant.
+{{/correctSkinTones}}
+4.  **Detail & Clarity Enhancement:**
+{{#sharpen}}
+    - Apply micro-contrast enhancement to eyes, eyebrows, and lips to make them pop subtly. Sharpen eyelashes and hair details without creating halos or artifacts.
+{{/sharpen}}
+5.  **Eyes & Teeth:**
+    - Gently brighten the sclera (whites of the eyes) to remove slight redness.
+    - Add a touch of clarity and light to the irises.
+    - Subtly reduce yellowness in teeth if present. Do NOT over-whiten.
+6.  **Background & Artistic Effects:**
+    - **Background Blur (Bokeh):** Apply a background blur with an intensity of {{backgroundBlur}}%. A value of 0 means no blur. Higher values create a stronger depth-of-field effect, drawing focus to the subject.
+    - **HDR Effect:** Apply a subtle HDR effect with an intensity of {{hdrEffect}}%. This should enhance detail in both shadows and highlights without looking unnatural.
+    - **Vintage Fade:** Apply a vintage film color fade effect with an intensity of {{vintageFade}}%. This should gently reduce contrast in the blacks and add a slight warm color cast.
+{{#glossySkin}}
+    - **Glossy Skin:** Add a tasteful, high-fashion glossy sheen to skin highlights (e.g., cheekbones, bridge of the nose). This should look like a professional makeup effect, not oily skin.
+{{/glossySkin}}
+
+--- ADVANCED USER CONTROLS ---
+- **Smoothness Intensity:** {{smoothness}}%. This controls the blending of skin tones. A higher value means smoother transitions, but be extremely careful not to lose pore texture.
+- **Light Balance:** {{lightBalance}}%. This adjusts the overall exposure and tonal balance. Harmonize the light to be cinematic and flattering.
+
+--- FINAL OUTPUT ---
+- The result must be a single, retouched image. Do not add text or watermarks.
+- Uphold the highest standards of professional portrait retouching, avoiding all common artifacts like plastic skin, over-sharpening, crushed blacks, or clipped highlights.`;
+
+const ENVIRONMENT_BODY = `Act as a senior portrait retoucher and colorist. Your task is a two-part, high-end compositing job.
+
+--- PERSONA & OVERARCHING RULE ---
+Preserve natural skin texture and pores, apply subtle Dodge & Burn for sculpting, correct blemishes tastefully, protect skin tones during grading, and always balance lighting to match the selected environment.
+
+--- PART 1: HIGH-END FACE RETOUCH (TOP PRIORITY) ---
+Before compositing, you MUST apply a professional studio-grade retouch to the person's face.
+- **Face Priority is Always On:** The quality of the facial retouch is paramount.
+- **Naturalism:** Preserve skin texture (pores) and the subject's identity perfectly. Emulate frequency separation. The result must not look plastic.
+{{#removeBlemishes}}
+- **Cleanup:** Remove temporary blemishes, reduce under-eye discoloration.
+{{/removeBlemishes}}
+- **Dodge & Burn:** Apply subtle D&B for sculpting and dimension.
+{{#sharpen}}
+- **Detail:** Enhance micro-contrast in eyes/brows/lips.
+{{/sharpen}}
+{{#correctSkinTones}}
+- **Color:** Correct skin tones for a unified, healthy look.
+{{/correctSkinTones}}
+
+--- PART 2: ENVIRONMENT HARMONIZATION & COMPOSITING ---
+After the face retouch is complete, place the subject into the environment described below. The integration must be FLAWLESS and photorealistic.
+
+- **Environment Goal:** {{#environmentPreset=Auto-Match}}Analyze the retouched person's clothing, expression, and mood to generate the most fitting, trendy, and photorealistic environment for them. The result should look like a genuine, high-end photograph taken on location.{{/environmentPreset}}{{^environmentPreset=Auto-Match}}Generate a photorealistic "{{environmentPreset}}" environment.{{/environmentPreset}}
+{{#environmentHarmony}}
+
+- **Harmonization Pipeline (Enabled):** You must perfectly harmonize the subject with the new scene.
+  - **Light Direction:** The key light direction for the subject MUST be from the **{{lightDirection}}**. If 'Auto', detect the main light source in the generated environment and match it perfectly.
+  - **Intensity & Ratio:** The key/fill ratio should be approximately {{keyFillRatio}}. A lower value means higher contrast. Ensure the subject's lighting intensity matches the scene to avoid a 'pasted on' look.
+  - **Color Temperature & Grading:** The subject's white balance and color grade must align with the environment. Use the **'{{wbAndGrade}}'** preset as your guide. If 'Auto', select the most appropriate grade. For example, use a warm grade for interiors, a cool grade for neon scenes, or a cinematic teal-orange look where appropriate. Protect skin tones from unnatural color casts.
+  - **Shadows & Grounding:** Generate a soft, grounded contact shadow consistent with the primary light source. The shadow softness should be around {{shadowSoftness}}%. Add subtle ambient occlusion to avoid halos.
+  - **Depth & Atmosphere:** When relevant to the preset (e.g., haze in Neon Alley, bokeh in outdoor shots), add gentle atmospheric depth to seat the subject realistically into the scene.
+{{/environmentHarmony}}
+{{^environmentHarmony}}
+- **Harmonization Pipeline (Disabled):** Perform a standard composite without advanced light matching. Attempt a basic integration.
+{{/environmentHarmony}}
+- **Final Artistic Grade & Effects:** After compositing and harmonization, apply these final artistic adjustments to the entire image for a cohesive look:
+  - **HDR Effect:** Apply a subtle HDR effect with an intensity of {{hdrEffect}}%.
+  - **Vintage Fade:** Apply a vintage film color fade with an intensity of {{vintageFade}}%.
+  - **Background Blur (Bokeh):** The environment you generate should naturally have a depth of field, but you can enhance this with an additional blur intensity of {{backgroundBlur}}%. This will further separate the subject.
+{{#glossySkin}}
+  - **Glossy Skin:** Ensure the high-fashion glossy sheen on the subject's skin highlights is preserved and looks natural within the new lighting.
+{{/glossySkin}}
+{{#artistCommand}}
+- **Artist Command (Final Adjustment):** After all other steps, apply this subtle adjustment: "{{artistCommand}}". This command should refine, not override, the core instructions. Do not let it break skin realism.
+{{/artistCommand}}
+
+--- FINAL OUTPUT ---
+- The final composite must be indistinguishable from a real photograph. Avoid all artifacts (halos, perspective mismatch, etc.).
+- The output must be ONLY the final generated image. Do not add text or watermarks.`;
+
+const UPSCALE_BODY = `Please upscale this image to {{#target=hd}}a high-definition resolution, approximately 2K (2048px on its longest side){{/target}}{{#target=4k}}an ultra-high-definition 4K resolution (4096px on its longest side){{/target}}.
+**Crucial instruction:** Preserve all original details, textures, sharpness, and lighting perfectly. Do not add, remove, or alter any elements or the style of the image. Avoid over-sharpening or creating edge halos. The goal is a clean, high-fidelity upscale for professional use. The output must be only the upscaled image.`;
+
+const OUTPAINT_BODY = `This image is the centre of a wider {{aspectRatio}} frame; the flat gray margins around it are empty canvas.
+Extend the existing scene naturally into the margins so the result fills the whole {{aspectRatio}} frame. Continue the background, surfaces, lighting, shadows and perspective seamlessly.
+**Crucial instruction:** Do not move, resize, redraw or alter the product or anything already in the picture. Do not add text, logos or watermarks. The output must be only the extended image.`;
+
+const CAMPAIGN_REFRAME_BODY = `This is another format of an existing campaign: the SECOND image is the approved hero shot. Recreate the same scene for a {{aspectRatio}} frame, with the same backdrop, props, lighting, colors and product placement, and extend or recompose only what the new frame requires.`;
+
+const INPAINT_BODY = `The FIRST image is a finished picture. The SECOND image is a mask of the same size: white marks the region to change, black marks everything that must stay exactly as it is.
+Inside the white region only: {{instruction}}
+Blend the edit into the surrounding lighting, shadows, perspective and grain so the seam is invisible. Return the whole picture at the same size and framing, leaving everything outside the white region untouched. Do not add text or watermarks.`;
+
+const REFINE_BODY = `{{#isFirstTurn}}This is a finished picture that we will refine step by step. {{/isFirstTurn}}Make this change to the latest version of the picture: {{instruction}}
+Change only what the instruction asks for. Keep the composition, framing, product, lighting and everything else exactly as in the latest version, at the same size. Do not add text or watermarks. The output must be only the revised image.`;
+
+const BRAND_BODY = `--- BRAND GUIDELINES: {{brandName}} ---
+{{#colors}}
+- **Brand Colors**: Build the color palette of the scene (backdrop, props, accents, light tints) around these colors:
+{{colors}}
+{{/colors}}
+{{#bannedColors}}
+- **Banned Colors**: These colors must NOT appear anywhere in the image, including the background, props and lighting:
+{{bannedColors}}
+{{/bannedColors}}
+{{#moodWords}}
+- **Brand Mood**: The image should feel {{moodWords}}.
+{{/moodWords}}
+{{#hasLogo}}
+- **Logo**: The LAST image is the brand logo. Where the scene has a natural place for branding (packaging, signage, apparel), apply it faithfully without changing its shape or colors. Never add it as a floating overlay or watermark.
+{{/hasLogo}}
+- These guidelines refine the instructions above. They never change the appearance of the product or the person.`;
+
+export const PROMPT_TEMPLATES: { [K in PromptTemplateId]: PromptTemplateDefinition<K> } = {
+    designKit: {
+        id: 'designKit',
+        name: 'Design Kit',
+        description: 'Places the product into a new advertising scene.',
+        placeholders: {
+            aspectRatio: { type: 'text', description: 'Requested aspect ratio, e.g. 4:5.' },
+            hasMockup: { type: 'boolean', description: 'A mockup other than "None" is selected.' },
+            mockupName: { type: 'text', description: 'Name of the selected mockup.' },
+            mockupDescription: { type: 'text', description: 'Description of the selected mockup.' },
+            hasReference: { type: 'boolean', description: 'At least one reference image is attached after the product.' },
+            referenceGuide: { type: 'list', description: 'One line per reference: its image number, the aspect it governs and its weight.' },
+            magicComposite: { type: 'boolean', description: 'Magic Composite is switched on.' },
+            customPrompt: { type: 'text', description: 'The creative prompt typed by the user.' },
+            cameraInstructions: { type: 'list', description: 'One line per selected camera preset, with its technical hint.' },
+            lightingInstructions: { type: 'list', description: 'One line per selected lighting preset, with its technical hint.' },
+            productRetouching: { type: 'list', description: 'One line per selected product retouch preset.' },
+            peopleRetouching: { type: 'list', description: 'One line per selected people retouch preset.' },
+            manipulations: { type: 'list', description: 'One line per selected manipulation preset.' },
+            transparentBackground: { type: 'boolean', description: 'Transparent background export is switched on.' },
+        },
+        body: DESIGN_KIT_BODY,
+    },
+    illustration: {
+        id: 'illustration',
+        name: 'Illustration',
+        description: 'Turns the base image into an illustration.',
+        placeholders: {
+            hasReference: { type: 'boolean', description: 'At least one style reference image is attached after the base image.' },
+            referenceGuide: { type: 'list', description: 'One line per reference: its image number, the aspect it governs and its weight.' },
+            hasStylePreset: { type: 'boolean', description: 'A style preset other than "None" is selected.' },
+            styleName: { type: 'text', description: 'Name of the selected style preset.' },
+            styleDescription: { type: 'text', description: 'Description of the selected style preset.' },
+            detailFidelity: { type: 'number', description: 'Detail fidelity slider, 0-100.' },
+            fidelityTier: { type: 'text', description: '"faithful" above 80, "balanced" above 40, otherwise "loose".' },
+            customPrompt: { type: 'text', description: 'The creative prompt typed by the user.' },
+        },
+        body: ILLUSTRATION_BODY,
+    },
+    smartRetouch: {
+        id: 'smartRetouch',
+        name: 'Smart Retouch',
+        description: 'Face-priority portrait retouch.',
+        placeholders: {
+            ...RETOUCH_FLAG_PLACEHOLDERS,
+            smoothness: { type: 'number', description: 'Smoothness slider, 0-100.' },
+            lightBalance: { type: 'number', description: 'Light balance slider, 0-100.' },
+        },
+        body: SMART_RETOUCH_BODY,
+    },
+    environment: {
+        id: 'environment',
+        name: 'Environment',
+        description: 'Retouches the person and composites them into a new environment.',
+        placeholders: {
+            ...RETOUCH_FLAG_PLACEHOLDERS,
+            environmentPreset: { type: 'text', description: 'Selected environment, or "Auto-Match".' },
+            environmentHarmony: { type: 'boolean', description: 'Environment harmonization is switched on.' },
+            lightDirection: { type: 'text', description: 'Key light direction, or "Auto".' },
+            keyFillRatio: { type: 'number', description: 'Key/fill ratio between 0 and 1.' },
+            shadowSoftness: { type: 'number', description: 'Shadow softness slider, 0-100.' },
+            wbAndGrade: { type: 'text', description: 'White balance and grade preset, or "Auto".' },
+            artistCommand: { type: 'text', description: 'Final adjustment typed by the user.' },
+        },
+        body: ENVIRONMENT_BODY,
+    },
+    upscale: {
+        id: 'upscale',
+        name: 'Upscale',
+        description: 'Upscales a result without changing its content.',
+        placeholders: {
+            target: { type: 'text', description: '"hd" or "4k".' },
+        },
+        body: UPSCALE_BODY,
+    },
+    outpaint: {
+        id: 'outpaint',
+        name: 'Outpaint',
+        description: 'Extends a result into padded margins to reach the export aspect ratio.',
+        placeholders: {
+            aspectRatio: { type: 'text', description: 'Export aspect ratio, e.g. 9:16.' },
+        },
+        body: OUTPAINT_BODY,
+    },
+    campaignReframe: {
+        id: 'campaignReframe',
+        name: 'Campaign Reframe',
+        description: 'Added to the creative prompt when a campaign pack format is regenerated from the hero shot.',
+        placeholders: {
+            aspectRatio: { type: 'text', description: 'Aspect ratio of the format, e.g. 9:16.' },
+        },
+        body: CAMPAIGN_REFRAME_BODY,
+    },
+    inpaint: {
+        id: 'inpaint',
+        name: 'Region Edit',
+        description: 'Edits the masked region of a result; everything outside the mask is restored afterwards.',
+        placeholders: {
+            instruction: { type: 'text', description: 'What to change inside the mask.' },
+        },
+        body: INPAINT_BODY,
+    },
+    refine: {
+        id: 'refine',
+        name: 'Refinement Turn',
+        description: 'One message of the refinement chat. Earlier turns and their images are sent along as the conversation.',
+        placeholders: {
+            instruction: { type: 'text', description: 'The change asked for in this turn.' },
+            isFirstTurn: { type: 'boolean', description: 'True for the message that carries the starting picture.' },
+        },
+        body: REFINE_BODY,
+    },
+    brand: {
+        id: 'brand',
+        name: 'Brand Kit',
+        description: 'Appended to Design Kit, Illustration and Environment prompts while a brand kit is active.',
+        placeholders: {
+            brandName: { type: 'text', description: 'Name of the active brand kit.' },
+            colors: { type: 'list', description: 'One line per brand color, as hex.' },
+            bannedColors: { type: 'list', description: 'One line per banned color, as hex.' },
+            moodWords: { type: 'text', description: 'Mood words, comma separated.' },
+            hasLogo: { type: 'boolean', description: 'The logo is attached as the last image.' },
+        },
+        body: BRAND_BODY,
+    },
+};
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
@@ -0,0 +1,188 @@
+import { CameraPreset, DesignKitSettings, ExportSettings, GenerationParams, IllustrationSettings, LightingPreset, Preset, PresetCategory, Recipe, RecipeSettings, RetouchSettings } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, DEFAULT_RETOUCH_OPTIONS, ENVIRONMENT_PRESETS, VARIATION_COUNTS } from '../constants';
+import { parseAspectRatio } from './aspectRatio';
+import { PRESET_CATALOG, PRESET_CATEGORIES, findPreset } from './presetCatalog';
+import { createLocalStore, readStoredList } from './localStore';
+import { base64ToBytes } from './zip';
+
+// --- Presets by id ---
+
+/** The presets behind stored ids, falling back to the category's "none". Ids with no preset are reported in `missing`. */
+export const resolvePresetIds = (category: PresetCategory, ids: string[]): { presets: Preset[]; missing: string[] } => {
+    const missing: string[] = [];
+    const presets = ids.flatMap(id => {
+        const preset = findPreset(category, id);
+        if (!preset) missing.push(id);
+        return preset ? [preset] : [];
+    });
+    return { presets: presets.length ? presets : [PRESET_CATALOG[category][0]], missing };
+};
+
+/** GenerationParams for Design Kit settings, rendering the given mockup scene or else the first selected one. */
+export const toGenerationParams = (settings: DesignKitSettings, mockupId?: string): GenerationParams => {
+    const presets = (category: PresetCategory) => resolvePresetIds(category, settings.presetIds[category]).presets;
+    return {
+        cameraPresets: presets('camera') as CameraPreset[],
+        lightingPresets: presets('lighting') as LightingPreset[],
+        mockupPreset: (mockupId && findPreset('mockup', mockupId)) || presets('mockup')[0],
+        manipulationPresets: presets('manipulation'),
+        peopleRetouchPresets: presets('peopleRetouch'),
+        retouchPresets: presets('retouch'),
+        exportSettings: settings.exportSettings,
+        customPrompt: settings.customPrompt,
+    };
+};
+
+// --- Validation ---
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw => !!value && typeof value === 'object' && !Array.isArray(value);
+const text = (value: unknown, fallback = '') => typeof value === 'string' ? value : fallback;
+const flag = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const readExportSettings = (raw: unknown): ExportSettings => {
+    const settings = isObject(raw) ? raw : {};
+    const aspectRatio = text(settings.aspectRatio);
+    return {
+        aspectRatio: parseAspectRatio(aspectRatio) ? aspectRatio as ExportSettings['aspectRatio'] : DEFAULT_EXPORT_SETTINGS.aspectRatio,
+        fitMode: settings.fitMode === 'crop' || settings.fitMode === 'pad' ? settings.fitMode : DEFAULT_EXPORT_SETTINGS.fitMode,
+        transparent: flag(settings.transparent, DEFAULT_EXPORT_SETTINGS.transparent),
+    };
+};
+
+const readDesignKit = (raw: Raw): DesignKitSettings => {
+    const ids = isObject(raw.presetIds) ? raw.presetIds : {};
+    const presetIds = {} as DesignKitSettings['presetIds'];
+    for (const category of PRESET_CATEGORIES) {
+        presetIds[category] = Array.isArray(ids[category]) ? (ids[category] as unknown[]).filter((id): id is string => typeof id === 'string') : [];
+    }
+    const variationCount = clamp(raw.variationCount, 1, VARIATION_COUNTS[VARIATION_COUNTS.length - 1], 1);
+    return {
+        presetIds,
+        exportSettings: readExportSettings(raw.exportSettings),
+        customPrompt: text(raw.customPrompt),
+        useMagicComposite: flag(raw.useMagicComposite, true),
+        variationCount: Math.round(variationCount),
+    };
+};
+
+const readIllustration = (raw: Raw): IllustrationSettings => ({
+    styleId: text(raw.styleId, 'none'),
+    useStylePreset: flag(raw.useStylePreset, true),
+    detailFidelity: clamp(raw.detailFidelity, 0, 100, 75),
+    customPrompt: text(raw.customPrompt),
+});
+
+// Options are merged over the defaults field by field, so a recipe from an older build gains the newer options.
+const readRetouch = (raw: Raw): RetouchSettings => {
+    const options = isObject(raw.options) ? raw.options : {};
+    const merged = { ...DEFAULT_RETOUCH_OPTIONS };
+    for (const key of Object.keys(DEFAULT_RETOUCH_OPTIONS) as (keyof typeof DEFAULT_RETOUCH_OPTIONS)[]) {
+        if (typeof options[key] === typeof DEFAULT_RETOUCH_OPTIONS[key]) (merged as Raw)[key] = options[key];
+    }
+    const environment = text(raw.environment);
+    return {
+        subMode: raw.subMode === 'environment' ? 'environment' : 'smart',
+        options: merged,
+        environment: ENVIRONMENT_PRESETS.includes(environment) ? environment : ENVIRONMENT_PRESETS[0],
+    };
+};
+
+/** Checks settings that came from a file or a link, filling anything missing with the defaults. Throws on an unknown mode. */
+export const readRecipeSettings = (raw: unknown): RecipeSettings => {
+    if (isObject(raw)) {
+        if (raw.mode === 'design-kit' && isObject(raw.designKit)) return { mode: 'design-kit', designKit: readDesignKit(raw.designKit) };
+        if (raw.mode === 'illustrate' && isObject(raw.illustration)) return { mode: 'illustrate', illustration: readIllustration(raw.illustration) };
+        if (raw.mode === 'retouch' && isObject(raw.retouch)) return { mode: 'retouch', retouch: readRetouch(raw.retouch) };
+    }
+    throw new Error('The recipe has no settings for a known mode.');
+};
+
+// --- Saved recipes ---
+
+// Kept when loaded from storage; a recipe whose settings no longer validate is dropped.
+const readStoredRecipe = (raw: unknown): Recipe => {
+    if (!isObject(raw) || typeof raw.id !== 'string' || !text(raw.name).trim()) throw new Error('Not a valid recipe.');
+    return { id: raw.id, name: text(raw.name).trim(), createdAt: text(raw.createdAt) || new Date().toISOString(), settings: readRecipeSettings(raw.settings) };
+};
+
+const store = createLocalStore<Recipe[]>('ddStudio.recipes', stored => readStoredList(stored, readStoredRecipe, 'recipe'), [], 'recipes');
+const update = store.set;
+
+export const getRecipes = store.get;
+
+export const subscribeToRecipes = store.subscribe;
+
+const newRecipeId = () => `recipe-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createRecipe = (name: string, settings: RecipeSettings): Recipe => ({
+    id: newRecipeId(),
+    name,
+    createdAt: new Date().toISOString(),
+    settings,
+});
+
+/** Adds the recipe, or replaces the one with the same id. */
+export const saveRecipe = (recipe: Recipe) => {
+    const recipes = store.get();
+    const exists = recipes.some(r => r.id === recipe.id);
+    update(exists ? recipes.map(r => r.id === recipe.id ? recipe : r) : [recipe, ...recipes]);
+};
+
+export const deleteRecipe = (id: string) => {
+    update(store.get().filter(recipe => recipe.id !== id));
+};
+
+// --- JSON files ---
+
+export const RECIPE_SCHEMA_VERSION = 1;
+
+export const serializeRecipes = (list: Recipe[]): string =>
+    JSON.stringify({ schemaVersion: RECIPE_SCHEMA_VERSION, exportedAt: new Date().toISOString(), recipes: list }, null, 2);
+
+/** Parses an exported recipe file. Recipes get fresh ids so a file can be imported more than once. Throws on invalid input. */
+export const parseRecipes = (json: string): Recipe[] => {
+    const raw = JSON.parse(json);
+    if (!isObject(raw) || raw.schemaVersion !== RECIPE_SCHEMA_VERSION || !Array.isArray(raw.recipes)) {
+        throw new Error(`Not a version ${RECIPE_SCHEMA_VERSION} recipe file.`);
+    }
+    return raw.recipes.map((recipe: unknown) => {
+        if (!isObject(recipe) || !text(recipe.name).trim()) throw new Error('The file contains an invalid recipe.');
+        return { ...createRecipe(text(recipe.name).trim(), readRecipeSettings(recipe.settings)), createdAt: text(recipe.createdAt) || new Date().toISOString() };
+    });
+};
+
+/** Adds imported recipes in front of the saved ones. */
+export const importRecipes = (imported: Recipe[]) => update([...imported, ...store.get()]);
+
+// --- URL fragment ---
+
+export const RECIPE_FRAGMENT_PREFIX = '#recipe=';
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => base64ToBytes(value.replace(/-/g, '+').replace(/_/g, '/'));
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/** `#recipe=…`: the name and settings as deflated, base64url-encoded JSON. */
+export const encodeRecipeFragment = async (recipe: Pick<Recipe, 'name' | 'settings'>): Promise<string> => {
+    const json = new TextEncoder().encode(JSON.stringify({ name: recipe.name, settings: recipe.settings }));
+    return RECIPE_FRAGMENT_PREFIX + toBase64Url(await transform(json, new CompressionStream('deflate-raw')));
+};
+
+/** Reads a `#recipe=…` fragment back into a recipe, or null when the hash is not one. Throws when it is damaged. */
+export const decodeRecipeFragment = async (hash: string): Promise<Recipe | null> => {
+    if (!hash.startsWith(RECIPE_FRAGMENT_PREFIX)) return null;
+    const bytes = await transform(fromBase64Url(hash.slice(RECIPE_FRAGMENT_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    const raw = JSON.parse(new TextDecoder().decode(bytes));
+    return createRecipe(text(raw?.name).trim() || 'Shared recipe', readRecipeSettings(raw?.settings));
+};
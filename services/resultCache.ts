@@ -0,0 +1,215 @@
+import { ImageFile } from '../types';
+
+// Results of the analysis, prompt-suggestion and vectorize calls, keyed by a SHA-256 of the operation,
+// the provider, the image bytes and the remaining arguments. Every failure here degrades to a cache miss.
+
+export interface ResultCacheSettings {
+    /** When set, lookups are skipped and nothing is stored. */
+    bypass: boolean;
+    ttlHours: number;
+    /** Oldest-used entries are evicted once the stored results exceed this. */
+    maxBytes: number;
+}
+
+export interface ResultCacheStats {
+    entries: number;
+    bytes: number;
+}
+
+interface CacheEntry {
+    key: string;
+    operation: string;
+    value: unknown;
+    bytes: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+const SETTINGS_STORAGE_KEY = 'ddStudio.resultCache';
+const DEFAULT_SETTINGS: ResultCacheSettings = { bypass: false, ttlHours: 24 * 7, maxBytes: 20 * 1024 * 1024 };
+// A single result larger than this is never stored.
+const MAX_ENTRY_BYTES = 2 * 1024 * 1024;
+
+const DB_NAME = 'ddStudio';
+const DB_VERSION = 1;
+const STORE_NAME = 'aiResults';
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// A corrupt field falls back to its default, so a bad value can never switch off expiry or eviction.
+export const getResultCacheSettings = (): ResultCacheSettings => {
+    try {
+        const { bypass, ttlHours, maxBytes } = (JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}') ?? {}) as Partial<Record<keyof ResultCacheSettings, unknown>>;
+        return {
+            bypass: typeof bypass === 'boolean' ? bypass : DEFAULT_SETTINGS.bypass,
+            ttlHours: isPositiveNumber(ttlHours) ? ttlHours : DEFAULT_SETTINGS.ttlHours,
+            maxBytes: isPositiveNumber(maxBytes) ? maxBytes : DEFAULT_SETTINGS.maxBytes,
+        };
+    } catch (error) {
+        console.warn('Ignoring unreadable result cache settings:', error);
+        return DEFAULT_SETTINGS;
+    }
+};
+
+export const setResultCacheSettings = (settings: ResultCacheSettings) => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// --- IndexedDB plumbing ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                store.createIndex('lastUsedAt', 'lastUsedAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again instead of caching the failure.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, body: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+    const db = await openDb();
+    const transaction = db.transaction(STORE_NAME, mode);
+    const result = await body(transaction.objectStore(STORE_NAME));
+    await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+    return result;
+};
+
+// --- Keys ---
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource) => toHex(await crypto.subtle.digest('SHA-256', data));
+
+const hashImage = (image: ImageFile) => {
+    const binary = atob(image.base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return sha256(bytes);
+};
+
+const isImageFile = (value: unknown): value is ImageFile =>
+    !!value && typeof value === 'object' && typeof (value as ImageFile).base64 === 'string' && typeof (value as ImageFile).mimeType === 'string';
+
+// Images nested in arrays and plain objects (e.g. a mood board) are hashed too.
+const normalizeArg = async (arg: unknown): Promise<unknown> => {
+    if (isImageFile(arg)) return { image: await hashImage(arg), mimeType: arg.mimeType };
+    if (Array.isArray(arg)) return Promise.all(arg.map(normalizeArg));
+    if (arg && typeof arg === 'object') {
+        return Object.fromEntries(await Promise.all(Object.entries(arg).map(async ([key, value]) => [key, await normalizeArg(value)])));
+    }
+    return arg ?? null;
+};
+
+/**
+ * Images contribute the hash of their bytes, so the same picture re-uploaded under another name still hits.
+ * Resolves to null when hashing is unavailable (e.g. outside a secure context).
+ */
+export const computeCacheKey = async (operation: string, providerId: string, args: unknown[]): Promise<string | null> => {
+    try {
+        const normalized = await Promise.all(args.map(normalizeArg));
+        return await sha256(new TextEncoder().encode(JSON.stringify([operation, providerId, normalized])));
+    } catch (error) {
+        console.warn('Could not compute result cache key:', error);
+        return null;
+    }
+};
+
+// --- Reads and writes ---
+
+export const readCachedResult = async <T>(key: string): Promise<T | undefined> => {
+    const { bypass, ttlHours } = getResultCacheSettings();
+    if (bypass) return undefined;
+    try {
+        return await withStore('readwrite', async store => {
+            const entry = await promisify<CacheEntry | undefined>(store.get(key));
+            if (!entry) return undefined;
+            if (Date.now() - entry.createdAt > ttlHours * 60 * 60 * 1000) {
+                store.delete(key);
+                return undefined;
+            }
+            store.put({ ...entry, lastUsedAt: Date.now() });
+            return entry.value as T;
+        });
+    } catch (error) {
+        console.warn('Result cache lookup failed:', error);
+        return undefined;
+    }
+};
+
+const evictOverflow = (store: IDBObjectStore, maxBytes: number) => new Promise<void>((resolve, reject) => {
+    const entries: { key: string; bytes: number }[] = [];
+    const cursorRequest = store.index('lastUsedAt').openCursor(null, 'prev');
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+            const { key, bytes } = cursor.value as CacheEntry;
+            entries.push({ key, bytes });
+            cursor.continue();
+            return;
+        }
+        // Newest first: keep entries until the budget is spent, drop the rest.
+        let total = 0;
+        for (const entry of entries) {
+            total += entry.bytes;
+            if (total > maxBytes) store.delete(entry.key);
+        }
+        resolve();
+    };
+});
+
+export const writeCachedResult = async (key: string, operation: string, value: unknown) => {
+    const { bypass, maxBytes } = getResultCacheSettings();
+    if (bypass) return;
+    const bytes = new Blob([JSON.stringify(value)]).size;
+    if (bytes > MAX_ENTRY_BYTES || bytes > maxBytes) return;
+    try {
+        await withStore('readwrite', async store => {
+            const now = Date.now();
+            const entry: CacheEntry = { key, operation, value, bytes, createdAt: now, lastUsedAt: now };
+            await promisify(store.put(entry));
+            await evictOverflow(store, maxBytes);
+        });
+    } catch (error) {
+        console.warn('Result cache write failed:', error);
+    }
+};
+
+export const getResultCacheStats = async (): Promise<ResultCacheStats> => {
+    try {
+        return await withStore('readonly', async store => {
+            const entries = await promisify(store.getAll()) as CacheEntry[];
+            return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0) };
+        });
+    } catch (error) {
+        console.warn('Could not read result cache stats:', error);
+        return { entries: 0, bytes: 0 };
+    }
+};
+
+export const clearResultCache = async () => {
+    try {
+        await withStore('readwrite', async store => { await promisify(store.clear()); });
+    } catch (error) {
+        console.warn('Could not clear result cache:', error);
+    }
+};
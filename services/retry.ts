@@ -0,0 +1,56 @@
+import { CancelledError, toAIError } from './aiErrors';
+
+export interface RetryPolicy {
+    /** Extra attempts after the first one. */
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Tunable through AI_MAX_RETRIES and AI_RETRY_BASE_DELAY_MS in .env.local (see vite.config.ts).
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: readNumber(process.env.AI_MAX_RETRIES, 2),
+    baseDelayMs: readNumber(process.env.AI_RETRY_BASE_DELAY_MS, 1000),
+    maxDelayMs: 15000,
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const handleAbort = () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+/**
+ * Runs `operation`, retrying transient failures (quota and network) with exponential backoff
+ * and jitter. Every other error, and the last transient one, is rethrown as an AIError.
+ * Once `signal` aborts, pending backoffs stop and late results are discarded as cancelled.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, signal?: AbortSignal, policy: RetryPolicy = DEFAULT_RETRY_POLICY): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            if (signal?.aborted) throw new CancelledError();
+            const result = await operation();
+            if (signal?.aborted) throw new CancelledError();
+            return result;
+        } catch (error) {
+            if (signal?.aborted) throw new CancelledError({ cause: error });
+            const aiError = toAIError(error);
+            if (!aiError.isTransient || attempt >= policy.maxRetries) throw aiError;
+            const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+            const wait = Math.round(backoff / 2 + Math.random() * backoff / 2);
+            console.warn(`AI call failed with a ${aiError.kind} error, retrying in ${wait}ms (attempt ${attempt + 1} of ${policy.maxRetries}).`);
+            await sleep(wait, signal);
+        }
+    }
+};
@@ -0,0 +1,62 @@
+import { CameraPreset, GenerationParams, LightingPreset, ManipulationPreset, MockupPreset, PeopleRetouchPreset, Preset, PresetCategory, RetouchPreset } from '../types';
+import { GeneratedImage } from './aiService';
+
+export interface SweepAxis {
+    category: PresetCategory;
+    presets: Preset[];
+}
+
+/** The presets one cell overrides, by category. */
+export interface SweepSelection {
+    camera?: CameraPreset;
+    lighting?: LightingPreset;
+    mockup?: MockupPreset;
+    manipulation?: ManipulationPreset;
+    retouch?: RetouchPreset;
+    peopleRetouch?: PeopleRetouchPreset;
+}
+
+export type SweepCellStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface SweepCell {
+    key: string;
+    row: Preset;
+    column?: Preset;
+    selection: SweepSelection;
+    status: SweepCellStatus;
+    result?: GeneratedImage;
+    error?: string;
+}
+
+// Every cell is a full generation, so the matrix is capped to keep a sweep affordable.
+export const MAX_SWEEP_CELLS = 24;
+
+export const SWEEP_CONCURRENCY = 2;
+
+// Camera and lighting presets carry a technical hint; one that lacks it gets an empty hint.
+const selectionFor = (category: PresetCategory, preset: Preset): SweepSelection => {
+    if (category === 'camera') return { camera: { metadata: '', ...preset } };
+    if (category === 'lighting') return { lighting: { metadata: '', ...preset } };
+    return { [category]: preset };
+};
+
+/** Row × column cells in reading order; without a column axis every row is a single cell. */
+export const buildSweepCells = (rows: SweepAxis, columns: SweepAxis | null): SweepCell[] =>
+    rows.presets.flatMap(row => (columns?.presets.length ? columns.presets : [undefined]).map((column): SweepCell => ({
+        key: `${row.id}|${column?.id ?? ''}`,
+        row,
+        column,
+        selection: { ...selectionFor(rows.category, row), ...(column && columns ? selectionFor(columns.category, column) : {}) },
+        status: 'queued',
+    })));
+
+/** The params with each category of the selection narrowed to that one preset. */
+export const applySweepSelection = (params: GenerationParams, selection: SweepSelection): GenerationParams => ({
+    ...params,
+    cameraPresets: selection.camera ? [selection.camera] : params.cameraPresets,
+    lightingPresets: selection.lighting ? [selection.lighting] : params.lightingPresets,
+    mockupPreset: selection.mockup ?? params.mockupPreset,
+    manipulationPresets: selection.manipulation ? [selection.manipulation] : params.manipulationPresets,
+    retouchPresets: selection.retouch ? [selection.retouch] : params.retouchPresets,
+    peopleRetouchPresets: selection.peopleRetouch ? [selection.peopleRetouch] : params.peopleRetouchPresets,
+});
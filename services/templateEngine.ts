@@ -0,0 +1,63 @@
+export type TemplateValue = string | number | boolean | string[];
+export type TemplateValues = Record<string, TemplateValue>;
+
+/** Any object whose fields are all template values, such as the typed values of one prompt template. */
+export type TemplateValuesOf<V> = { [K in keyof V]: TemplateValue };
+
+/*
+ * A deliberately small, logic-less syntax:
+ *   {{name}}                       value (lists render one item per line)
+ *   {{#name}}...{{/name}}          section, rendered when the value is truthy (non-empty for lists)
+ *   {{^name}}...{{/name}}          inverted section, rendered when the value is falsy
+ *   {{#name=value}}...{{/name}}    section, rendered when the value equals the literal
+ * A section tag alone on its line takes its line break with it, so templates stay readable.
+ */
+const STANDALONE_TAG = /^[ \t]*(\{\{[#^/][^}]+\}\})[ \t]*\r?\n/gm;
+const SECTION = /\{\{([#^])(\w+)(?:=([^}]+))?\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+const ANY_TAG = /\{\{([#^/]?)(\w+)(?:=[^}]+)?\}\}/g;
+
+const isTruthy = (value: TemplateValue | undefined, literal?: string): boolean => {
+    if (literal !== undefined) return value !== undefined && String(value) === literal;
+    return Array.isArray(value) ? value.length > 0 : !!value;
+};
+
+const renderSections = (template: string, values: TemplateValues): string =>
+    template.replace(SECTION, (_, kind: string, name: string, literal: string | undefined, inner: string) => {
+        const matches = isTruthy(values[name], literal);
+        return (kind === '#') === matches ? renderSections(inner, values) : '';
+    });
+
+export const renderTemplate = <V extends TemplateValuesOf<V>>(template: string, typedValues: V): string => {
+    const values: TemplateValues = { ...typedValues };
+    return renderSections(template.replace(STANDALONE_TAG, '$1'), values)
+        .replace(VARIABLE, (tag, name: string) => {
+            const value = values[name];
+            if (value === undefined) return tag;
+            return Array.isArray(value) ? value.join('\n') : String(value);
+        });
+};
+
+export interface TemplateProblem {
+    kind: 'unknown-placeholder' | 'unexpected-close' | 'unclosed-section';
+    name: string;
+}
+
+/** Lists unknown placeholders and unbalanced section tags in a template body. */
+export const validateTemplate = (template: string, knownNames: string[]): TemplateProblem[] => {
+    const problems: TemplateProblem[] = [];
+    const open: string[] = [];
+    for (const [, kind, name] of template.matchAll(ANY_TAG)) {
+        if (!knownNames.includes(name) && !problems.some(p => p.kind === 'unknown-placeholder' && p.name === name)) {
+            problems.push({ kind: 'unknown-placeholder', name });
+        }
+        if (kind === '#' || kind === '^') {
+            open.push(name);
+        } else if (kind === '/') {
+            if (open[open.length - 1] === name) open.pop();
+            else problems.push({ kind: 'unexpected-close', name });
+        }
+    }
+    open.forEach(name => problems.push({ kind: 'unclosed-section', name }));
+    return problems;
+};
@@ -0,0 +1,133 @@
+/** What a single provider response consumed. */
+export interface AIUsage {
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    costUsd: number;
+}
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, costUsd: 0 };
+
+// USD per million tokens. Generated images are billed as output tokens. List prices change, so treat costs as estimates.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-image': { input: 0.30, output: 30.00 },
+    'mock': { input: 0, output: 0 },
+};
+
+export const estimateCostUsd = (usage: AIUsage): number => {
+    const pricing = MODEL_PRICING[usage.model];
+    if (!pricing) {
+        console.warn(`No pricing known for model "${usage.model}", counting its cost as zero.`);
+        return 0;
+    }
+    return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+};
+
+export const addUsage = (totals: UsageTotals, usage: AIUsage): UsageTotals => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + usage.inputTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+    images: totals.images + usage.images,
+    costUsd: totals.costUsd + estimateCostUsd(usage),
+});
+
+/** Sums the usage of every call (and retry) made on behalf of one result. */
+export const createUsageCollector = () => {
+    let totals = EMPTY_USAGE_TOTALS;
+    return {
+        onUsage: (usage: AIUsage) => { totals = addUsage(totals, usage); },
+        get totals() { return totals; },
+    };
+};
+
+export const formatCostUsd = (costUsd: number): string =>
+    `$${costUsd < 0.01 && costUsd > 0 ? costUsd.toFixed(4) : costUsd.toFixed(2)}`;
+
+export const formatTokenCount = (tokens: number): string =>
+    tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+// --- Budget ---
+
+export interface UsageBudget {
+    /** Session spend after which further calls are refused; null disables the budget. */
+    limitUsd: number | null;
+    /** Fraction of the limit at which the UI starts warning. */
+    warnAt: number;
+}
+
+export type BudgetStatus = 'ok' | 'warn' | 'exceeded';
+
+const BUDGET_STORAGE_KEY = 'ddStudio.usageBudget';
+const DEFAULT_BUDGET: UsageBudget = { limitUsd: null, warnAt: 0.8 };
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+// Each field falls back to its default on its own, so one corrupt value does not reset the other.
+const readBudget = (): UsageBudget => {
+    try {
+        const { limitUsd, warnAt } = (JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) || '{}') ?? {}) as Partial<Record<keyof UsageBudget, unknown>>;
+        return {
+            limitUsd: isPositiveNumber(limitUsd) ? limitUsd : DEFAULT_BUDGET.limitUsd,
+            warnAt: isPositiveNumber(warnAt) && warnAt <= 1 ? warnAt : DEFAULT_BUDGET.warnAt,
+        };
+    } catch (error) {
+        console.warn('Ignoring unreadable usage budget:', error);
+        return DEFAULT_BUDGET;
+    }
+};
+
+// --- Session ledger ---
+// Lives for the page session. The snapshot is replaced on every change so React can subscribe to it.
+
+export interface SessionUsage {
+    totals: UsageTotals;
+    byOperation: Record<string, UsageTotals>;
+    budget: UsageBudget;
+}
+
+let session: SessionUsage = { totals: EMPTY_USAGE_TOTALS, byOperation: {}, budget: readBudget() };
+const listeners = new Set<() => void>();
+
+const update = (next: SessionUsage) => {
+    session = next;
+    listeners.forEach(listener => listener());
+};
+
+export const getSessionUsage = (): SessionUsage => session;
+
+export const subscribeToSessionUsage = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const recordUsage = (operation: string, usage: AIUsage) => {
+    update({
+        ...session,
+        totals: addUsage(session.totals, usage),
+        byOperation: { ...session.byOperation, [operation]: addUsage(session.byOperation[operation] ?? EMPTY_USAGE_TOTALS, usage) },
+    });
+};
+
+export const resetSessionUsage = () => {
+    update({ ...session, totals: EMPTY_USAGE_TOTALS, byOperation: {} });
+};
+
+export const setUsageBudget = (budget: UsageBudget) => {
+    localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+    update({ ...session, budget });
+};
+
+export const getBudgetStatus = ({ totals, budget }: SessionUsage = session): BudgetStatus => {
+    if (budget.limitUsd === null) return 'ok';
+    if (totals.costUsd >= budget.limitUsd) return 'exceeded';
+    return totals.costUsd >= budget.limitUsd * budget.warnAt ? 'warn' : 'ok';
+};
@@ -1,4 +1,5 @@
 import React from 'react';
+import { UsageTotals } from './services/usage';
 
 export interface Preset {
     id: string;
@@ -33,10 +34,38 @@ export interface RetouchPreset extends Preset {
     // no extra fields
 }
 
-export type AspectRatio = '4:5' | '16:9';
+// The Design Kit preset groups, named as the analysis call reports them.
+export type PresetCategory = 'camera' | 'lighting' | 'mockup' | 'manipulation' | 'retouch' | 'peopleRetouch';
+
+/** Icons a user-defined preset can show; rendered from PRESET_ICONS. */
+export type PresetIconId = 'camera' | 'sun' | 'cube' | 'layers' | 'wand' | 'user' | 'brush' | 'sparkles' | 'eye' | 'photo';
+
+/** A preset created by the user. Stored without React nodes so it can be saved and shared as JSON. */
+export interface CustomPresetDefinition {
+    id: string;
+    category: PresetCategory;
+    name: string;
+    description: string;
+    /** Technical hint added to the prompt, like the metadata of the built-in camera and lighting presets. */
+    metadata: string;
+    icon: PresetIconId;
+}
+
+export interface PresetSuggestion {
+    id: string;
+    /** One sentence on why the preset fits this product and reference. */
+    rationale: string;
+}
+
+// The presets offered in the export controls, or any custom "W:H".
+export type AspectRatio = '1:1' | '4:5' | '9:16' | '16:9' | '3:2' | '2:3' | '21:9' | `${number}:${number}`;
+
+// How a result that misses the aspect ratio is brought to it: extend the scene, or crop around the product.
+export type AspectFitMode = 'pad' | 'crop';
 
 export interface ExportSettings {
     aspectRatio: AspectRatio;
+    fitMode: AspectFitMode;
     transparent: boolean;
 }
 
@@ -98,6 +127,83 @@ export interface HistoryItem {
     prompt: string;
     mode: AppMode;
     creativeSubMode?: CreativeMode;
+    usage?: UsageTotals;
+    // Exact instruction text sent with the request, including any one-off edit.
+    sentPrompt?: string;
+    // Other candidates from the same Design Kit run; 'generated' is the promoted one.
+    alternates?: { base64: string; mimeType: string }[];
+    // Mockup scene this Design Kit result was generated for.
+    mockupId?: string;
+    // Brand kit that was active for the request; the name is kept in case the kit is deleted later.
+    brandKit?: { id: string; name: string };
+    // Set on refinement versions: the result the chat started from, and which turn produced this one (1-based).
+    parentId?: string;
+    refinementTurn?: number;
+    // The control settings that produced this result, so they can be restored or saved as a recipe.
+    settings?: RecipeSettings;
+}
+
+/** GenerationParams by preset id, plus the Design Kit controls around them. */
+export interface DesignKitSettings {
+    presetIds: Record<PresetCategory, string[]>;
+    exportSettings: ExportSettings;
+    customPrompt: string;
+    useMagicComposite: boolean;
+    variationCount: number;
+}
+
+export interface IllustrationSettings {
+    styleId: string;
+    useStylePreset: boolean;
+    detailFidelity: number;
+    customPrompt: string;
+}
+
+export interface RetouchSettings {
+    subMode: RetouchSubMode;
+    options: RetouchOptions;
+    environment: string;
+}
+
+/** Everything in the controls of one mode that shapes a result; images are not part of it. */
+export type RecipeSettings =
+    | { mode: 'design-kit'; designKit: DesignKitSettings }
+    | { mode: 'illustrate'; illustration: IllustrationSettings }
+    | { mode: 'retouch'; retouch: RetouchSettings };
+
+export interface Recipe {
+    id: string;
+    name: string;
+    createdAt: string;
+    settings: RecipeSettings;
+}
+
+export type ReferenceRole = 'style' | 'lighting' | 'palette' | 'composition' | 'texture';
+
+// One image of a mood board and the aspect of the result it governs.
+export interface ReferenceImage {
+    id: string;
+    image: ImageFile;
+    role: ReferenceRole;
+    /** 0-100: how strongly the reference should steer its aspect. */
+    weight: number;
+}
+
+export interface RefinementTurn {
+    instruction: string;
+    image: { base64: string; mimeType: string };
+}
+
+export interface BrandKit {
+    id: string;
+    name: string;
+    /** Hex colors, e.g. "#C8102E". */
+    colors: string[];
+    bannedColors: string[];
+    moodWords: string[];
+    logo: { base64: string; mimeType: string } | null;
+    /** Send the logo as an extra image with every request. */
+    attachLogo: boolean;
 }
 
 
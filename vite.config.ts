@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_MAX_RETRIES': JSON.stringify(env.AI_MAX_RETRIES),
+        'process.env.AI_RETRY_BASE_DELAY_MS': JSON.stringify(env.AI_RETRY_BASE_DELAY_MS)
       },
       resolve: {
         alias: {